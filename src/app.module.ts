@@ -7,6 +7,9 @@ import { ArbitrageModule } from './arbitrage/arbitrage.module';
 import { TelegramModule } from './telegram/telegram.module';
 import { PriceModule } from './price/price.module';
 import { ListingsModule } from './listings/listings.module';
+import { FundingModule } from './funding/funding.module';
+import { BasisModule } from './basis/basis.module';
+import { CalendarModule } from './calendar/calendar.module';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 
@@ -36,6 +39,9 @@ import { AppService } from './app.service';
         TelegramModule,
         PriceModule,
         ListingsModule,
+        FundingModule,
+        BasisModule,
+        CalendarModule,
     ],
     controllers: [AppController],
     providers: [AppService],
@@ -1,7 +1,10 @@
 import { Injectable } from '@nestjs/common';
+import { ExchangeRegistry } from './exchange/exchange.registry';
 
 @Injectable()
 export class AppService {
+    constructor(private readonly exchangeRegistry: ExchangeRegistry) { }
+
     getHello(): string {
         return '⚡ Futures Arbitrage Bot - Real-time arbitrage trading bot built with Nest.js';
     }
@@ -20,7 +23,7 @@ export class AppService {
             service: 'Futures Arbitrage Bot',
             version: '1.0.0',
             status: 'Running',
-            exchanges: ['Binance', 'ByBit', 'MEXC', 'Gate.io', 'LBank'],
+            exchanges: this.exchangeRegistry.getEnabled().map(exchange => exchange.displayName),
             features: [
                 'Real-time price tracking',
                 'Arbitrage detection',
@@ -1,13 +1,17 @@
 import { Controller, Get, Post, Body, Query, ParseIntPipe, Param } from '@nestjs/common';
 import { ArbitrageService } from './arbitrage.service';
+import { PairRefreshService } from './pair-refresh.service';
 import { ExchangeService } from '@/exchange/exchange.service';
+import { ClockSyncService } from '@/exchange/clock-sync.service';
 import { ArbitrageConfig } from '@/common/types';
 
 @Controller('arbitrage')
 export class ArbitrageController {
     constructor(
         private readonly arbitrageService: ArbitrageService,
-        private readonly exchangeService: ExchangeService
+        private readonly exchangeService: ExchangeService,
+        private readonly pairRefreshService: PairRefreshService,
+        private readonly clockSyncService: ClockSyncService
     ) {}
 
     @Get('opportunities')
@@ -46,6 +50,7 @@ export class ArbitrageController {
             connectionStatus: this.exchangeService.getConnectionStatus(),
             activeExchanges: this.exchangeService.getActiveExchanges(),
             tradingPairs: this.exchangeService.getTradingPairs(),
+            clockSync: this.clockSyncService.getStatus(),
             timestamp: new Date().toISOString()
         };
     }
@@ -62,9 +67,10 @@ export class ArbitrageController {
     @Post('refresh-pairs')
     async refreshPairs() {
         try {
-            await this.exchangeService.refreshCommonPairs();
+            const diff = await this.pairRefreshService.refreshPairs();
             return {
                 message: 'Trading pairs refreshed successfully',
+                ...diff,
                 tradingPairs: this.exchangeService.getTradingPairs(),
                 ...this.exchangeService.getCommonPairsInfo(),
                 timestamp: new Date().toISOString()
@@ -84,6 +90,7 @@ export class ArbitrageController {
             symbol,
             exchanges: this.exchangeService.getExchangesForSymbol(symbol),
             isEligible: this.exchangeService.isSymbolEligible(symbol),
+            instruments: this.exchangeService.getInstrumentSpecs(symbol),
             timestamp: new Date().toISOString()
         };
     }
@@ -3,6 +3,7 @@ import { BullModule } from '@nestjs/bull';
 import { ArbitrageService } from './arbitrage.service';
 import { ArbitrageController } from './arbitrage.controller';
 import { ArbitrageProcessor } from './arbitrage.processor';
+import { PairRefreshService } from './pair-refresh.service';
 import { PriceModule } from '@/price/price.module';
 import { TelegramModule } from '@/telegram/telegram.module';
 import { ExchangeModule } from '@/exchange/exchange.module';
@@ -17,7 +18,7 @@ import { ExchangeModule } from '@/exchange/exchange.module';
         }),
     ],
     controllers: [ArbitrageController],
-    providers: [ArbitrageService, ArbitrageProcessor],
+    providers: [ArbitrageService, ArbitrageProcessor, PairRefreshService],
     exports: [ArbitrageService],
 })
 export class ArbitrageModule { } 
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bull';
+import { ExchangeService } from '@/exchange/exchange.service';
+import { PriceService } from '@/price/price.service';
+import { TelegramService } from '@/telegram/telegram.service';
+import { PriceData } from '@/common/types';
+import { ArbitrageService } from './arbitrage.service';
+
+const NOW = Date.UTC(2025, 5, 1);
+
+describe('ArbitrageService', () => {
+    let prices: Map<string, PriceData>;
+    let available: Set<string>;
+    let config: Record<string, string>;
+    let queueAdd: jest.Mock;
+    let service: ArbitrageService;
+
+    const setPrice = (exchange: string, price: number, quoteVolume = 1_000_000) => prices.set(exchange, {
+        symbol: 'BTC/USDT',
+        exchange,
+        marketType: 'perp',
+        price,
+        quoteVolume,
+        timestamp: Date.now(),
+        source: 'ws',
+    });
+
+    const closedJobs = () => queueAdd.mock.calls
+        .filter(([name]) => name === 'processClosedOpportunity')
+        .map(([, data]) => data);
+
+    const createService = () => {
+        const exchangeService = {
+            getTradingPairs: () => ['BTC/USDT'],
+            isExchangeAvailable: (exchange: string) => available.has(exchange),
+            isExchangeEnabled: () => true,
+        } as unknown as ExchangeService;
+        const priceService = {
+            getAllPricesForSymbol: () => Array.from(prices.values()),
+            isPriceStale: () => false,
+            getLiquidity: (priceData: PriceData) => ({ exchange: priceData.exchange, openInterestUsd: null, volume24hUsd: priceData.quoteVolume }),
+        } as unknown as PriceService;
+
+        queueAdd = jest.fn().mockResolvedValue(undefined);
+        service = new ArbitrageService(
+            new ConfigService(config),
+            priceService,
+            {} as TelegramService,
+            exchangeService,
+            { add: queueAdd } as unknown as Queue,
+        );
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: NOW });
+
+        available = new Set(['binance', 'bybit']);
+        prices = new Map();
+        setPrice('binance', 50000);
+        setPrice('bybit', 51000);
+
+        config = { MIN_OPPORTUNITY_DURATION_FOR_CLOSE_ALERT: '0', ARBITRAGE_MIN_VOLUME_24H_USD: '100000' };
+        createService();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('does not close an active opportunity on a leg whose circuit breaker is open', async () => {
+        await service.detectArbitrageOpportunities();
+        expect(queueAdd).toHaveBeenCalledWith('processOpportunity', expect.objectContaining({ exchangeA: 'binance', exchangeB: 'bybit' }), expect.anything());
+
+        // The open breaker leaves bybit's last price behind; it must not count as convergence
+        available.delete('bybit');
+        setPrice('bybit', 50000);
+        jest.advanceTimersByTime(10_000);
+        await service.detectArbitrageOpportunities();
+        expect(closedJobs()).toEqual([]);
+
+        available.add('bybit');
+        jest.advanceTimersByTime(10_000);
+        await service.detectArbitrageOpportunities();
+        expect(closedJobs()).toEqual([expect.objectContaining({ closeReason: 'BELOW_THRESHOLD' })]);
+    });
+
+    it('closes an active opportunity once a leg falls below the liquidity minimums', async () => {
+        await service.detectArbitrageOpportunities();
+
+        setPrice('bybit', 51000, 50_000);
+        jest.advanceTimersByTime(10_000);
+        await service.detectArbitrageOpportunities();
+
+        expect(closedJobs()).toEqual([expect.objectContaining({ exchangeA: 'binance', exchangeB: 'bybit', closeReason: 'LOW_LIQUIDITY' })]);
+    });
+
+    it('keeps tracking a tagged opportunity whose leg falls below the liquidity minimums', async () => {
+        config.ARBITRAGE_LOW_LIQUIDITY_ACTION = 'tag';
+        createService();
+        await service.detectArbitrageOpportunities();
+
+        setPrice('bybit', 51000, 50_000);
+        jest.advanceTimersByTime(10_000);
+        await service.detectArbitrageOpportunities();
+
+        expect(closedJobs()).toEqual([]);
+    });
+});
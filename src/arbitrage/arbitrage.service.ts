@@ -6,7 +6,7 @@ import { Queue } from 'bull';
 import { PriceService } from '@/price/price.service';
 import { TelegramService } from '@/telegram/telegram.service';
 import { ExchangeService } from '@/exchange/exchange.service';
-import { ArbitrageOpportunity, PriceData, ArbitrageConfig, ActiveArbitrageOpportunity, ArbitrageOpportunityClosed } from '@/common/types';
+import { ArbitrageOpportunity, PriceData, ArbitrageConfig, ArbitragePriceSource, ActiveArbitrageOpportunity, ArbitrageOpportunityClosed, LegLiquidity, LowLiquidityAction } from '@/common/types';
 
 @Injectable()
 export class ArbitrageService {
@@ -33,6 +33,13 @@ export class ArbitrageService {
             minProfitUsd: parseFloat(this.configService.get<string>('MIN_PROFIT_USD', '10')),
             sendClosedAlerts: this.configService.get<string>('SEND_CLOSED_ALERTS', 'true') === 'true',
             minOpportunityDurationForCloseAlert: parseInt(this.configService.get<string>('MIN_OPPORTUNITY_DURATION_FOR_CLOSE_ALERT', '2')),
+            priceSource: this.parsePriceSource(this.configService.get<string>('ARBITRAGE_PRICE_SOURCE', 'book')),
+            vwapWindowSeconds: parseInt(this.configService.get<string>('ARBITRAGE_VWAP_WINDOW_SECONDS', '30')),
+            maxLegSkewMs: parseInt(this.configService.get<string>('ARBITRAGE_MAX_LEG_SKEW_MS', '2000')),
+            minOpenInterestUsd: parseFloat(this.configService.get<string>('ARBITRAGE_MIN_OPEN_INTEREST_USD', '0')),
+            rejectUnknownOpenInterest: this.configService.get<string>('ARBITRAGE_REJECT_UNKNOWN_OPEN_INTEREST', 'false') === 'true',
+            minVolume24hUsd: parseFloat(this.configService.get<string>('ARBITRAGE_MIN_VOLUME_24H_USD', '0')),
+            lowLiquidityAction: this.parseLowLiquidityAction(this.configService.get<string>('ARBITRAGE_LOW_LIQUIDITY_ACTION', 'suppress')),
         };
 
         this.logger.log(`📊 Arbitrage detector initialized:`);
@@ -43,6 +50,9 @@ export class ArbitrageService {
         this.logger.log(`   - Min profit: $${this.config.minProfitUsd}`);
         this.logger.log(`   - Send closed alerts: ${this.config.sendClosedAlerts}`);
         this.logger.log(`   - Min duration for close alert: ${this.config.minOpportunityDurationForCloseAlert} minutes`);
+        this.logger.log(`   - Price source: ${this.config.priceSource}${this.config.priceSource === 'vwap' ? ` (${this.config.vwapWindowSeconds}s)` : ''}`);
+        this.logger.log(`   - Max leg skew: ${this.config.maxLegSkewMs}ms`);
+        this.logger.log(`   - Min leg liquidity: $${this.config.minOpenInterestUsd} OI${this.config.rejectUnknownOpenInterest ? ' (required)' : ''}, $${this.config.minVolume24hUsd} 24h volume (${this.config.lowLiquidityAction})`);
     }
 
     @Cron(CronExpression.EVERY_10_SECONDS)
@@ -84,22 +94,27 @@ export class ArbitrageService {
                 continue; // Need at least 2 exchanges to compare
             }
 
-            // Filter out stale prices
-            const freshPrices = prices.filter(price => !this.priceService.isPriceStale(symbol, price.exchange));
+            // Compare all pairs of prices
+            for (let i = 0; i < prices.length; i++) {
+                for (let j = i + 1; j < prices.length; j++) {
+                    const priceA = prices[i];
+                    const priceB = prices[j];
 
-            if (freshPrices.length < 2) {
-                continue; // Need at least 2 fresh prices
-            }
+                    if (!this.canCompareLegs(priceA, priceB)) {
+                        continue;
+                    }
 
-            // Compare all pairs of prices
-            for (let i = 0; i < freshPrices.length; i++) {
-                for (let j = i + 1; j < freshPrices.length; j++) {
-                    const priceA = freshPrices[i];
-                    const priceB = freshPrices[j];
+                    const lowLiquidityLegs = this.getLowLiquidityLegs(priceA, priceB);
+                    if (lowLiquidityLegs.length > 0 && this.config.lowLiquidityAction === 'suppress') {
+                        continue;
+                    }
 
                     const opportunity = this.calculateArbitrageOpportunity(priceA, priceB);
 
                     if (this.isValidArbitrageOpportunity(opportunity)) {
+                        if (lowLiquidityLegs.length > 0) {
+                            opportunity.lowLiquidityLegs = lowLiquidityLegs;
+                        }
                         opportunities.push(opportunity);
                     }
                 }
@@ -132,6 +147,28 @@ export class ArbitrageService {
             };
         }
 
+        // Use executable prices when both legs have a book
+        if (this.config.priceSource === 'book' && this.hasOrderBook(priceA) && this.hasOrderBook(priceB)) {
+            return this.calculateOrderBookOpportunity(priceA, priceB);
+        }
+
+        // Use trade VWAPs when both legs traded in the window, so one tiny print can't open a spread
+        if (this.config.priceSource === 'vwap') {
+            const vwapA = this.priceService.getTradeWindow(priceA.symbol, priceA.exchange, this.config.vwapWindowSeconds).vwap;
+            const vwapB = this.priceService.getTradeWindow(priceB.symbol, priceB.exchange, this.config.vwapWindowSeconds).vwap;
+
+            if (vwapA !== null && vwapB !== null) {
+                return this.calculatePriceOpportunity({ ...priceA, price: vwapA }, { ...priceB, price: vwapB }, 'vwap');
+            }
+        }
+
+        return this.calculatePriceOpportunity(priceA, priceB, 'last');
+    }
+
+    /**
+     * Spread between two reference prices (last trade or VWAP), trading at those prices
+     */
+    private calculatePriceOpportunity(priceA: PriceData, priceB: PriceData, priceSource: ArbitragePriceSource): ArbitrageOpportunity {
         const priceDifference = Math.abs(priceA.price - priceB.price);
         const avgPrice = (priceA.price + priceB.price) / 2;
         const priceDifferencePercent = (priceDifference / avgPrice) * 100;
@@ -152,10 +189,50 @@ export class ArbitrageService {
             priceDifferencePercent,
             profit,
             action,
+            priceSource,
+            timestamp: Date.now(),
+        };
+    }
+
+    /**
+     * Spread when buying at the best ask on one exchange and selling at the best bid on the other
+     */
+    private calculateOrderBookOpportunity(priceA: PriceData, priceB: PriceData): ArbitrageOpportunity {
+        const spreadBuyA = priceB.bestBid - priceA.bestAsk;
+        const spreadBuyB = priceA.bestBid - priceB.bestAsk;
+        const buyOnA = spreadBuyA >= spreadBuyB;
+
+        const buyPrice = buyOnA ? priceA.bestAsk : priceB.bestAsk;
+        const priceDifference = buyOnA ? spreadBuyA : spreadBuyB;
+        const priceDifferencePercent = (priceDifference / buyPrice) * 100;
+
+        return {
+            symbol: priceA.symbol,
+            exchangeA: priceA.exchange,
+            exchangeB: priceB.exchange,
+            priceA: buyOnA ? priceA.bestAsk : priceA.bestBid,
+            priceB: buyOnA ? priceB.bestBid : priceB.bestAsk,
+            priceDifference,
+            priceDifferencePercent,
+            profit: priceDifference * 1000, // Assuming 1000 units trade size
+            action: buyOnA ? 'BUY_A_SELL_B' : 'BUY_B_SELL_A',
+            priceSource: 'book',
             timestamp: Date.now(),
         };
     }
 
+    private parsePriceSource(value: string): ArbitragePriceSource {
+        return value === 'last' || value === 'vwap' ? value : 'book';
+    }
+
+    private parseLowLiquidityAction(value: string): LowLiquidityAction {
+        return value === 'tag' ? 'tag' : 'suppress';
+    }
+
+    private hasOrderBook(priceData: PriceData): boolean {
+        return priceData.bestBid > 0 && priceData.bestAsk > 0;
+    }
+
     private isValidArbitrageOpportunity(opportunity: ArbitrageOpportunity): boolean {
         // Check if opportunity has valid data
         if (opportunity.action === 'INVALID' ||
@@ -258,6 +335,64 @@ export class ArbitrageService {
         return `${opportunity.symbol}-${exchanges[0]}-${exchanges[1]}`;
     }
 
+    /**
+     * Whether two legs can be compared at all. Only perps are compared here:
+     * BasisService watches spot against perp and CalendarSpreadService dated
+     * against perp. Stale prices, exchanges whose circuit breaker is open and
+     * legs priced at different moments are left out as well.
+     */
+    private canCompareLegs(priceA: PriceData, priceB: PriceData): boolean {
+        const isUsableLeg = (priceData: PriceData) =>
+            priceData.marketType === 'perp' &&
+            !this.priceService.isPriceStale(priceData.symbol, priceData.exchange) &&
+            this.exchangeService.isExchangeAvailable(priceData.exchange);
+
+        return isUsableLeg(priceA) && isUsableLeg(priceB) && !this.hasExcessiveLegSkew(priceA, priceB);
+    }
+
+    /**
+     * Legs whose prices carry exchange event times too far apart compare prices
+     * from different moments, which shows up as a spurious spread
+     */
+    private hasExcessiveLegSkew(priceA: PriceData, priceB: PriceData): boolean {
+        if (!priceA.priceEventTime || !priceB.priceEventTime) {
+            return false; // Venue without event times; staleness checks still apply
+        }
+
+        const skew = Math.abs(priceA.priceEventTime - priceB.priceEventTime);
+        if (skew <= this.config.maxLegSkewMs) {
+            return false;
+        }
+
+        this.logger.debug(`⏱️ Skipping ${priceA.symbol} ${priceA.exchange}/${priceB.exchange}: legs ${skew}ms apart`);
+        return true;
+    }
+
+    /**
+     * Legs below the open interest or 24h volume minimums. Thin contracts
+     * quote stale or wide prices that look like spreads but can't be traded.
+     */
+    private getLowLiquidityLegs(priceA: PriceData, priceB: PriceData): LegLiquidity[] {
+        const { minOpenInterestUsd, minVolume24hUsd, rejectUnknownOpenInterest } = this.config;
+
+        if (!(minOpenInterestUsd > 0) && !(minVolume24hUsd > 0)) {
+            return [];
+        }
+
+        const lowLiquidityLegs = [priceA, priceB]
+            .map(priceData => this.priceService.getLiquidity(priceData))
+            .filter(liquidity =>
+                (minOpenInterestUsd > 0 && (liquidity.openInterestUsd === null ? rejectUnknownOpenInterest : liquidity.openInterestUsd < minOpenInterestUsd)) ||
+                (minVolume24hUsd > 0 && liquidity.volume24hUsd !== null && liquidity.volume24hUsd < minVolume24hUsd)
+            );
+
+        if (lowLiquidityLegs.length > 0) {
+            this.logger.debug(`💧 ${priceA.symbol} ${priceA.exchange}/${priceB.exchange}: low liquidity on ${lowLiquidityLegs.map(leg => leg.exchange).join(', ')}`);
+        }
+
+        return lowLiquidityLegs;
+    }
+
     private addToHistory(opportunity: ArbitrageOpportunity): void {
         this.opportunityHistory.push(opportunity);
 
@@ -267,15 +402,63 @@ export class ArbitrageService {
         }
     }
 
-    private async checkForClosedOpportunities(): Promise<void> {
-        if (!this.config.sendClosedAlerts) {
-            return; // Skip if closed alerts are disabled
+    /**
+     * Close active opportunities with a leg on an exchange that no longer lists
+     * the symbol. Takes exchange -> delisted symbols; returns how many were closed.
+     */
+    async closeDelistedOpportunities(delisted: Record<string, string[]>): Promise<number> {
+        const now = Date.now();
+        let closedCount = 0;
+
+        for (const [opportunityId, activeOpportunity] of this.activeOpportunities) {
+            const isDelisted = [activeOpportunity.exchangeA, activeOpportunity.exchangeB]
+                .some(exchange => delisted[exchange]?.includes(activeOpportunity.symbol));
+
+            if (!isDelisted) {
+                continue;
+            }
+
+            const closedOpportunity = this.createClosedOpportunity(
+                activeOpportunity,
+                activeOpportunity.priceA,
+                activeOpportunity.priceB,
+                'DELISTED',
+                now
+            );
+
+            this.activeOpportunities.delete(opportunityId);
+            closedCount++;
+            this.logger.warn(`⚠️ Closing opportunity ${activeOpportunity.symbol} (${activeOpportunity.exchangeA}/${activeOpportunity.exchangeB}): pair delisted`);
+
+            if (this.config.sendClosedAlerts) {
+                await this.processClosedOpportunity(closedOpportunity);
+            }
         }
 
+        return closedCount;
+    }
+
+    private async checkForClosedOpportunities(): Promise<void> {
         const now = Date.now();
         const closedOpportunities: ArbitrageOpportunityClosed[] = [];
 
         for (const [opportunityId, activeOpportunity] of this.activeOpportunities) {
+            // A leg on a disabled exchange can't be traded or priced any more
+            const disabledExchange = [activeOpportunity.exchangeA, activeOpportunity.exchangeB]
+                .find(exchange => !this.exchangeService.isExchangeEnabled(exchange));
+
+            if (disabledExchange) {
+                closedOpportunities.push(this.createClosedOpportunity(
+                    activeOpportunity,
+                    activeOpportunity.priceA,
+                    activeOpportunity.priceB,
+                    'EXCHANGE_DISABLED',
+                    now
+                ));
+                this.logger.warn(`⚠️ Closing opportunity ${activeOpportunity.symbol} (${activeOpportunity.exchangeA}/${activeOpportunity.exchangeB}): ${disabledExchange} disabled`);
+                continue;
+            }
+
             // Get current prices for this opportunity
             const currentOpportunity = await this.getCurrentOpportunityState(
                 activeOpportunity.symbol,
@@ -324,10 +507,13 @@ export class ArbitrageService {
             }
         }
 
-        // Process closed opportunities
+        // Closed opportunities stop being tracked even when their alerts are disabled
         for (const closedOpportunity of closedOpportunities) {
-            await this.processClosedOpportunity(closedOpportunity);
             this.activeOpportunities.delete(closedOpportunity.id);
+
+            if (this.config.sendClosedAlerts) {
+                await this.processClosedOpportunity(closedOpportunity);
+            }
         }
     }
 
@@ -340,19 +526,29 @@ export class ArbitrageService {
         const priceA = prices.find(p => p.exchange === exchangeA);
         const priceB = prices.find(p => p.exchange === exchangeB);
 
-        if (!priceA || !priceB ||
-            this.priceService.isPriceStale(symbol, exchangeA) ||
-            this.priceService.isPriceStale(symbol, exchangeB)) {
+        if (!priceA || !priceB || !this.canCompareLegs(priceA, priceB)) {
             return null;
         }
 
-        return this.calculateArbitrageOpportunity(priceA, priceB);
+        const currentOpportunity = this.calculateArbitrageOpportunity(priceA, priceB);
+
+        const lowLiquidityLegs = this.getLowLiquidityLegs(priceA, priceB);
+        if (lowLiquidityLegs.length > 0) {
+            currentOpportunity.lowLiquidityLegs = lowLiquidityLegs;
+        }
+
+        return currentOpportunity;
     }
 
     private shouldCloseOpportunity(
         currentOpportunity: ArbitrageOpportunity,
         activeOpportunity: ActiveArbitrageOpportunity
-    ): { close: boolean; reason: 'BELOW_THRESHOLD' | 'PRICE_CONVERGED' | 'TIMEOUT' } {
+    ): { close: boolean; reason: 'BELOW_THRESHOLD' | 'PRICE_CONVERGED' | 'TIMEOUT' | 'LOW_LIQUIDITY' } {
+        // A leg that fell below the liquidity minimums would have been suppressed when found
+        if (currentOpportunity.lowLiquidityLegs && this.config.lowLiquidityAction === 'suppress') {
+            return { close: true, reason: 'LOW_LIQUIDITY' };
+        }
+
         // Check if below close threshold
         if (currentOpportunity.priceDifferencePercent !== null &&
             currentOpportunity.priceDifferencePercent < this.config.closeThresholdPercent) {
@@ -385,6 +581,7 @@ export class ArbitrageService {
         activeOpportunity.priceDifference = currentOpportunity.priceDifference;
         activeOpportunity.priceDifferencePercent = currentOpportunity.priceDifferencePercent;
         activeOpportunity.profit = currentOpportunity.profit;
+        activeOpportunity.lowLiquidityLegs = currentOpportunity.lowLiquidityLegs;
         activeOpportunity.lastUpdatedTimestamp = now;
 
         // Update peak values if necessary
@@ -400,7 +597,7 @@ export class ArbitrageService {
         activeOpportunity: ActiveArbitrageOpportunity,
         closePriceA: number | null,
         closePriceB: number | null,
-        closeReason: 'BELOW_THRESHOLD' | 'PRICE_CONVERGED' | 'MANUAL' | 'TIMEOUT',
+        closeReason: ArbitrageOpportunityClosed['closeReason'],
         closeTimestamp: number
     ): ArbitrageOpportunityClosed {
         const duration = closeTimestamp - activeOpportunity.openTimestamp;
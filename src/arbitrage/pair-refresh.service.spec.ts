@@ -0,0 +1,82 @@
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { ExchangeService } from '@/exchange/exchange.service';
+import { TelegramService } from '@/telegram/telegram.service';
+import { PairRefreshResult } from '@/common/types';
+import { ArbitrageService } from './arbitrage.service';
+import { PairRefreshService } from './pair-refresh.service';
+
+describe('PairRefreshService', () => {
+    let refreshResult: PairRefreshResult;
+    let closeDelistedOpportunities: jest.Mock;
+    let sendPairRefreshSummary: jest.Mock;
+    let service: PairRefreshService;
+
+    beforeEach(() => {
+        refreshResult = {
+            added: [],
+            removed: [],
+            exchanges: {
+                binance: { added: [], removed: [] },
+                okx: { added: [], removed: [] },
+            },
+            delisted: { binance: [], okx: [] },
+        };
+        closeDelistedOpportunities = jest.fn().mockResolvedValue(0);
+        sendPairRefreshSummary = jest.fn().mockResolvedValue(undefined);
+
+        service = new PairRefreshService(
+            new ConfigService({ PAIR_REFRESH_CRON: '' }),
+            new SchedulerRegistry(),
+            { refreshCommonPairs: async () => refreshResult } as unknown as ExchangeService,
+            { closeDelistedOpportunities } as unknown as ArbitrageService,
+            { sendPairRefreshSummary } as unknown as TelegramService,
+        );
+    });
+
+    it('reports a pair one exchange delisted while it stays common on the others', async () => {
+        refreshResult.exchanges.okx.removed = ['ETH/USDT'];
+        refreshResult.delisted.okx = ['ETH/USDT'];
+        closeDelistedOpportunities.mockResolvedValue(2);
+
+        await expect(service.refreshPairs()).resolves.toMatchObject({ added: [], removed: [], closedOpportunities: 2 });
+
+        expect(closeDelistedOpportunities).toHaveBeenCalledWith({ binance: [], okx: ['ETH/USDT'] });
+        expect(sendPairRefreshSummary).toHaveBeenCalledWith(refreshResult, 2);
+    });
+
+    it('keeps opportunities on an exchange that still lists a pair that is no longer common', async () => {
+        refreshResult.removed = ['ETH/USDT'];
+        refreshResult.exchanges.binance.removed = ['ETH/USDT'];
+        refreshResult.exchanges.okx.removed = ['ETH/USDT'];
+        refreshResult.delisted.okx = ['ETH/USDT'];
+
+        await service.refreshPairs();
+
+        expect(closeDelistedOpportunities).toHaveBeenCalledWith({ binance: [], okx: ['ETH/USDT'] });
+        expect(sendPairRefreshSummary).toHaveBeenCalledWith(refreshResult, 0);
+    });
+
+    it('reports pairs that became common', async () => {
+        refreshResult.added = ['SOL/USDT'];
+        refreshResult.exchanges.binance.added = ['SOL/USDT'];
+        refreshResult.exchanges.okx.added = ['SOL/USDT'];
+
+        await service.refreshPairs();
+
+        expect(sendPairRefreshSummary).toHaveBeenCalledWith(refreshResult, 0);
+    });
+
+    it('stays quiet when no exchange changed', async () => {
+        await service.refreshPairs();
+
+        expect(sendPairRefreshSummary).not.toHaveBeenCalled();
+    });
+
+    it('refuses to run twice at once', async () => {
+        const first = service.refreshPairs();
+
+        await expect(service.refreshPairs()).rejects.toThrow('Pair refresh already in progress');
+        await first;
+    });
+});
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { ArbitrageService } from './arbitrage.service';
+import { ExchangeService } from '@/exchange/exchange.service';
+import { TelegramService } from '@/telegram/telegram.service';
+import { PairRefreshResult } from '@/common/types';
+
+@Injectable()
+export class PairRefreshService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(PairRefreshService.name);
+    private readonly cronExpression: string;
+    private readonly jobName = 'pairRefresh';
+    private isRefreshing = false;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly schedulerRegistry: SchedulerRegistry,
+        private readonly exchangeService: ExchangeService,
+        private readonly arbitrageService: ArbitrageService,
+        private readonly telegramService: TelegramService,
+    ) {
+        // Empty disables scheduled re-discovery; POST /arbitrage/refresh-pairs still works
+        this.cronExpression = this.configService.get<string>('PAIR_REFRESH_CRON', '0 */30 * * * *').trim();
+    }
+
+    onModuleInit() {
+        if (!this.cronExpression) {
+            this.logger.log('⏸️ Scheduled pair re-discovery disabled');
+            return;
+        }
+
+        // Registered at runtime because @Cron() can't read the expression from ConfigService
+        const job = new CronJob(this.cronExpression, () => this.refreshPairs().catch(() => undefined)); // Failures are logged in refreshPairs
+        this.schedulerRegistry.addCronJob(this.jobName, job);
+        job.start();
+
+        this.logger.log(`⏰ Pair re-discovery scheduled: ${this.cronExpression}`);
+    }
+
+    onModuleDestroy() {
+        if (this.schedulerRegistry.doesExist('cron', this.jobName)) {
+            this.schedulerRegistry.deleteCronJob(this.jobName);
+        }
+    }
+
+    /**
+     * Re-run pair discovery, retire pairs that left an exchange and report
+     * the changes on Telegram
+     */
+    async refreshPairs(): Promise<PairRefreshResult & { closedOpportunities: number }> {
+        if (this.isRefreshing) {
+            throw new Error('Pair refresh already in progress');
+        }
+
+        this.isRefreshing = true;
+
+        try {
+            const result = await this.exchangeService.refreshCommonPairs();
+
+            const closedOpportunities = await this.arbitrageService.closeDelistedOpportunities(result.delisted);
+
+            // A pair one exchange delisted can stay common on the others, so changes are judged per exchange
+            const exchangeChanged = Object.values(result.exchanges).some(diff => diff.added.length > 0 || diff.removed.length > 0);
+
+            if (exchangeChanged || closedOpportunities > 0) {
+                await this.telegramService.sendPairRefreshSummary(result, closedOpportunities);
+            }
+
+            return { ...result, closedOpportunities };
+        } catch (error) {
+            this.logger.error(`❌ Pair refresh failed: ${error.message}`);
+            throw error;
+        } finally {
+            this.isRefreshing = false;
+        }
+    }
+}
\ No newline at end of file
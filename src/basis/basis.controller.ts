@@ -0,0 +1,16 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { BasisService } from './basis.service';
+
+@Controller('basis')
+export class BasisController {
+    constructor(private readonly basisService: BasisService) { }
+
+    @Get('opportunities')
+    getRecentOpportunities(@Query('limit') limit?: string) {
+        const limitNum = limit ? parseInt(limit) : 50;
+        return {
+            thresholdPercent: this.basisService.getThresholdPercent(),
+            opportunities: this.basisService.getRecentOpportunities(limitNum),
+        };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { BasisService } from './basis.service';
+import { BasisController } from './basis.controller';
+import { BasisProcessor } from './basis.processor';
+import { ExchangeModule } from '@/exchange/exchange.module';
+import { PriceModule } from '@/price/price.module';
+import { FundingModule } from '@/funding/funding.module';
+import { TelegramModule } from '@/telegram/telegram.module';
+
+@Module({
+    imports: [
+        ExchangeModule,
+        PriceModule,
+        FundingModule,
+        TelegramModule,
+        BullModule.registerQueue({
+            name: 'basis',
+        }),
+    ],
+    controllers: [BasisController],
+    providers: [BasisService, BasisProcessor],
+})
+export class BasisModule { }
\ No newline at end of file
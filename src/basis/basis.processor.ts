@@ -0,0 +1,29 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { TelegramService } from '@/telegram/telegram.service';
+import { BasisOpportunity } from '@/common/types';
+
+@Processor('basis')
+export class BasisProcessor {
+    private readonly logger = new Logger(BasisProcessor.name);
+
+    constructor(private readonly telegramService: TelegramService) { }
+
+    @Process('processBasisOpportunity')
+    async processBasisOpportunity(job: Job<BasisOpportunity>): Promise<void> {
+        const opportunity = job.data;
+
+        try {
+            this.logger.log(`🔄 Processing basis opportunity: ${opportunity.symbol} - ${opportunity.basisPercent.toFixed(3)}%`);
+
+            // Send Telegram notification
+            await this.telegramService.sendBasisAlert(opportunity);
+
+            this.logger.log(`✅ Basis opportunity processed successfully: ${opportunity.symbol}`);
+        } catch (error) {
+            this.logger.error(`❌ Error processing basis opportunity: ${error.message}`);
+            throw error; // Re-throw to trigger retry mechanism
+        }
+    }
+}
\ No newline at end of file
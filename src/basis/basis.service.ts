@@ -0,0 +1,166 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { ExchangeService } from '@/exchange/exchange.service';
+import { PriceService } from '@/price/price.service';
+import { FundingService } from '@/funding/funding.service';
+import { BasisOpportunity, PriceData } from '@/common/types';
+
+/**
+ * Compares spot prices against perpetuals of the same symbol, on the same
+ * venue or another one, and alerts when the perp's premium or discount
+ * exceeds BASIS_THRESHOLD_PERCENT.
+ */
+@Injectable()
+export class BasisService {
+    private readonly logger = new Logger(BasisService.name);
+    private readonly thresholdPercent: number;
+    private readonly cooldownMinutes: number;
+    private readonly recentAlerts = new Map<string, number>();
+    private readonly opportunityHistory: BasisOpportunity[] = [];
+    private readonly maxHistorySize = 1000;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly exchangeService: ExchangeService,
+        private readonly priceService: PriceService,
+        private readonly fundingService: FundingService,
+        @InjectQueue('basis') private readonly basisQueue: Queue,
+    ) {
+        this.thresholdPercent = parseFloat(this.configService.get<string>('BASIS_THRESHOLD_PERCENT', '0.5'));
+        this.cooldownMinutes = parseInt(this.configService.get<string>('BASIS_ALERT_COOLDOWN_MINUTES', '30'));
+
+        this.logger.log(`📊 Basis detector initialized:`);
+        this.logger.log(`   - Threshold: ${this.thresholdPercent}%`);
+        this.logger.log(`   - Cooldown: ${this.cooldownMinutes} minutes`);
+    }
+
+    @Cron(CronExpression.EVERY_10_SECONDS)
+    async detectBasisOpportunities(): Promise<void> {
+        try {
+            const opportunities = this.findBasisOpportunities();
+
+            if (opportunities.length > 0) {
+                this.logger.log(`🔍 Found ${opportunities.length} basis opportunities`);
+            }
+
+            for (const opportunity of opportunities) {
+                await this.processBasisOpportunity(opportunity);
+            }
+        } catch (error) {
+            this.logger.error(`❌ Error detecting basis opportunities: ${error.message}`);
+        }
+    }
+
+    private findBasisOpportunities(): BasisOpportunity[] {
+        const opportunities: BasisOpportunity[] = [];
+
+        for (const symbol of this.exchangeService.getTradingPairs()) {
+            // Stale prices and exchanges whose circuit breaker is open are left out
+            const freshPrices = this.priceService.getAllPricesForSymbol(symbol).filter(price =>
+                price.price > 0 &&
+                !this.priceService.isPriceStale(symbol, price.exchange) &&
+                this.exchangeService.isExchangeAvailable(price.exchange)
+            );
+            const spotPrices = freshPrices.filter(price => price.marketType === 'spot');
+            const perpPrices = freshPrices.filter(price => price.marketType === 'perp');
+
+            for (const spot of spotPrices) {
+                for (const perp of perpPrices) {
+                    const opportunity = this.calculateBasisOpportunity(spot, perp);
+
+                    if (Math.abs(opportunity.basisPercent) >= this.thresholdPercent) {
+                        opportunities.push(opportunity);
+                    }
+                }
+            }
+        }
+
+        return opportunities;
+    }
+
+    private calculateBasisOpportunity(spot: PriceData, perp: PriceData): BasisOpportunity {
+        const basisPercent = ((perp.price - spot.price) / spot.price) * 100;
+
+        // A perp premium is captured by buying spot and shorting the perp, a discount the other way round
+        const action = basisPercent >= 0 ? 'LONG_SPOT_SHORT_PERP' : 'SHORT_SPOT_LONG_PERP';
+        const fundingRate = this.fundingService.getFundingRate(perp.symbol, perp.exchange);
+
+        // Shorts receive funding when the rate is positive, so the carry's sign depends on the perp leg's side
+        let annualizedCarryPercent: number | null = null;
+        if (fundingRate) {
+            const fundingApr = this.fundingService.getAnnualizedRatePercent(fundingRate);
+            annualizedCarryPercent = action === 'LONG_SPOT_SHORT_PERP' ? fundingApr : -fundingApr;
+        }
+
+        return {
+            symbol: spot.symbol,
+            spotExchange: spot.exchange,
+            perpExchange: perp.exchange,
+            spotPrice: spot.price,
+            perpPrice: perp.price,
+            basisPercent,
+            action,
+            annualizedCarryPercent,
+            fundingIntervalHours: fundingRate?.fundingIntervalHours,
+            timestamp: Date.now(),
+        };
+    }
+
+    private async processBasisOpportunity(opportunity: BasisOpportunity): Promise<void> {
+        const alertKey = `${opportunity.symbol}-${opportunity.spotExchange}-${opportunity.perpExchange}`;
+        const lastAlert = this.recentAlerts.get(alertKey);
+        const cooldownMs = this.cooldownMinutes * 60 * 1000;
+        const now = Date.now();
+
+        if (lastAlert && now - lastAlert < cooldownMs) {
+            return; // Still in cooldown period
+        }
+
+        try {
+            await this.basisQueue.add('processBasisOpportunity', opportunity, {
+                priority: Math.floor(Math.abs(opportunity.basisPercent) * 100),
+                attempts: 3,
+            });
+
+            this.recentAlerts.set(alertKey, now);
+            this.addToHistory(opportunity);
+
+            this.logger.log(`📐 Basis opportunity: ${opportunity.symbol} - ${opportunity.basisPercent.toFixed(3)}% (spot ${opportunity.spotExchange}, perp ${opportunity.perpExchange})`);
+        } catch (error) {
+            this.logger.error(`❌ Error processing basis opportunity: ${error.message}`);
+        }
+    }
+
+    private addToHistory(opportunity: BasisOpportunity): void {
+        this.opportunityHistory.push(opportunity);
+
+        // Keep only the last N opportunities
+        if (this.opportunityHistory.length > this.maxHistorySize) {
+            this.opportunityHistory.shift();
+        }
+    }
+
+    /**
+     * Get recent basis opportunities
+     */
+    getRecentOpportunities(limit: number = 50): BasisOpportunity[] {
+        return [...this.opportunityHistory]
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, limit);
+    }
+
+    getThresholdPercent(): number {
+        return this.thresholdPercent;
+    }
+
+    /**
+     * Clear recent alerts (for testing purposes)
+     */
+    clearRecentAlerts(): void {
+        this.recentAlerts.clear();
+        this.logger.log('🧹 Recent basis alerts cleared');
+    }
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { CalendarSpreadService } from './calendar-spread.service';
+
+@Controller('calendar')
+export class CalendarSpreadController {
+    constructor(private readonly calendarSpreadService: CalendarSpreadService) { }
+
+    @Get('opportunities')
+    getRecentOpportunities(@Query('limit') limit?: string) {
+        const limitNum = limit ? parseInt(limit) : 50;
+        return {
+            opportunities: this.calendarSpreadService.getRecentOpportunities(limitNum),
+        };
+    }
+
+    @Get('norms')
+    getNorms() {
+        return this.calendarSpreadService.getNorms();
+    }
+}
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { TelegramService } from '@/telegram/telegram.service';
+import { CalendarSpreadOpportunity } from '@/common/types';
+
+@Processor('calendar')
+export class CalendarSpreadProcessor {
+    private readonly logger = new Logger(CalendarSpreadProcessor.name);
+
+    constructor(private readonly telegramService: TelegramService) { }
+
+    @Process('processCalendarSpread')
+    async processCalendarSpread(job: Job<CalendarSpreadOpportunity>): Promise<void> {
+        const opportunity = job.data;
+
+        try {
+            this.logger.log(`🔄 Processing calendar spread: ${opportunity.symbol} - ${opportunity.annualizedBasisPercent.toFixed(2)}% APR`);
+
+            // Send Telegram notification
+            await this.telegramService.sendCalendarSpreadAlert(opportunity);
+
+            this.logger.log(`✅ Calendar spread processed successfully: ${opportunity.symbol}`);
+        } catch (error) {
+            this.logger.error(`❌ Error processing calendar spread: ${error.message}`);
+            throw error; // Re-throw to trigger retry mechanism
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,161 @@
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bull';
+import { ExchangeService } from '@/exchange/exchange.service';
+import { PriceService } from '@/price/price.service';
+import { SymbolNormalizerService } from '@/price/symbol-normalizer.service';
+import { TelegramService } from '@/telegram/telegram.service';
+import { MarketType, PriceData } from '@/common/types';
+import { CalendarSpreadService } from './calendar-spread.service';
+import { CalendarSpreadProcessor } from './calendar-spread.processor';
+
+const NOW = Date.UTC(2025, 5, 1);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DATED = 'BTC/USDT-250926';
+
+describe('CalendarSpreadService', () => {
+    let prices: Map<string, PriceData[]>;
+    let expiryTime: number;
+    let available: Set<string>;
+    let sendCalendarSpreadAlert: jest.Mock;
+    let queueAdd: jest.Mock;
+    let service: CalendarSpreadService;
+
+    const priceData = (symbol: string, exchange: string, marketType: MarketType, price: number): PriceData => ({
+        symbol,
+        exchange,
+        marketType,
+        price,
+        timestamp: NOW,
+        source: 'ws',
+    });
+
+    const setDatedPrice = (price: number) => prices.set(DATED, [priceData(DATED, 'binance_delivery', 'delivery', price)]);
+
+    // Each run records one basis sample per pair, so the norm needs CALENDAR_MIN_SAMPLES runs first
+    const buildNorm = async () => {
+        for (let i = 0; i < 3; i++) {
+            await service.detectCalendarSpreads();
+        }
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: NOW });
+
+        expiryTime = NOW + 90 * MS_PER_DAY;
+        available = new Set(['binance', 'bybit', 'binance_spot', 'binance_delivery']);
+        prices = new Map([['BTC/USDT', [
+            priceData('BTC/USDT', 'binance', 'perp', 50000),
+            priceData('BTC/USDT', 'bybit', 'perp', 50000),
+            priceData('BTC/USDT', 'binance_spot', 'spot', 50000),
+        ]]]);
+        setDatedPrice(50000);
+
+        const exchangeService = {
+            getTradingPairs: () => ['BTC/USDT', DATED],
+            getInstrumentSpecs: (symbol: string) => symbol === DATED ? { binance_delivery: { expiryTime } } : {},
+            isExchangeAvailable: (exchange: string) => available.has(exchange),
+        } as unknown as ExchangeService;
+        const priceService = {
+            getAllPricesForSymbol: (symbol: string) => prices.get(symbol) || [],
+            isPriceStale: () => false,
+        } as unknown as PriceService;
+
+        // Queued jobs go straight to the processor, which notifies through a stubbed Telegram client
+        sendCalendarSpreadAlert = jest.fn().mockResolvedValue(undefined);
+        const processor = new CalendarSpreadProcessor({ sendCalendarSpreadAlert } as unknown as TelegramService);
+        queueAdd = jest.fn(async (name: string, data: any) => processor.processCalendarSpread({ data } as any));
+
+        const configService = new ConfigService({ CALENDAR_MIN_SAMPLES: '3' });
+        service = new CalendarSpreadService(
+            configService,
+            exchangeService,
+            priceService,
+            new SymbolNormalizerService(configService),
+            { add: queueAdd } as unknown as Queue,
+        );
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('alerts when a dated contract leaves the norm of its basis to each perp', async () => {
+        await buildNorm();
+        expect(queueAdd).not.toHaveBeenCalled();
+
+        setDatedPrice(51000);
+        await service.detectCalendarSpreads();
+
+        expect(queueAdd).toHaveBeenCalledTimes(2);
+        expect(sendCalendarSpreadAlert).toHaveBeenCalledTimes(2);
+
+        const opportunities = service.getRecentOpportunities();
+        expect(opportunities.map(opportunity => opportunity.perpExchange).sort()).toEqual(['binance', 'bybit']);
+
+        for (const opportunity of opportunities) {
+            expect(opportunity).toMatchObject({
+                symbol: DATED,
+                underlying: 'BTC/USDT',
+                datedExchange: 'binance_delivery',
+                sameExchange: opportunity.perpExchange === 'binance',
+                expiryTime,
+                daysToExpiry: 90,
+                basisPercent: 2,
+                normAnnualizedBasisPercent: 0,
+                normStdDev: 0,
+                action: 'SELL_DATED_BUY_PERP',
+            });
+            expect(opportunity.annualizedBasisPercent).toBeCloseTo(2 * 365 / 90);
+            expect(opportunity.deviation).toBeCloseTo(2 * 365 / 90);
+        }
+    });
+
+    it('buys the dated leg when it falls below its norm', async () => {
+        await buildNorm();
+
+        setDatedPrice(49000);
+        await service.detectCalendarSpreads();
+
+        expect(service.getRecentOpportunities().every(opportunity => opportunity.action === 'BUY_DATED_SELL_PERP')).toBe(true);
+        expect(sendCalendarSpreadAlert).toHaveBeenCalledTimes(2);
+    });
+
+    it('ignores deviations below the minimum annualized move', async () => {
+        await buildNorm();
+
+        // 1% over 90 days is about 4% APR, under the 5% default
+        setDatedPrice(50500);
+        await service.detectCalendarSpreads();
+
+        expect(queueAdd).not.toHaveBeenCalled();
+        expect(service.getNorms()[`${DATED}-binance_delivery-binance`]).toMatchObject({ samples: 4 });
+    });
+
+    it('alerts each pair once per cooldown', async () => {
+        await buildNorm();
+        setDatedPrice(51000);
+        await service.detectCalendarSpreads();
+
+        setDatedPrice(55000);
+        await service.detectCalendarSpreads();
+        expect(sendCalendarSpreadAlert).toHaveBeenCalledTimes(2);
+
+        // The 30 minute default cooldown has passed; samples stay within the 60 minute norm window
+        jest.advanceTimersByTime(30 * 60 * 1000);
+        setDatedPrice(60000);
+        await service.detectCalendarSpreads();
+        expect(sendCalendarSpreadAlert).toHaveBeenCalledTimes(4);
+    });
+
+    it('skips contracts close to delivery and unavailable perps', async () => {
+        available.delete('bybit');
+        await buildNorm();
+        expect(Object.keys(service.getNorms())).toEqual([`${DATED}-binance_delivery-binance`]);
+
+        expiryTime = NOW + 0.5 * MS_PER_DAY;
+        setDatedPrice(51000);
+        await service.detectCalendarSpreads();
+
+        expect(queueAdd).not.toHaveBeenCalled();
+    });
+});
\ No newline at end of file
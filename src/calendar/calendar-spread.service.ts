@@ -0,0 +1,268 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { ExchangeService } from '@/exchange/exchange.service';
+import { PriceService } from '@/price/price.service';
+import { SymbolNormalizerService } from '@/price/symbol-normalizer.service';
+import { CalendarSpreadOpportunity, PriceData } from '@/common/types';
+
+interface BasisSample {
+    annualizedBasisPercent: number;
+    timestamp: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Prices dated futures against perpetuals of their underlying, on the same
+ * venue or another one. The basis is annualized to expiry and alerted when it
+ * strays from its own rolling norm rather than past a fixed threshold, since
+ * a contango of a few percent a year is the normal state of a quarterly.
+ */
+@Injectable()
+export class CalendarSpreadService {
+    private readonly logger = new Logger(CalendarSpreadService.name);
+    private readonly normWindowMs: number;
+    private readonly minSamples: number;
+    private readonly deviationStdDev: number;
+    private readonly minDeviationApr: number;
+    private readonly minDaysToExpiry: number;
+    private readonly cooldownMinutes: number;
+    private readonly samples = new Map<string, BasisSample[]>(); // symbol-datedExchange-perpExchange -> samples
+    private readonly recentAlerts = new Map<string, number>();
+    private readonly opportunityHistory: CalendarSpreadOpportunity[] = [];
+    private readonly maxHistorySize = 1000;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly exchangeService: ExchangeService,
+        private readonly priceService: PriceService,
+        private readonly symbolNormalizer: SymbolNormalizerService,
+        @InjectQueue('calendar') private readonly calendarQueue: Queue,
+    ) {
+        this.normWindowMs = parseInt(this.configService.get<string>('CALENDAR_NORM_WINDOW_MINUTES', '60')) * 60 * 1000;
+        this.minSamples = parseInt(this.configService.get<string>('CALENDAR_MIN_SAMPLES', '30'));
+        this.deviationStdDev = parseFloat(this.configService.get<string>('CALENDAR_DEVIATION_STDDEV', '2'));
+        this.minDeviationApr = parseFloat(this.configService.get<string>('CALENDAR_MIN_DEVIATION_APR', '5'));
+        this.minDaysToExpiry = parseFloat(this.configService.get<string>('CALENDAR_MIN_DAYS_TO_EXPIRY', '1'));
+        this.cooldownMinutes = parseInt(this.configService.get<string>('CALENDAR_ALERT_COOLDOWN_MINUTES', '30'));
+
+        this.logger.log(`📊 Calendar spread detector initialized:`);
+        this.logger.log(`   - Norm window: ${this.normWindowMs / 60000} minutes (min ${this.minSamples} samples)`);
+        this.logger.log(`   - Deviation: ${this.deviationStdDev} std devs, at least ${this.minDeviationApr}% APR`);
+        this.logger.log(`   - Cooldown: ${this.cooldownMinutes} minutes`);
+    }
+
+    @Cron(CronExpression.EVERY_10_SECONDS)
+    async detectCalendarSpreads(): Promise<void> {
+        try {
+            const opportunities = this.findCalendarSpreads();
+
+            if (opportunities.length > 0) {
+                this.logger.log(`🔍 Found ${opportunities.length} calendar spread deviations`);
+            }
+
+            for (const opportunity of opportunities) {
+                await this.processCalendarSpread(opportunity);
+            }
+        } catch (error) {
+            this.logger.error(`❌ Error detecting calendar spreads: ${error.message}`);
+        }
+    }
+
+    private findCalendarSpreads(): CalendarSpreadOpportunity[] {
+        const opportunities: CalendarSpreadOpportunity[] = [];
+        const now = Date.now();
+
+        for (const symbol of this.exchangeService.getTradingPairs()) {
+            const underlying = this.symbolNormalizer.getUnderlying(symbol);
+
+            if (underlying === symbol) {
+                continue; // Not a dated contract
+            }
+
+            const specs = this.exchangeService.getInstrumentSpecs(symbol);
+            const datedPrices = this.getFreshPrices(symbol).filter(price => price.marketType === 'delivery');
+            const perpPrices = this.getFreshPrices(underlying).filter(price => price.marketType === 'perp');
+
+            for (const dated of datedPrices) {
+                const expiryTime = specs[dated.exchange]?.expiryTime;
+
+                // Close to delivery the annualized figure blows up while the spread converges
+                if (!expiryTime || (expiryTime - now) / MS_PER_DAY < this.minDaysToExpiry) {
+                    continue;
+                }
+
+                for (const perp of perpPrices) {
+                    const opportunity = this.evaluateSpread(symbol, underlying, dated, perp, expiryTime, now);
+
+                    if (opportunity) {
+                        opportunities.push(opportunity);
+                    }
+                }
+            }
+        }
+
+        this.pruneSamples(now);
+        return opportunities;
+    }
+
+    private getFreshPrices(symbol: string): PriceData[] {
+        // Stale prices and exchanges whose circuit breaker is open are left out
+        return this.priceService.getAllPricesForSymbol(symbol).filter(price =>
+            price.price > 0 &&
+            !this.priceService.isPriceStale(symbol, price.exchange) &&
+            this.exchangeService.isExchangeAvailable(price.exchange)
+        );
+    }
+
+    /**
+     * Record the pair's annualized basis and return an opportunity when it
+     * deviates from the norm of the samples before it
+     */
+    private evaluateSpread(
+        symbol: string,
+        underlying: string,
+        dated: PriceData,
+        perp: PriceData,
+        expiryTime: number,
+        now: number
+    ): CalendarSpreadOpportunity | null {
+        const daysToExpiry = (expiryTime - now) / MS_PER_DAY;
+        const basisPercent = ((dated.price - perp.price) / perp.price) * 100;
+        const annualizedBasisPercent = basisPercent * 365 / daysToExpiry;
+
+        const key = `${symbol}-${dated.exchange}-${perp.exchange}`;
+        const history = this.samples.get(key) || [];
+        const norm = this.calculateNorm(history);
+
+        history.push({ annualizedBasisPercent, timestamp: now });
+        this.samples.set(key, history);
+
+        if (history.length - 1 < this.minSamples) {
+            return null; // Still building the norm
+        }
+
+        const deviation = annualizedBasisPercent - norm.mean;
+        if (Math.abs(deviation) < Math.max(this.deviationStdDev * norm.stdDev, this.minDeviationApr)) {
+            return null;
+        }
+
+        return {
+            symbol,
+            underlying,
+            datedExchange: dated.exchange,
+            perpExchange: perp.exchange,
+            sameExchange: this.getVenue(dated.exchange) === this.getVenue(perp.exchange),
+            datedPrice: dated.price,
+            perpPrice: perp.price,
+            expiryTime,
+            daysToExpiry,
+            basisPercent,
+            annualizedBasisPercent,
+            normAnnualizedBasisPercent: norm.mean,
+            normStdDev: norm.stdDev,
+            deviation,
+            // A rich dated leg is sold against the perp and bought back as the basis reverts
+            action: deviation >= 0 ? 'SELL_DATED_BUY_PERP' : 'BUY_DATED_SELL_PERP',
+            timestamp: now,
+        };
+    }
+
+    private calculateNorm(history: BasisSample[]): { mean: number; stdDev: number } {
+        if (history.length === 0) {
+            return { mean: 0, stdDev: 0 };
+        }
+
+        const mean = history.reduce((sum, sample) => sum + sample.annualizedBasisPercent, 0) / history.length;
+        const variance = history.reduce((sum, sample) => sum + Math.pow(sample.annualizedBasisPercent - mean, 2), 0) / history.length;
+
+        return { mean, stdDev: Math.sqrt(variance) };
+    }
+
+    private pruneSamples(now: number): void {
+        for (const [key, history] of this.samples) {
+            const kept = history.filter(sample => now - sample.timestamp <= this.normWindowMs);
+
+            if (kept.length === 0) {
+                this.samples.delete(key);
+            } else {
+                this.samples.set(key, kept);
+            }
+        }
+    }
+
+    /**
+     * Venue behind a market adapter, e.g. binance for binance_delivery
+     */
+    private getVenue(exchange: string): string {
+        return exchange.split('_')[0];
+    }
+
+    private async processCalendarSpread(opportunity: CalendarSpreadOpportunity): Promise<void> {
+        const alertKey = `${opportunity.symbol}-${opportunity.datedExchange}-${opportunity.perpExchange}`;
+        const lastAlert = this.recentAlerts.get(alertKey);
+        const cooldownMs = this.cooldownMinutes * 60 * 1000;
+        const now = Date.now();
+
+        if (lastAlert && now - lastAlert < cooldownMs) {
+            return; // Still in cooldown period
+        }
+
+        try {
+            await this.calendarQueue.add('processCalendarSpread', opportunity, {
+                priority: Math.floor(Math.abs(opportunity.deviation) * 100),
+                attempts: 3,
+            });
+
+            this.recentAlerts.set(alertKey, now);
+            this.addToHistory(opportunity);
+
+            this.logger.log(`📅 Calendar spread: ${opportunity.symbol} - ${opportunity.annualizedBasisPercent.toFixed(2)}% APR vs norm ${opportunity.normAnnualizedBasisPercent.toFixed(2)}% (dated ${opportunity.datedExchange}, perp ${opportunity.perpExchange})`);
+        } catch (error) {
+            this.logger.error(`❌ Error processing calendar spread: ${error.message}`);
+        }
+    }
+
+    private addToHistory(opportunity: CalendarSpreadOpportunity): void {
+        this.opportunityHistory.push(opportunity);
+
+        // Keep only the last N opportunities
+        if (this.opportunityHistory.length > this.maxHistorySize) {
+            this.opportunityHistory.shift();
+        }
+    }
+
+    /**
+     * Get recent calendar spread opportunities
+     */
+    getRecentOpportunities(limit: number = 50): CalendarSpreadOpportunity[] {
+        return [...this.opportunityHistory]
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, limit);
+    }
+
+    /**
+     * Current rolling norm of every tracked dated/perp pair
+     */
+    getNorms(): Record<string, { samples: number; normAnnualizedBasisPercent: number; normStdDev: number }> {
+        const norms: Record<string, { samples: number; normAnnualizedBasisPercent: number; normStdDev: number }> = {};
+
+        for (const [key, history] of this.samples) {
+            const norm = this.calculateNorm(history);
+            norms[key] = { samples: history.length, normAnnualizedBasisPercent: norm.mean, normStdDev: norm.stdDev };
+        }
+
+        return norms;
+    }
+
+    /**
+     * Clear recent alerts (for testing purposes)
+     */
+    clearRecentAlerts(): void {
+        this.recentAlerts.clear();
+        this.logger.log('🧹 Recent calendar spread alerts cleared');
+    }
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { CalendarSpreadService } from './calendar-spread.service';
+import { CalendarSpreadController } from './calendar-spread.controller';
+import { CalendarSpreadProcessor } from './calendar-spread.processor';
+import { ExchangeModule } from '@/exchange/exchange.module';
+import { PriceModule } from '@/price/price.module';
+import { TelegramModule } from '@/telegram/telegram.module';
+
+@Module({
+    imports: [
+        ExchangeModule,
+        PriceModule,
+        TelegramModule,
+        BullModule.registerQueue({
+            name: 'calendar',
+        }),
+    ],
+    controllers: [CalendarSpreadController],
+    providers: [CalendarSpreadService, CalendarSpreadProcessor],
+})
+export class CalendarModule { }
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { SymbolAlias } from '@/common/types';
+
 export const DEFAULT_CONFIG = {
     ARBITRAGE_THRESHOLD_PERCENT: 0.7,
     COOLDOWN_MINUTES: 5,
@@ -17,8 +19,31 @@ export const EXCHANGE_ENDPOINTS = {
     MEXC: 'wss://contract.mexc.com/ws',
     GATEIO: 'wss://fx-ws.gateio.ws/v4/ws/usdt',
     LBANK: 'wss://www.lbkex.net/ws/V2/',
+    OKX: 'wss://ws.okx.com:8443/ws/v5/public',
+    BITGET: 'wss://ws.bitget.com/v2/ws/public',
+};
+
+// Multiplier prefixes venues put on low-priced bases, e.g. 1000PEPE = 1000 PEPE
+export const SYMBOL_MULTIPLIER_PREFIXES: Record<string, number> = {
+    '1000000': 1000000,
+    '100000': 100000,
+    '10000': 10000,
+    '1000': 1000,
+    '1M': 1000000,
 };
 
+// Listings that don't follow the prefix convention; extended by SYMBOL_ALIASES
+export const DEFAULT_SYMBOL_ALIASES: SymbolAlias[] = [
+    { exchange: 'bybit', from: 'SHIB1000', to: 'SHIB', multiplier: 1000 },
+];
+
+// Tickers that name different assets on different venues, as 'exchange:BASE' or 'BASE';
+// extended by SYMBOL_DENYLIST
+export const DEFAULT_SYMBOL_DENYLIST: string[] = [
+    'LUNA', // Terra 2.0 on some venues, Terra Classic on others
+    'BTT',  // Redenominated BitTorrent token vs the original
+];
+
 export const ARBITRAGE_MESSAGES = {
     OPPORTUNITY_DETECTED: '📈 Arbitrage opportunity detected',
     ALERT_SENT: '📱 Arbitrage alert sent',
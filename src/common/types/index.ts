@@ -1,11 +1,86 @@
 export interface PriceData {
     symbol: string;
-    price: number;
+    price: number;                       // Last traded price
     exchange: string;
-    timestamp: number;
+    marketType: MarketType;
+    timestamp: number;                   // Local receive time
+    eventTime?: number;                  // Exchange event time of the last update on any channel, where the venue sends one
+    priceEventTime?: number;             // Exchange event time of the last price itself, set only by ticker updates
+    source: PriceSource;                 // Streamed, or polled over REST while the stream is down
+    markPrice?: number;                  // Venue mark price used for margining/liquidation
+    indexPrice?: number;                 // Spot index the mark price is anchored to
     volume?: number;
+    quoteVolume?: number;                // 24h volume in the quote asset
+    openInterest?: number;               // Open contracts in base units; derivatives only
     high?: number;
     low?: number;
+    bestBid?: number;                    // Top of the local order book
+    bestBidSize?: number;
+    bestAsk?: number;
+    bestAskSize?: number;
+}
+
+export type PriceSource = 'ws' | 'rest';
+
+export type MarketType = 'spot' | 'perp' | 'delivery';
+
+export type ArbitragePriceSource = 'last' | 'book' | 'vwap';
+
+export type LowLiquidityAction = 'suppress' | 'tag';
+
+export type PriceKind = 'last' | 'mark' | 'index';
+
+export interface PriceKindSpread {
+    kind: PriceKind;
+    marketType: MarketType;              // Only markets of one type are compared; spot against perp is basis
+    exchanges: number;                   // Exchanges quoting this price kind
+    spreadPercent: number | null;        // Null when fewer than two exchanges quote it
+    lowest: { exchange: string; price: number } | null;
+    highest: { exchange: string; price: number } | null;
+}
+
+/**
+ * One public trade print (Binance aggTrade, ByBit publicTrade, ...)
+ */
+export interface Trade {
+    symbol: string;
+    exchange: string;
+    price: number;
+    size: number;                        // Base units, contracts converted
+    side?: 'buy' | 'sell';               // Taker side, where the venue says
+    timestamp: number;                   // Local receive time
+    eventTime?: number;                  // Exchange trade time, on our clock
+}
+
+export interface TradeWindow {
+    windowSeconds: number;
+    tradeCount: number;
+    volume: number;                      // Base units traded in the window
+    quoteVolume: number;
+    vwap: number | null;                 // Null when nothing traded in the window
+}
+
+export interface FundingRate {
+    symbol: string;
+    exchange: string;
+    fundingRate: number;                 // Current period rate as a fraction (0.0001 = 0.01%)
+    predictedFundingRate?: number;       // Estimated rate for the next period, where published
+    nextFundingTime?: number;
+    fundingIntervalHours: number;
+    timestamp: number;
+}
+
+export interface FundingArbitrageOpportunity {
+    symbol: string;
+    longExchange: string;                // Lower funding: long receives (or pays less)
+    shortExchange: string;               // Higher funding: short receives
+    longFundingRate: number;
+    shortFundingRate: number;
+    longIntervalHours: number;
+    shortIntervalHours: number;
+    annualizedDifferencePercent: number;
+    nextFundingTime?: number;            // Earliest next funding of the two legs
+    timestamp: number;
 }
 
 export interface ArbitrageOpportunity {
@@ -18,6 +93,8 @@ export interface ArbitrageOpportunity {
     priceDifferencePercent: number | null;
     profit: number | null;
     action: 'BUY_A_SELL_B' | 'BUY_B_SELL_A' | 'INVALID';
+    priceSource?: ArbitragePriceSource;  // 'book' means priceA/priceB are the ask/bid actually hit
+    lowLiquidityLegs?: LegLiquidity[];   // Legs below the liquidity minimums, when tagged rather than suppressed
     timestamp: number;
 }
 
@@ -61,21 +138,53 @@ export interface ArbitrageOpportunityClosed {
     // Summary
     duration: number;                    // Duration in milliseconds
     action: 'BUY_A_SELL_B' | 'BUY_B_SELL_A';
-    closeReason: 'BELOW_THRESHOLD' | 'PRICE_CONVERGED' | 'MANUAL' | 'TIMEOUT';
+    closeReason: 'BELOW_THRESHOLD' | 'PRICE_CONVERGED' | 'MANUAL' | 'TIMEOUT' | 'DELISTED' | 'EXCHANGE_DISABLED' | 'LOW_LIQUIDITY';
     alertsSent: number;                  // Number of alerts sent during lifetime
 }
 
+export interface BasisOpportunity {
+    symbol: string;
+    spotExchange: string;
+    perpExchange: string;
+    spotPrice: number;
+    perpPrice: number;
+    basisPercent: number;                // (perp - spot) / spot, positive when the perp trades at a premium
+    action: 'LONG_SPOT_SHORT_PERP' | 'SHORT_SPOT_LONG_PERP';
+    annualizedCarryPercent: number | null; // Funding APR the position earns on its perp leg, null until a rate is known
+    fundingIntervalHours?: number;
+    timestamp: number;
+}
+
+export interface CalendarSpreadOpportunity {
+    symbol: string;                      // Dated contract, e.g. BTC/USDT-250926
+    underlying: string;                  // Perpetual it is compared with, e.g. BTC/USDT
+    datedExchange: string;
+    perpExchange: string;
+    sameExchange: boolean;               // Both legs on one venue
+    datedPrice: number;
+    perpPrice: number;
+    expiryTime: number;
+    daysToExpiry: number;
+    basisPercent: number;                // (dated - perp) / perp
+    annualizedBasisPercent: number;      // Basis scaled to a year over the time left to expiry
+    normAnnualizedBasisPercent: number;  // Rolling mean of the annualized basis before this sample
+    normStdDev: number;
+    deviation: number;                   // Annualized basis minus its norm, in percentage points
+    action: 'BUY_DATED_SELL_PERP' | 'SELL_DATED_BUY_PERP';
+    timestamp: number;
+}
+
 export interface ExchangeConfig {
     name: string;
     apiKey?: string;
     apiSecret?: string;
     sandbox?: boolean;
-    rateLimit?: number;
+    rateLimit?: number;                  // REST weight allowed per rate-limit window
     enabled: boolean;
 }
 
 export interface TelegramMessage {
-    type: 'ARBITRAGE_ALERT' | 'ARBITRAGE_CLOSED' | 'SYSTEM_STATUS' | 'ERROR' | 'NEW_LISTING';
+    type: 'ARBITRAGE_ALERT' | 'ARBITRAGE_CLOSED' | 'SYSTEM_STATUS' | 'ERROR' | 'NEW_LISTING' | 'FUNDING_ARBITRAGE' | 'BASIS_ALERT' | 'CALENDAR_SPREAD' | 'PAIR_REFRESH';
     data: any;
     timestamp: number;
 }
@@ -86,6 +195,131 @@ export enum SupportedExchanges {
     MEXC = 'mexc',
     GATEIO = 'gateio',
     LBANK = 'lbank',
+    OKX = 'okx',
+    BITGET = 'bitget',
+    BINANCE_SPOT = 'binance_spot',
+    BYBIT_SPOT = 'bybit_spot',
+    GATEIO_SPOT = 'gateio_spot',
+    BINANCE_DELIVERY = 'binance_delivery',
+    BYBIT_DELIVERY = 'bybit_delivery',
+    GATEIO_DELIVERY = 'gateio_delivery',
+}
+
+export interface ExchangeCapabilities {
+    tickerStream: boolean;               // Streams ticker updates over WebSocket
+    symbolDiscovery: boolean;            // Can list tradable symbols via REST
+    orderBook: boolean;                  // Streams depth/book ticker for best bid/ask
+    fundingRates: boolean;               // Publishes perpetual funding rates
+    tradeStream: boolean;                // Streams public trades for VWAP windows
+}
+
+export type CircuitBreakerState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerStatus {
+    state: CircuitBreakerState;
+    consecutiveFailures: number;
+    openCount: number;                   // Times the breaker has opened since startup
+    openedAt: number | null;
+    nextTrialAt: number | null;          // When an OPEN breaker moves to HALF_OPEN
+}
+
+export interface LatencyStats {
+    samples: number;                     // Samples in the rolling window
+    p50: number | null;                  // Receive time minus event time, in milliseconds
+    p95: number | null;
+    p99: number | null;
+}
+
+export interface RateLimitStatus {
+    usedWeight: number;                  // REST weight used in the current window (ours or the venue's count, whichever is higher)
+    weightLimit: number;
+    windowMs: number;
+    waiting: number;                     // Calls queued for budget right now
+    rejected: number;                    // Calls refused because budget wasn't available soon enough
+    throttled: number;                   // 429/418 responses received
+    backoffMs: number;                   // Time left before REST calls resume after a 429/418
+}
+
+/**
+ * A server time reading with the local times its HTTP request left and its
+ * response arrived, excluding any wait for rate-limit budget
+ */
+export interface ServerTimeSample {
+    serverTime: number;
+    sentAt: number;
+    receivedAt: number;
+}
+
+export interface ClockOffset {
+    offsetMs: number;                    // Exchange clock minus local clock
+    rttMs: number;                       // Round trip of the sample the offset came from
+    updatedAt: number;
+}
+
+export interface ExchangeAdapterStatus {
+    connected: boolean;
+    connectionCount: number;             // Open WebSocket connections
+    topicCount: number;                  // Stream topics subscribed across those connections
+    connectedSymbols: string[];
+    recycledConnections: number;         // Sockets replaced after a pong timeout or idle watchdog trip
+    restFallbackSymbols: string[];       // Symbols currently polled over REST because their stream is down
+    latency: LatencyStats;
+    circuitBreaker: CircuitBreakerStatus;
+    rateLimit: RateLimitStatus | null;   // Null for venues that throttle their own client (ccxt)
+}
+
+/**
+ * Contract every exchange adapter implements. Adapters register themselves
+ * with the ExchangeRegistry and are driven by ExchangeService.
+ */
+export interface ExchangeAdapter {
+    readonly name: string;               // Registry key, e.g. 'binance'
+    readonly displayName: string;        // Human readable name, e.g. 'Binance'
+    readonly marketType: MarketType;     // Every symbol of an adapter is the same market type
+    readonly capabilities: ExchangeCapabilities;
+
+    initialize(): Promise<void>;
+    disconnect(): Promise<void>;
+    subscribeToTicker(symbol: string, callback: (data: PriceData) => void): Promise<void>;
+    unsubscribeFromTicker(symbol: string): Promise<void>;
+    getSymbols(): Promise<ExchangeSymbol[]>;
+    getFundingRates(): Promise<FundingRate[]>;
+    onFundingRate(handler: (rate: FundingRate) => void): void;
+    onTrade(handler: (trade: Trade) => void): void;  // Trade prints of subscribed symbols, when TRADE_STREAMS is on
+    onFrame(handler: (frame: string) => void): void;  // Raw data frames as received, for recording
+    ingestFrame(frame: string, recordedAt?: number): void; // Feed a recorded frame through the parsing path
+    getServerTime(): Promise<ServerTimeSample | null>; // Null when the venue exposes no server time
+    setClockOffset(offsetMs: number): void;  // Exchange clock minus ours, applied to event times
+
+    isConnected(): boolean;
+    getConnectionCount(): number;
+    getConnectedSymbols(): string[];
+    getStatus(): ExchangeAdapterStatus;
+    getCircuitBreakerStatus(): CircuitBreakerStatus;
+}
+
+export interface SubscriptionDiff {
+    added: string[];
+    removed: string[];
+}
+
+export interface PairRefreshResult extends SubscriptionDiff {
+    exchanges: Record<string, SubscriptionDiff>; // Tickers actually subscribed/unsubscribed per exchange
+    delisted: Record<string, string[]>;  // Monitored pairs that dropped out of each exchange's own listings
+}
+
+export interface SymbolAlias {
+    exchange: string;                    // Exchange name, or '*' for every exchange
+    from: string;                        // Base asset as the exchange lists it, e.g. 'SHIB1000'
+    to: string;                          // Canonical base asset, e.g. 'SHIB'
+    multiplier: number;                  // Canonical units per exchange unit, e.g. 1000
+}
+
+export interface NormalizedSymbol {
+    symbol: string;                      // Canonical BASE/QUOTE used for cross-exchange matching
+    exchangeSymbol: string;              // Symbol as the exchange lists it, e.g. '1000PEPE/USDT'
+    exchange: string;
+    multiplier: number;                  // Canonical price = exchange price / multiplier
 }
 
 export interface WebSocketMessage {
@@ -104,6 +338,22 @@ export interface ArbitrageConfig {
     minProfitUsd: number;
     sendClosedAlerts: boolean;
     minOpportunityDurationForCloseAlert: number; // minutes
+    priceSource: ArbitragePriceSource;   // Compare last prices, executable bid/ask or trade VWAPs
+    vwapWindowSeconds: number;           // VWAP window compared when priceSource is 'vwap'
+    maxLegSkewMs: number;                // Reject leg pairs whose event times are further apart
+    minOpenInterestUsd: number;          // Per leg, 0 disables
+    rejectUnknownOpenInterest: boolean;  // Legs without open interest data fail a non-zero minimum instead of passing
+    minVolume24hUsd: number;             // Per leg, 0 disables; legs without quote volume data pass
+    lowLiquidityAction: LowLiquidityAction;
+}
+
+/**
+ * Liquidity of one leg in quote terms, as far as its venue reports it
+ */
+export interface LegLiquidity {
+    exchange: string;
+    openInterestUsd: number | null;
+    volume24hUsd: number | null;
 }
 
 export interface NewListing {
@@ -136,8 +386,30 @@ export interface ExchangeSymbol {
     quoteAsset: string;
     status: string;
     exchange: string;
+    marketType: MarketType;
     minTradeAmount?: number;
     maxTradeAmount?: number;
     tickSize?: number;
+    contractSize?: number;               // Base units per contract, where the venue quotes sizes in contracts
+    pricePrecision?: number;             // Decimal places allowed in prices
+    sizePrecision?: number;              // Decimal places allowed in order sizes
+    spec?: InstrumentSpec;
+    fallback?: boolean;                  // One of FALLBACK_SYMBOLS, standing in for a listing fetch that failed
     lastUpdated: number;
+}
+
+/**
+ * Trading constraints of one instrument, in the same units on every exchange:
+ * prices in the quote asset, sizes in base units (contracts converted).
+ */
+export interface InstrumentSpec {
+    contractSize: number;                // Base units per contract, 1 where orders are sized in base units
+    tickSize: number | null;             // Price increment
+    lotStep: number | null;              // Order size increment in base units
+    minQty: number | null;               // Minimum order size in base units
+    minNotional: number | null;          // Minimum order value in the quote asset
+    maxLeverage: number | null;
+    marginAsset: string | null;          // Asset the position is margined and settled in
+    launchTime: number | null;           // When the instrument started trading (ms)
+    expiryTime: number | null;           // Delivery time of dated futures (ms), null for perpetuals and spot
 } 
\ No newline at end of file
@@ -0,0 +1,707 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PriceData, PriceSource, ExchangeSymbol, ExchangeAdapter, ExchangeAdapterStatus, ExchangeCapabilities, ExchangeConfig, FundingRate, MarketType, Trade, CircuitBreakerStatus, ServerTimeSample } from '@/common/types';
+import { TelegramService } from '@/telegram/telegram.service';
+import { WsConnectionPool, WsHeartbeat } from './ws-connection-pool';
+import { ReconnectPolicy } from './reconnect-policy';
+import { CircuitBreaker } from './circuit-breaker';
+import { LatencyTracker } from './latency-tracker';
+import { RestRateLimiter, RestRateLimit } from './rest-rate-limiter';
+import { OrderBook, OrderBookLevel } from './order-book';
+import { loadExchangeConfig } from './exchange-config';
+
+// Set by publish() itself, never taken from a parsed update
+const IDENTITY_FIELDS = new Set(['symbol', 'exchange', 'marketType', 'source']);
+
+/**
+ * Shared plumbing for WebSocket exchange adapters. Subclasses describe the
+ * venue protocol (topics, subscribe messages, message parsing) and the pool
+ * multiplexes every subscribed symbol over as few sockets as the venue allows.
+ */
+export abstract class BaseExchangeService implements ExchangeAdapter {
+    abstract readonly name: string;
+    abstract readonly displayName: string;
+    abstract readonly capabilities: ExchangeCapabilities;
+    readonly marketType: MarketType = 'perp';
+
+    protected readonly logger = new Logger(this.constructor.name);
+    protected readonly subscriptions = new Map<string, (data: PriceData) => void>();
+    protected readonly streamSymbols = new Map<string, string>(); // stream symbol -> symbol
+    protected readonly topicSymbols = new Map<string, string>(); // topic -> symbol
+    protected readonly latestPrices = new Map<string, PriceData>();
+    protected readonly orderBooks = new Map<string, OrderBook>();
+    protected readonly reconnectPolicy: ReconnectPolicy;
+    protected readonly pingInterval: number;
+    protected readonly pongTimeout: number;
+    protected readonly idleTimeout: number;
+    protected readonly restFallbackEnabled: boolean;
+    protected readonly restFallbackInterval: number;
+    protected readonly orderBookEnabled: boolean;
+    protected readonly fundingStreamsEnabled: boolean;
+    protected readonly tradeStreamsEnabled: boolean;
+    protected fundingHandler: ((rate: FundingRate) => void) | null = null;
+    protected tradeHandler: ((trade: Trade) => void) | null = null;
+    protected frameHandler: ((frame: string) => void) | null = null;
+    protected readonly replayMode: boolean;
+    protected pool: WsConnectionPool | null = null;
+    protected isInitialized = false;
+    protected recycledConnections = 0;
+    protected readonly latencyTracker = new LatencyTracker();
+    protected clockOffsetMs = 0;
+    private replayShiftMs = 0;                           // Time since the frame being replayed was recorded
+    protected readonly restFallbackSymbols = new Set<string>();
+    private restFallbackTimer: NodeJS.Timeout | null = null;
+    private openInterestTimer: NodeJS.Timeout | null = null;
+    private readonly openInterestPollInterval: number;
+    private initializedAt = 0;
+    private breaker: CircuitBreaker | null = null;
+    private readonly breakerFailureThreshold: number;
+    private readonly breakerOpenDurationMs: number;
+    private rateLimiter: RestRateLimiter | null = null;
+    private exchangeConfig: ExchangeConfig | null = null;
+    private readonly restMaxWaitMs: number;
+    private readonly enableFallbacks: boolean;
+    private readonly fallbackSymbols: string[];
+    private readonly notifyFailures: boolean;
+    private readonly failureCooldownMs: number;
+    private readonly failureNotifications = new Map<string, number>();
+
+    // Venue protocol settings
+    protected abstract readonly wsUrl: string;
+    protected abstract readonly maxTopicsPerConnection: number;
+    protected abstract readonly maxTopicsPerMessage: number;
+    protected abstract readonly restRateLimit: RestRateLimit;
+    protected readonly heartbeat: WsHeartbeat = {}; // Protocol ping frames unless the venue needs app-level pings
+    protected readonly pollsOpenInterest: boolean = false; // Venues that stream no open interest poll fetchOpenInterest()
+
+    constructor(
+        protected readonly configService: ConfigService,
+        private readonly telegramService?: TelegramService, // Failure alerts, for adapters that send them
+    ) {
+        this.reconnectPolicy = new ReconnectPolicy({
+            baseDelayMs: parseInt(this.configService.get<string>('WEBSOCKET_RECONNECT_INTERVAL', '5000')),
+            maxDelayMs: parseInt(this.configService.get<string>('WEBSOCKET_RECONNECT_MAX_DELAY', '300000')),
+        });
+        this.breakerFailureThreshold = parseInt(this.configService.get<string>('CIRCUIT_BREAKER_FAILURE_THRESHOLD', '5'));
+        this.breakerOpenDurationMs = parseInt(this.configService.get<string>('CIRCUIT_BREAKER_OPEN_SECONDS', '120')) * 1000;
+        this.restMaxWaitMs = parseInt(this.configService.get<string>('REST_RATE_LIMIT_MAX_WAIT_MS', '10000'));
+        this.pingInterval = parseInt(this.configService.get<string>('WEBSOCKET_PING_INTERVAL', '20000'));
+        this.pongTimeout = parseInt(this.configService.get<string>('WEBSOCKET_PONG_TIMEOUT', '10000'));
+        this.idleTimeout = parseInt(this.configService.get<string>('WEBSOCKET_IDLE_TIMEOUT_SECONDS', '60')) * 1000;
+        this.restFallbackEnabled = this.configService.get<string>('REST_FALLBACK_ENABLED', 'true') === 'true';
+        this.restFallbackInterval = parseInt(this.configService.get<string>('REST_FALLBACK_INTERVAL_MS', '5000'));
+        this.enableFallbacks = this.configService.get<string>('ENABLE_EXCHANGE_FALLBACKS', 'false') === 'true';
+        this.fallbackSymbols = this.configService.get<string>('FALLBACK_SYMBOLS', 'BTC/USDT,ETH/USDT').split(',').map(s => s.trim());
+        this.notifyFailures = this.configService.get<string>('NOTIFY_EXCHANGE_FAILURES', 'true') === 'true';
+        this.failureCooldownMs = parseInt(this.configService.get<string>('EXCHANGE_FAILURE_COOLDOWN_MINUTES', '30')) * 60 * 1000;
+        this.openInterestPollInterval = parseInt(this.configService.get<string>('OPEN_INTEREST_POLL_INTERVAL_MS', '30000'));
+        this.orderBookEnabled = this.configService.get<string>('ORDER_BOOK_STREAMS', 'true') === 'true';
+        this.fundingStreamsEnabled = this.configService.get<string>('FUNDING_STREAMS', 'true') === 'true';
+        this.tradeStreamsEnabled = this.configService.get<string>('TRADE_STREAMS', 'false') === 'true';
+        // Replayed sessions are fed through ingestFrame() instead of live sockets
+        this.replayMode = !!this.configService.get<string>('REPLAY_PATH');
+    }
+
+    abstract getSymbols(): Promise<ExchangeSymbol[]>;
+
+    /**
+     * Venue URL, overridable per exchange with <NAME>_REST_URL / <NAME>_WS_URL
+     * (e.g. BINANCE_WS_URL) to point the adapter at a proxy or mock exchange.
+     * <NAME>_SANDBOX=true picks the venue's testnet URL where it has one.
+     */
+    protected endpoint(kind: 'REST' | 'WS', defaultUrl: string, sandboxUrl?: string): string {
+        const override = this.configService.get<string>(`${this.name.toUpperCase()}_${kind}_URL`);
+        if (override) {
+            return override;
+        }
+
+        if (this.config.sandbox) {
+            if (sandboxUrl) {
+                return sandboxUrl;
+            }
+            this.logger.warn(`⚠️ ${this.name} has no public testnet, using production ${kind} endpoint`);
+        }
+
+        return defaultUrl;
+    }
+
+    /**
+     * Startup configuration, loaded on first use because subclass fields
+     * (the name) aren't set while the base constructor runs
+     */
+    protected get config(): ExchangeConfig {
+        if (!this.exchangeConfig) {
+            this.exchangeConfig = loadExchangeConfig(this.configService, this.name);
+        }
+
+        return this.exchangeConfig;
+    }
+
+    /**
+     * Current funding rates of subscribed symbols from REST. Venues without
+     * perpetual funding keep this default.
+     */
+    async getFundingRates(): Promise<FundingRate[]> {
+        return [];
+    }
+
+    onFundingRate(handler: (rate: FundingRate) => void): void {
+        this.fundingHandler = handler;
+    }
+
+    onTrade(handler: (trade: Trade) => void): void {
+        this.tradeHandler = handler;
+    }
+
+    onFrame(handler: (frame: string) => void): void {
+        this.frameHandler = handler;
+    }
+
+    /**
+     * Parse a recorded data frame exactly as if a socket had just delivered it.
+     * Its event times move forward by the time since it was recorded, so a
+     * replayed price is as old as it was when recorded rather than stale.
+     */
+    ingestFrame(frame: string, recordedAt?: number): void {
+        this.replayShiftMs = recordedAt > 0 ? Date.now() - recordedAt : 0;
+
+        try {
+            this.handleMessage(JSON.parse(frame));
+        } catch (error) {
+            this.logger.error(`❌ Error replaying ${this.displayName} frame: ${error.message}`);
+        }
+    }
+
+    /**
+     * Current time on the exchange's server, from its REST time endpoint, timed
+     * with RestRateLimiter.timedFetch()
+     */
+    abstract getServerTime(): Promise<ServerTimeSample | null>;
+
+    setClockOffset(offsetMs: number): void {
+        this.clockOffsetMs = offsetMs;
+    }
+
+    /**
+     * Latest tickers for every contract from the venue's bulk REST endpoint,
+     * keyed by stream symbol. Polled only while a symbol's stream is down.
+     */
+    protected abstract fetchRestTickers(): Promise<Map<string, Partial<PriceData>>>;
+
+    /**
+     * Open interest in base units of the given stream symbols, from REST.
+     * Only polled when pollsOpenInterest is set.
+     */
+    protected async fetchOpenInterest(streamSymbols: string[]): Promise<Map<string, number>> {
+        return new Map();
+    }
+
+    /**
+     * Log and report a failed symbol listing fetch, returning the configured
+     * fallback symbols when ENABLE_EXCHANGE_FALLBACKS is on and nothing otherwise
+     */
+    protected async handleSymbolFetchFailure(error: Error): Promise<ExchangeSymbol[]> {
+        this.logger.error(`❌ Failed to fetch ${this.displayName} symbols: ${error.message}`);
+
+        // Send failure notification if enabled
+        await this.notifyFailure('Symbol Fetch Failed', error.message);
+
+        // Return fallback symbols only if enabled
+        if (this.enableFallbacks) {
+            this.logger.warn(`⚠️ Using fallback symbols for ${this.displayName}: ${this.fallbackSymbols.join(', ')}`);
+
+            return this.fallbackSymbols.map(symbol => {
+                const [baseAsset, quoteAsset] = symbol.split('/');
+                return {
+                    symbol,
+                    baseAsset,
+                    quoteAsset,
+                    status: 'TRADING',
+                    exchange: this.name,
+                    marketType: this.marketType,
+                    minTradeAmount: 0,
+                    tickSize: 0,
+                    fallback: true,
+                    lastUpdated: Date.now(),
+                };
+            });
+        }
+
+        // No fallbacks - return empty array to force notification
+        return [];
+    }
+
+    protected async notifyFailure(type: string, message: string): Promise<void> {
+        if (!this.notifyFailures || !this.telegramService) return;
+
+        const notificationKey = `${type}-${message}`;
+        const now = Date.now();
+        const lastNotification = this.failureNotifications.get(notificationKey);
+
+        // Check cooldown period
+        if (lastNotification && now - lastNotification < this.failureCooldownMs) {
+            return; // Still in cooldown
+        }
+
+        this.failureNotifications.set(notificationKey, now);
+
+        // Log the failure
+        this.logger.error(`🚨 ${this.name.toUpperCase()} FAILURE NOTIFICATION: ${type} - ${message}`);
+
+        // Send Telegram notification
+        try {
+            await this.telegramService.sendSystemAlert(`🚨 **${this.displayName} Exchange Failure**\n\n**Type:** ${type}\n**Details:** ${message}\n\n⚠️ Please check ${this.displayName} API status and fix if needed.`);
+        } catch (telegramError) {
+            this.logger.error(`❌ Failed to send Telegram notification: ${telegramError.message}`);
+        }
+    }
+
+    /**
+     * Parse an optional numeric field from an instrument listing
+     */
+    protected parseOptionalNumber(value: any): number | null {
+        const parsed = parseFloat(value);
+        return isNaN(parsed) || parsed <= 0 ? null : parsed;
+    }
+
+    /**
+     * Canonical symbol of a dated contract: the pair plus its UTC expiry date
+     * as YYMMDD, e.g. BTC/USDT-250926, so the same expiry matches across venues
+     */
+    protected formatDatedSymbol(baseAsset: string, quoteAsset: string, expiryTime: number): string {
+        const date = new Date(expiryTime).toISOString(); // 2025-09-26T08:00:00.000Z
+        return `${baseAsset}/${quoteAsset}-${date.slice(2, 4)}${date.slice(5, 7)}${date.slice(8, 10)}`;
+    }
+
+    /**
+     * Convert BTC/USDT to the symbol format used in the venue's streams
+     */
+    protected abstract formatSymbolForStream(symbol: string): string;
+
+    /**
+     * Topics to subscribe for a stream symbol (ticker plus depth when enabled)
+     */
+    protected abstract getTopics(streamSymbol: string): string[];
+
+    protected abstract buildSubscribeMessages(topics: string[]): object[];
+
+    protected abstract buildUnsubscribeMessages(topics: string[]): object[];
+
+    /**
+     * Handle a parsed message from any pooled connection
+     */
+    protected abstract handleMessage(message: any): void;
+
+    async initialize(): Promise<void> {
+        this.logger.log(`🔄 Initializing ${this.displayName} service...`);
+
+        if (this.replayMode) {
+            this.isInitialized = true;
+            this.logger.log(`✅ ${this.displayName} service initialized for replay (no sockets)`);
+            return;
+        }
+
+        this.pool = new WsConnectionPool({
+            name: this.displayName,
+            url: this.wsUrl,
+            maxTopicsPerConnection: this.maxTopicsPerConnection,
+            maxTopicsPerMessage: this.maxTopicsPerMessage,
+            reconnectPolicy: this.reconnectPolicy,
+            circuitBreaker: this.circuitBreaker,
+            pingInterval: this.pingInterval,
+            pongTimeout: this.pongTimeout,
+            idleTimeout: this.idleTimeout,
+            heartbeat: this.heartbeat,
+            buildSubscribeMessages: (topics) => this.buildSubscribeMessages(topics),
+            buildUnsubscribeMessages: (topics) => this.buildUnsubscribeMessages(topics),
+            onMessage: (message) => this.handleMessage(message),
+            onFrame: (text) => this.frameHandler?.(text),
+            onRecycle: () => this.recycledConnections++, // Kept here so the count survives pool rebuilds
+        });
+        this.isInitialized = true;
+        this.initializedAt = Date.now();
+
+        if (this.restFallbackEnabled) {
+            this.restFallbackTimer = setInterval(() => this.pollRestFallback(), this.restFallbackInterval);
+        }
+
+        if (this.pollsOpenInterest) {
+            this.openInterestTimer = setInterval(() => this.pollOpenInterest(), this.openInterestPollInterval);
+        }
+
+        this.logger.log(`✅ ${this.displayName} service initialized`);
+    }
+
+    async disconnect(): Promise<void> {
+        this.logger.log(`🔄 Disconnecting from ${this.displayName}...`);
+
+        if (this.restFallbackTimer) {
+            clearInterval(this.restFallbackTimer);
+            this.restFallbackTimer = null;
+        }
+
+        if (this.openInterestTimer) {
+            clearInterval(this.openInterestTimer);
+            this.openInterestTimer = null;
+        }
+
+        this.pool?.close();
+        this.pool = null;
+        this.restFallbackSymbols.clear();
+        this.subscriptions.clear();
+        this.streamSymbols.clear();
+        this.topicSymbols.clear();
+        this.latestPrices.clear();
+        this.orderBooks.clear();
+        this.isInitialized = false;
+
+        this.logger.log(`✅ Disconnected from ${this.displayName}`);
+    }
+
+    async subscribeToTicker(symbol: string, callback: (data: PriceData) => void): Promise<void> {
+        if (!this.isInitialized) {
+            throw new Error(`${this.displayName} service not initialized`);
+        }
+
+        const streamSymbol = this.formatSymbolForStream(symbol);
+        const topics = this.getTopics(streamSymbol);
+
+        this.subscriptions.set(symbol, callback);
+        this.streamSymbols.set(streamSymbol, symbol);
+        for (const topic of topics) {
+            this.topicSymbols.set(topic, symbol);
+        }
+
+        this.logger.debug(`📡 Subscribing to ${this.displayName} ticker: ${streamSymbol}`);
+        this.pool?.subscribe(topics);
+    }
+
+    async unsubscribeFromTicker(symbol: string): Promise<void> {
+        const streamSymbol = this.formatSymbolForStream(symbol);
+        const topics = this.getTopics(streamSymbol);
+
+        this.subscriptions.delete(symbol);
+        this.streamSymbols.delete(streamSymbol);
+        for (const topic of topics) {
+            this.topicSymbols.delete(topic);
+        }
+        this.latestPrices.delete(symbol);
+        this.orderBooks.delete(symbol);
+
+        this.pool?.unsubscribe(topics);
+        this.logger.log(`🔕 Unsubscribed from ${this.displayName} ticker: ${symbol}`);
+    }
+
+    /**
+     * Map a stream symbol from a message back to the subscribed BASE/QUOTE symbol
+     */
+    protected resolveSymbol(streamSymbol: string): string | undefined {
+        return this.streamSymbols.get(streamSymbol);
+    }
+
+    /**
+     * Merge an update into the symbol's latest price data and deliver it to the
+     * subscriber. Ticker and depth channels arrive separately, and fields missing
+     * from an update (e.g. ByBit deltas) keep their previous values.
+     */
+    protected publish(symbol: string, update: Partial<PriceData>, source: PriceSource = 'ws'): void {
+        const callback = this.subscriptions.get(symbol);
+        if (!callback) {
+            return;
+        }
+
+        const receivedAt = Date.now();
+        const priceData: PriceData = {
+            ...this.latestPrices.get(symbol),
+            symbol,
+            exchange: this.name,
+            marketType: this.marketType,
+            timestamp: receivedAt,
+            source,
+        } as PriceData;
+
+        if (update.eventTime > 0) {
+            // Move the event time onto our clock before comparing it with local times
+            update = { ...update, eventTime: this.toLocalTime(update.eventTime) };
+            this.latencyTracker.record(receivedAt - update.eventTime);
+
+            // Mark, book and open interest channels move eventTime too; only a ticker with a last price dates the price
+            if (Number.isFinite(update.price)) {
+                priceData.priceEventTime = update.eventTime;
+            }
+        }
+
+        for (const [key, value] of Object.entries(update)) {
+            // The subscribed symbol and this adapter identify the price; REST tickers carry venue symbols
+            if (IDENTITY_FIELDS.has(key)) {
+                continue;
+            }
+
+            if (value !== undefined && !(typeof value === 'number' && isNaN(value))) {
+                priceData[key] = value;
+            }
+        }
+
+        this.latestPrices.set(symbol, priceData);
+        callback(priceData);
+    }
+
+    /**
+     * Poll bulk REST tickers for subscribed symbols whose stream is down, and
+     * stop once every stream is delivering again
+     */
+    private async pollRestFallback(): Promise<void> {
+        // Give freshly opened sockets time to connect before judging them down
+        if (!this.pool || this.subscriptions.size === 0 || Date.now() - this.initializedAt < this.restFallbackInterval * 2) {
+            return;
+        }
+
+        const connectedSymbols = new Set(this.getConnectedSymbols());
+        const downSymbols = Array.from(this.subscriptions.keys()).filter(symbol => !connectedSymbols.has(symbol));
+
+        if (downSymbols.length === 0) {
+            if (this.restFallbackSymbols.size > 0) {
+                this.logger.log(`✅ ${this.displayName} streams healthy again, stopping REST fallback for ${this.restFallbackSymbols.size} symbols`);
+                this.restFallbackSymbols.clear();
+            }
+            return;
+        }
+
+        if (this.restFallbackSymbols.size === 0) {
+            this.logger.warn(`⚠️ ${this.displayName} stream down for ${downSymbols.length} symbols, falling back to REST polling`);
+        }
+
+        this.restFallbackSymbols.clear();
+        downSymbols.forEach(symbol => this.restFallbackSymbols.add(symbol));
+
+        let tickers: Map<string, Partial<PriceData>>;
+        try {
+            tickers = await this.fetchRestTickers();
+        } catch (error) {
+            this.logger.error(`❌ ${this.displayName} REST fallback poll failed: ${error.message}`);
+            return;
+        }
+
+        for (const symbol of downSymbols) {
+            const update = tickers.get(this.formatSymbolForStream(symbol));
+            const latest = this.latestPrices.get(symbol);
+
+            if (!update) {
+                continue;
+            }
+
+            // The book stream is down too, so its last best bid/ask and event time must not ride along as fresh data
+            if (latest) {
+                delete latest.eventTime;
+                delete latest.priceEventTime;
+                delete latest.bestBid;
+                delete latest.bestBidSize;
+                delete latest.bestAsk;
+                delete latest.bestAskSize;
+            }
+
+            this.publish(symbol, update, 'rest');
+        }
+    }
+
+    private async pollOpenInterest(): Promise<void> {
+        if (this.subscriptions.size === 0) {
+            return;
+        }
+
+        let openInterest: Map<string, number>;
+        try {
+            openInterest = await this.fetchOpenInterest(Array.from(this.subscriptions.keys()).map(symbol => this.formatSymbolForStream(symbol)));
+        } catch (error) {
+            this.logger.error(`❌ ${this.displayName} open interest poll failed: ${error.message}`);
+            return;
+        }
+
+        for (const [streamSymbol, value] of openInterest) {
+            const symbol = this.resolveSymbol(streamSymbol);
+
+            if (symbol) {
+                this.publishOpenInterest(symbol, value);
+            }
+        }
+    }
+
+    /**
+     * Merge open interest in base units into the symbol's latest price data.
+     * Unlike publish() it keeps the price's timestamp and source, so a slow
+     * open interest feed can't make a silent ticker stream look fresh.
+     */
+    protected publishOpenInterest(symbol: string, openInterest: number): void {
+        const callback = this.subscriptions.get(symbol);
+        const latest = this.latestPrices.get(symbol);
+
+        if (!callback || !latest || isNaN(openInterest)) {
+            return;
+        }
+
+        const priceData = { ...latest, openInterest };
+        this.latestPrices.set(symbol, priceData);
+        callback(priceData);
+    }
+
+    /**
+     * Hand a streamed funding update for a subscribed symbol to the funding handler.
+     * Updates may be partial; the funding store merges them with what it knows.
+     */
+    protected publishFunding(symbol: string, update: Partial<FundingRate>): void {
+        if (!this.fundingHandler || !this.subscriptions.has(symbol)) {
+            return;
+        }
+
+        this.fundingHandler({
+            ...update,
+            symbol,
+            exchange: this.name,
+            timestamp: Date.now(),
+        } as FundingRate);
+    }
+
+    /**
+     * Hand a trade print for a subscribed symbol to the trade handler, with its
+     * trade time moved onto our clock
+     */
+    protected publishTrade(symbol: string, trade: Pick<Trade, 'price' | 'size' | 'side' | 'eventTime'>): void {
+        if (!this.tradeHandler || !this.subscriptions.has(symbol) || !(trade.price > 0) || !(trade.size > 0)) {
+            return;
+        }
+
+        this.tradeHandler({
+            ...trade,
+            symbol,
+            exchange: this.name,
+            timestamp: Date.now(),
+            eventTime: trade.eventTime > 0 ? this.toLocalTime(trade.eventTime) : undefined,
+        });
+    }
+
+    /**
+     * Exchange event time on our clock, and on the replay's when replaying
+     */
+    private toLocalTime(eventTime: number): number {
+        return eventTime - this.clockOffsetMs + this.replayShiftMs;
+    }
+
+    /**
+     * Apply depth data to the symbol's local order book and publish its top levels
+     */
+    protected updateOrderBook(symbol: string, bids: OrderBookLevel[], asks: OrderBookLevel[], isSnapshot: boolean, eventTime?: number): void {
+        let orderBook = this.orderBooks.get(symbol);
+        if (!orderBook) {
+            orderBook = new OrderBook();
+            this.orderBooks.set(symbol, orderBook);
+        }
+
+        if (isSnapshot) {
+            orderBook.applySnapshot(bids, asks);
+        } else {
+            orderBook.applyDelta(bids, asks);
+        }
+
+        const bestBid = orderBook.getBestBid();
+        const bestAsk = orderBook.getBestAsk();
+
+        this.publish(symbol, {
+            bestBid: bestBid?.[0],
+            bestBidSize: bestBid?.[1],
+            bestAsk: bestAsk?.[0],
+            bestAskSize: bestAsk?.[1],
+            eventTime,
+        });
+    }
+
+    /**
+     * Parse [price, size, ...] string tuples from a depth payload
+     */
+    protected parseLevels(levels: any[] = []): OrderBookLevel[] {
+        return levels.map(level => [parseFloat(level[0]), parseFloat(level[1])] as OrderBookLevel);
+    }
+
+    isConnected(): boolean {
+        return this.isInitialized && this.getConnectionCount() > 0;
+    }
+
+    getConnectionCount(): number {
+        return this.pool ? this.pool.getConnectionCount() : 0;
+    }
+
+    getConnectedSymbols(): string[] {
+        if (!this.pool) {
+            return [];
+        }
+
+        const symbols = new Set<string>();
+        for (const topic of this.pool.getActiveTopics()) {
+            const symbol = this.topicSymbols.get(topic);
+            if (symbol) {
+                symbols.add(symbol);
+            }
+        }
+
+        return Array.from(symbols);
+    }
+
+    /**
+     * The exchange's circuit breaker, created on first use because displayName
+     * is only set once the subclass has been constructed. It outlives pool
+     * rebuilds so failure history isn't lost on reconnect.
+     */
+    protected get circuitBreaker(): CircuitBreaker {
+        if (!this.breaker) {
+            this.breaker = new CircuitBreaker({
+                name: this.displayName,
+                failureThreshold: this.breakerFailureThreshold,
+                openDurationMs: this.breakerOpenDurationMs,
+            });
+        }
+
+        return this.breaker;
+    }
+
+    /**
+     * Rate-limited REST client, created on first use like the circuit breaker.
+     * <NAME>_RATE_LIMIT overrides the venue's weight per window.
+     */
+    protected get rest(): RestRateLimiter {
+        if (!this.rateLimiter) {
+            this.rateLimiter = this.createRestRateLimiter();
+        }
+
+        return this.rateLimiter;
+    }
+
+    /**
+     * Limiter for this adapter's REST calls. Adapters that draw on another
+     * adapter's IP budget override this to share one limiter.
+     */
+    protected createRestRateLimiter(): RestRateLimiter {
+        return new RestRateLimiter({
+            ...this.restRateLimit,
+            name: this.displayName,
+            weightLimit: this.config.rateLimit || this.restRateLimit.weightLimit,
+            maxWaitMs: this.restMaxWaitMs,
+        });
+    }
+
+    getCircuitBreakerStatus(): CircuitBreakerStatus {
+        return this.circuitBreaker.getStatus();
+    }
+
+    getStatus(): ExchangeAdapterStatus {
+        return {
+            connected: this.isConnected(),
+            connectionCount: this.getConnectionCount(),
+            topicCount: this.pool ? this.pool.getTopicCount() : 0,
+            connectedSymbols: this.getConnectedSymbols(),
+            recycledConnections: this.recycledConnections,
+            restFallbackSymbols: Array.from(this.restFallbackSymbols),
+            latency: this.latencyTracker.getStats(),
+            circuitBreaker: this.getCircuitBreakerStatus(),
+            rateLimit: this.rest.getStatus(),
+        };
+    }
+}
\ No newline at end of file
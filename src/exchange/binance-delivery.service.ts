@@ -0,0 +1,204 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PriceData, SupportedExchanges, ExchangeSymbol, ExchangeCapabilities, MarketType, ServerTimeSample } from '@/common/types';
+import { BaseExchangeService } from './base-exchange.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { RestRateLimit, RestRateLimiter } from './rest-rate-limiter';
+import { BINANCE_FAPI_RATE_LIMIT } from './binance.service';
+
+/**
+ * Binance USDT-margined quarterly futures. They trade on the same fapi
+ * endpoints as the perpetuals, as BTCUSDT_250926 style symbols.
+ */
+@Injectable()
+export class BinanceDeliveryService extends BaseExchangeService {
+    readonly name = SupportedExchanges.BINANCE_DELIVERY;
+    readonly displayName = 'Binance Delivery';
+    readonly marketType: MarketType = 'delivery';
+    readonly capabilities: ExchangeCapabilities = {
+        tickerStream: true,
+        symbolDiscovery: true,
+        orderBook: true,
+        fundingRates: false, // Dated contracts converge at delivery instead of paying funding
+        tradeStream: true,
+    };
+
+    protected readonly wsUrl = this.endpoint('WS', 'wss://fstream.binance.com/stream', 'wss://stream.binancefuture.com/stream');
+    protected readonly maxTopicsPerConnection = 200;
+    protected readonly maxTopicsPerMessage = 100;
+    private readonly apiUrl = this.endpoint('REST', 'https://fapi.binance.com/fapi/v1', 'https://testnet.binancefuture.com/fapi/v1');
+    // 2400 weight per minute per IP, one limiter shared with the perpetuals (see createRestRateLimiter)
+    protected readonly restRateLimit: RestRateLimit = { weightLimit: 2400, windowMs: 60000, usedWeightHeader: 'x-mbx-used-weight-1m' };
+    protected readonly pollsOpenInterest = true; // No open interest stream, only a per-symbol endpoint
+    private requestId = 1;
+
+    constructor(
+        configService: ConfigService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+    ) {
+        super(configService);
+        this.exchangeRegistry.register(this);
+    }
+
+    protected createRestRateLimiter(): RestRateLimiter {
+        return this.exchangeRegistry.getSharedRateLimiter(BINANCE_FAPI_RATE_LIMIT, () => super.createRestRateLimiter());
+    }
+
+    async getSymbols(): Promise<ExchangeSymbol[]> {
+        try {
+            const response = await this.rest.fetch(`${this.apiUrl}/exchangeInfo`);
+            const data = await response.json();
+
+            return data.symbols
+                .filter((symbol: any) => symbol.status === 'TRADING' && ['CURRENT_QUARTER', 'NEXT_QUARTER'].includes(symbol.contractType))
+                .map((symbol: any) => {
+                    const filter = (type: string) => symbol.filters?.find((f: any) => f.filterType === type) || {};
+
+                    return {
+                        symbol: this.formatDatedSymbol(symbol.baseAsset, symbol.quoteAsset, symbol.deliveryDate),
+                        baseAsset: symbol.baseAsset,
+                        quoteAsset: symbol.quoteAsset,
+                        status: symbol.status,
+                        exchange: SupportedExchanges.BINANCE_DELIVERY,
+                        marketType: this.marketType,
+                        minTradeAmount: parseFloat(filter('LOT_SIZE').minQty || '0'),
+                        tickSize: parseFloat(filter('PRICE_FILTER').tickSize || '0'),
+                        spec: {
+                            contractSize: 1,
+                            tickSize: this.parseOptionalNumber(filter('PRICE_FILTER').tickSize),
+                            lotStep: this.parseOptionalNumber(filter('LOT_SIZE').stepSize),
+                            minQty: this.parseOptionalNumber(filter('LOT_SIZE').minQty),
+                            minNotional: this.parseOptionalNumber(filter('MIN_NOTIONAL').notional),
+                            maxLeverage: null, // Only available from the signed leverage bracket endpoint
+                            marginAsset: symbol.marginAsset || null,
+                            launchTime: this.parseOptionalNumber(symbol.onboardDate),
+                            expiryTime: symbol.deliveryDate,
+                        },
+                        lastUpdated: Date.now(),
+                    };
+                });
+        } catch (error) {
+            this.logger.error(`❌ Failed to fetch Binance Delivery symbols: ${error.message}`);
+            return [];
+        }
+    }
+
+    async getServerTime(): Promise<ServerTimeSample> {
+        const { response, sentAt, receivedAt } = await this.rest.timedFetch(`${this.apiUrl}/time`);
+        const data = await response.json();
+        return { serverTime: data.serverTime, sentAt, receivedAt };
+    }
+
+    protected async fetchRestTickers(): Promise<Map<string, Partial<PriceData>>> {
+        const response = await this.rest.fetch(`${this.apiUrl}/ticker/24hr`, 40);
+        const data = await response.json();
+
+        return new Map(data.map((ticker: any) => [ticker.symbol.toLowerCase(), {
+            price: parseFloat(ticker.lastPrice),
+            volume: parseFloat(ticker.volume),
+            quoteVolume: parseFloat(ticker.quoteVolume),
+            high: parseFloat(ticker.highPrice),
+            low: parseFloat(ticker.lowPrice),
+        }]));
+    }
+
+    protected async fetchOpenInterest(streamSymbols: string[]): Promise<Map<string, number>> {
+        // One request of weight 1 per symbol; the limiter spaces them out and a failed symbol only loses its own value
+        const results = await Promise.allSettled(streamSymbols.map(async streamSymbol => {
+            const response = await this.rest.fetch(`${this.apiUrl}/openInterest?symbol=${streamSymbol.toUpperCase()}`, 1);
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}`);
+            }
+
+            const data = await response.json();
+            return [streamSymbol, parseFloat(data.openInterest)] as [string, number]; // Base units
+        }));
+
+        const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (failures.length > 0) {
+            this.logger.warn(`⚠️ ${this.displayName} open interest failed for ${failures.length}/${results.length} symbols: ${failures[0].reason.message}`);
+        }
+
+        return new Map(results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []));
+    }
+
+    protected formatSymbolForStream(symbol: string): string {
+        // Convert BTC/USDT-250926 to btcusdt_250926
+        return symbol.replace('/', '').replace('-', '_').toLowerCase();
+    }
+
+    protected getTopics(streamSymbol: string): string[] {
+        const topics = [`${streamSymbol}@ticker`];
+
+        if (this.orderBookEnabled) {
+            // Partial book depth: every message is a fresh top-10 snapshot
+            topics.push(`${streamSymbol}@depth10@500ms`);
+        }
+
+        // Mark and index price; dated contracts carry no funding rate
+        topics.push(`${streamSymbol}@markPrice@1s`);
+
+        if (this.tradeStreamsEnabled) {
+            topics.push(`${streamSymbol}@aggTrade`);
+        }
+
+        return topics;
+    }
+
+    protected buildSubscribeMessages(topics: string[]): object[] {
+        return [{ method: 'SUBSCRIBE', params: topics, id: this.requestId++ }];
+    }
+
+    protected buildUnsubscribeMessages(topics: string[]): object[] {
+        return [{ method: 'UNSUBSCRIBE', params: topics, id: this.requestId++ }];
+    }
+
+    protected handleMessage(message: any): void {
+        // Subscription acknowledgements carry no stream
+        if (!message.stream || !message.data) {
+            return;
+        }
+
+        const [streamSymbol, channel] = message.stream.split('@');
+        const symbol = this.resolveSymbol(streamSymbol);
+
+        if (!symbol) {
+            return;
+        }
+
+        // Every stream payload carries its event time in E
+        const eventTime = message.data.E;
+
+        if (channel === 'ticker') {
+            this.publish(symbol, { ...this.parseTickerData(message.data, symbol), eventTime });
+        } else if (channel.startsWith('depth')) {
+            this.updateOrderBook(symbol, this.parseLevels(message.data.b), this.parseLevels(message.data.a), true, eventTime);
+        } else if (channel === 'markPrice') {
+            this.publish(symbol, {
+                markPrice: parseFloat(message.data.p),
+                indexPrice: parseFloat(message.data.i),
+                eventTime,
+            });
+        } else if (channel === 'aggTrade') {
+            this.publishTrade(symbol, {
+                price: parseFloat(message.data.p),
+                size: parseFloat(message.data.q),
+                side: message.data.m ? 'sell' : 'buy', // m: the buyer was the maker
+                eventTime: message.data.T,
+            });
+        }
+    }
+
+    private parseTickerData(data: any, symbol: string): Partial<PriceData> {
+        return {
+            symbol,
+            price: parseFloat(data.c), // Close price
+            exchange: SupportedExchanges.BINANCE_DELIVERY,
+            timestamp: Date.now(),
+            volume: parseFloat(data.v), // Volume
+            quoteVolume: parseFloat(data.q), // Quote asset volume
+            high: parseFloat(data.h), // High price
+            low: parseFloat(data.l), // Low price
+        };
+    }
+}
\ No newline at end of file
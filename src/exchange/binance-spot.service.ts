@@ -0,0 +1,168 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PriceData, SupportedExchanges, ExchangeSymbol, ExchangeCapabilities, MarketType, ServerTimeSample } from '@/common/types';
+import { BaseExchangeService } from './base-exchange.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { RestRateLimit } from './rest-rate-limiter';
+
+@Injectable()
+export class BinanceSpotService extends BaseExchangeService {
+    readonly name = SupportedExchanges.BINANCE_SPOT;
+    readonly displayName = 'Binance Spot';
+    readonly marketType: MarketType = 'spot';
+    readonly capabilities: ExchangeCapabilities = {
+        tickerStream: true,
+        symbolDiscovery: true,
+        orderBook: true,
+        fundingRates: false, // Spot market, no perpetual funding
+        tradeStream: true,
+    };
+
+    // Same combined stream protocol as the futures endpoint: payloads arrive as { stream, data }
+    protected readonly wsUrl = this.endpoint('WS', 'wss://stream.binance.com:9443/stream', 'wss://stream.testnet.binance.vision/stream');
+    protected readonly maxTopicsPerConnection = 200;
+    protected readonly maxTopicsPerMessage = 100;
+    private readonly apiUrl = this.endpoint('REST', 'https://api.binance.com/api/v3', 'https://testnet.binance.vision/api/v3');
+    // 6000 weight per minute per IP; responses report usage so far in the minute
+    protected readonly restRateLimit: RestRateLimit = { weightLimit: 6000, windowMs: 60000, usedWeightHeader: 'x-mbx-used-weight-1m' };
+    private requestId = 1;
+
+    constructor(
+        configService: ConfigService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+    ) {
+        super(configService);
+        this.exchangeRegistry.register(this);
+    }
+
+    async getSymbols(): Promise<ExchangeSymbol[]> {
+        try {
+            const response = await this.rest.fetch(`${this.apiUrl}/exchangeInfo`, 20);
+            const data = await response.json();
+
+            return data.symbols
+                .filter((symbol: any) => symbol.status === 'TRADING')
+                .map((symbol: any) => {
+                    const filter = (type: string) => symbol.filters?.find((f: any) => f.filterType === type) || {};
+
+                    return {
+                        symbol: `${symbol.baseAsset}/${symbol.quoteAsset}`,
+                        baseAsset: symbol.baseAsset,
+                        quoteAsset: symbol.quoteAsset,
+                        status: symbol.status,
+                        exchange: SupportedExchanges.BINANCE_SPOT,
+                        marketType: this.marketType,
+                        minTradeAmount: parseFloat(filter('LOT_SIZE').minQty || '0'),
+                        tickSize: parseFloat(filter('PRICE_FILTER').tickSize || '0'),
+                        spec: {
+                            contractSize: 1,
+                            tickSize: this.parseOptionalNumber(filter('PRICE_FILTER').tickSize),
+                            lotStep: this.parseOptionalNumber(filter('LOT_SIZE').stepSize),
+                            minQty: this.parseOptionalNumber(filter('LOT_SIZE').minQty),
+                            minNotional: this.parseOptionalNumber(filter('NOTIONAL').minNotional),
+                            maxLeverage: null,
+                            marginAsset: null,
+                            launchTime: null, // Spot exchangeInfo has no listing date
+                            expiryTime: null,
+                        },
+                        lastUpdated: Date.now(),
+                    };
+                });
+        } catch (error) {
+            this.logger.error(`❌ Failed to fetch Binance Spot symbols: ${error.message}`);
+            return [];
+        }
+    }
+
+    async getServerTime(): Promise<ServerTimeSample> {
+        const { response, sentAt, receivedAt } = await this.rest.timedFetch(`${this.apiUrl}/time`);
+        const data = await response.json();
+        return { serverTime: data.serverTime, sentAt, receivedAt };
+    }
+
+    protected async fetchRestTickers(): Promise<Map<string, Partial<PriceData>>> {
+        const response = await this.rest.fetch(`${this.apiUrl}/ticker/24hr`, 80);
+        const data = await response.json();
+
+        return new Map(data.map((ticker: any) => [ticker.symbol.toLowerCase(), {
+            price: parseFloat(ticker.lastPrice),
+            volume: parseFloat(ticker.volume),
+            quoteVolume: parseFloat(ticker.quoteVolume),
+            high: parseFloat(ticker.highPrice),
+            low: parseFloat(ticker.lowPrice),
+            bestBid: parseFloat(ticker.bidPrice),
+            bestBidSize: parseFloat(ticker.bidQty),
+            bestAsk: parseFloat(ticker.askPrice),
+            bestAskSize: parseFloat(ticker.askQty),
+        }]));
+    }
+
+    protected formatSymbolForStream(symbol: string): string {
+        // Convert BTC/USDT to btcusdt
+        return symbol.replace('/', '').toLowerCase();
+    }
+
+    protected getTopics(streamSymbol: string): string[] {
+        const topics = [`${streamSymbol}@ticker`];
+
+        if (this.orderBookEnabled) {
+            // Partial book depth: every message is a fresh top-10 snapshot
+            topics.push(`${streamSymbol}@depth10@100ms`);
+        }
+
+        if (this.tradeStreamsEnabled) {
+            topics.push(`${streamSymbol}@aggTrade`);
+        }
+
+        return topics;
+    }
+
+    protected buildSubscribeMessages(topics: string[]): object[] {
+        return [{ method: 'SUBSCRIBE', params: topics, id: this.requestId++ }];
+    }
+
+    protected buildUnsubscribeMessages(topics: string[]): object[] {
+        return [{ method: 'UNSUBSCRIBE', params: topics, id: this.requestId++ }];
+    }
+
+    protected handleMessage(message: any): void {
+        // Subscription acknowledgements carry no stream
+        if (!message.stream || !message.data) {
+            return;
+        }
+
+        const [streamSymbol, channel] = message.stream.split('@');
+        const symbol = this.resolveSymbol(streamSymbol);
+
+        if (!symbol) {
+            return;
+        }
+
+        if (channel === 'ticker') {
+            this.publish(symbol, { ...this.parseTickerData(message.data, symbol), eventTime: message.data.E });
+        } else if (channel.startsWith('depth')) {
+            // Spot partial depth has no event time and names its sides bids/asks
+            this.updateOrderBook(symbol, this.parseLevels(message.data.bids), this.parseLevels(message.data.asks), true);
+        } else if (channel === 'aggTrade') {
+            this.publishTrade(symbol, {
+                price: parseFloat(message.data.p),
+                size: parseFloat(message.data.q),
+                side: message.data.m ? 'sell' : 'buy', // m: the buyer was the maker
+                eventTime: message.data.T,
+            });
+        }
+    }
+
+    private parseTickerData(data: any, symbol: string): Partial<PriceData> {
+        return {
+            symbol,
+            price: parseFloat(data.c), // Close price
+            exchange: SupportedExchanges.BINANCE_SPOT,
+            timestamp: Date.now(),
+            volume: parseFloat(data.v), // Volume
+            quoteVolume: parseFloat(data.q), // Quote asset volume
+            high: parseFloat(data.h), // High price
+            low: parseFloat(data.l), // Low price
+        };
+    }
+}
\ No newline at end of file
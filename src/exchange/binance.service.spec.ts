@@ -0,0 +1,71 @@
+import { ConfigService } from '@nestjs/config';
+import { BinanceService } from './binance.service';
+import { BinanceDeliveryService } from './binance-delivery.service';
+import { ExchangeRegistry } from './exchange.registry';
+
+// Exposes the open interest poll's fetch without starting the poll timer
+class TestBinanceService extends BinanceService {
+    fetchOpenInterestFor(streamSymbols: string[]): Promise<Map<string, number>> {
+        return this.fetchOpenInterest(streamSymbols);
+    }
+}
+
+describe('BinanceService', () => {
+    let service: TestBinanceService;
+    let registry: ExchangeRegistry;
+    let fetchMock: jest.SpyInstance;
+
+    beforeEach(() => {
+        const configService = new ConfigService({ BINANCE_REST_URL: 'http://binance.test/fapi/v1' });
+        registry = new ExchangeRegistry(configService);
+        service = new TestBinanceService(configService, registry);
+        fetchMock = jest.spyOn(global, 'fetch');
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('fetchOpenInterest', () => {
+        const openInterestResponse = (url: string) => {
+            const symbol = new URL(url).searchParams.get('symbol');
+
+            if (symbol === 'ETHUSDT') {
+                return new Response(JSON.stringify({ code: -1121, msg: 'Invalid symbol.' }), { status: 400 });
+            }
+            if (symbol === 'SOLUSDT') {
+                return new Response('not json');
+            }
+            return new Response(JSON.stringify({ symbol, openInterest: '20.5', time: Date.now() }));
+        };
+
+        it('keeps the open interest of every symbol that answered', async () => {
+            fetchMock.mockImplementation(async (url: string) => openInterestResponse(url));
+
+            const openInterest = await service.fetchOpenInterestFor(['btcusdt', 'ethusdt', 'solusdt', 'xrpusdt']);
+
+            expect(fetchMock).toHaveBeenCalledTimes(4);
+            expect(fetchMock).toHaveBeenCalledWith('http://binance.test/fapi/v1/openInterest?symbol=BTCUSDT', undefined);
+            expect(openInterest).toEqual(new Map([['btcusdt', 20.5], ['xrpusdt', 20.5]]));
+        });
+
+        it('returns nothing rather than failing once the venue rate limits the poll', async () => {
+            fetchMock.mockImplementation(async () => new Response('', { status: 429, headers: { 'retry-after': '60' } }));
+
+            await expect(service.fetchOpenInterestFor(['btcusdt', 'ethusdt'])).resolves.toEqual(new Map());
+            expect(service.getStatus().rateLimit).toMatchObject({ throttled: 2 });
+        });
+    });
+
+    it('shares one fapi weight budget with the quarterly futures', async () => {
+        const delivery = new BinanceDeliveryService(new ConfigService({ BINANCE_DELIVERY_REST_URL: 'http://binance.test/fapi/v1' }), registry);
+        fetchMock.mockImplementation(async () => new Response('', { status: 429, headers: { 'retry-after': '60' } }));
+
+        await service.fetchOpenInterestFor(['btcusdt']);
+
+        // The perpetuals' ban pauses the quarterlies' calls too, without another request
+        await expect(delivery.getSymbols()).resolves.toEqual([]);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(delivery.getStatus().rateLimit).toEqual(service.getStatus().rateLimit);
+    });
+});
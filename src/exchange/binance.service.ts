@@ -1,162 +1,241 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import * as WebSocket from 'ws';
-import { PriceData, SupportedExchanges, ExchangeSymbol } from '@/common/types';
+import { PriceData, SupportedExchanges, ExchangeSymbol, ExchangeCapabilities, FundingRate, ServerTimeSample } from '@/common/types';
+import { BaseExchangeService } from './base-exchange.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { RestRateLimit, RestRateLimiter } from './rest-rate-limiter';
+
+// Perpetuals and quarterlies both trade on fapi and draw on its one per-IP weight budget
+export const BINANCE_FAPI_RATE_LIMIT = 'binance-fapi';
 
 @Injectable()
-export class BinanceService {
-    private readonly logger = new Logger(BinanceService.name);
-    private readonly baseUrl = 'wss://fstream.binance.com/ws/';
-    private readonly apiUrl = 'https://fapi.binance.com/fapi/v1';
-    private readonly connections = new Map<string, WebSocket>();
-    private readonly subscriptions = new Map<string, (data: PriceData) => void>();
-    private isInitialized = false;
-
-    constructor(private readonly configService: ConfigService) { }
-
-    async initialize(): Promise<void> {
-        this.logger.log('🔄 Initializing Binance service...');
-        this.isInitialized = true;
-        this.logger.log('✅ Binance service initialized');
+export class BinanceService extends BaseExchangeService {
+    readonly name = SupportedExchanges.BINANCE;
+    readonly displayName = 'Binance';
+    readonly capabilities: ExchangeCapabilities = {
+        tickerStream: true,
+        symbolDiscovery: true,
+        orderBook: true,
+        fundingRates: true,
+        tradeStream: true,
+    };
+
+    // Combined stream endpoint wraps every payload as { stream, data }
+    protected readonly wsUrl = this.endpoint('WS', 'wss://fstream.binance.com/stream', 'wss://stream.binancefuture.com/stream');
+    protected readonly maxTopicsPerConnection = 200;
+    protected readonly maxTopicsPerMessage = 100;
+    private readonly apiUrl = this.endpoint('REST', 'https://fapi.binance.com/fapi/v1', 'https://testnet.binancefuture.com/fapi/v1');
+    // 2400 weight per minute per IP; responses report usage so far in the minute
+    protected readonly restRateLimit: RestRateLimit = { weightLimit: 2400, windowMs: 60000, usedWeightHeader: 'x-mbx-used-weight-1m' };
+    protected readonly pollsOpenInterest = true; // No open interest stream, only a per-symbol endpoint
+    private requestId = 1;
+
+    constructor(
+        configService: ConfigService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+    ) {
+        super(configService);
+        this.exchangeRegistry.register(this);
     }
 
-    async disconnect(): Promise<void> {
-        this.logger.log('🔄 Disconnecting from Binance...');
+    protected createRestRateLimiter(): RestRateLimiter {
+        return this.exchangeRegistry.getSharedRateLimiter(BINANCE_FAPI_RATE_LIMIT, () => super.createRestRateLimiter());
+    }
 
-        for (const [symbol, ws] of this.connections) {
-            try {
-                if (ws.readyState === WebSocket.OPEN) {
-                    ws.close();
-                }
-            } catch (error) {
-                this.logger.error(`❌ Error closing WebSocket for ${symbol}: ${error.message}`);
-            }
+    async getSymbols(): Promise<ExchangeSymbol[]> {
+        try {
+            const response = await this.rest.fetch(`${this.apiUrl}/exchangeInfo`);
+            const data = await response.json();
+
+            // Quarterly contracts share exchangeInfo; BinanceDeliveryService covers them
+            return data.symbols
+                .filter((symbol: any) => symbol.status === 'TRADING' && symbol.contractType === 'PERPETUAL')
+                .map((symbol: any) => {
+                    const filter = (type: string) => symbol.filters?.find((f: any) => f.filterType === type) || {};
+
+                    return {
+                        symbol: `${symbol.baseAsset}/${symbol.quoteAsset}`,
+                        baseAsset: symbol.baseAsset,
+                        quoteAsset: symbol.quoteAsset,
+                        status: symbol.status,
+                        exchange: SupportedExchanges.BINANCE,
+                        marketType: this.marketType,
+                        minTradeAmount: parseFloat(filter('LOT_SIZE').minQty || '0'),
+                        tickSize: parseFloat(filter('PRICE_FILTER').tickSize || '0'),
+                        spec: {
+                            contractSize: 1,
+                            tickSize: this.parseOptionalNumber(filter('PRICE_FILTER').tickSize),
+                            lotStep: this.parseOptionalNumber(filter('LOT_SIZE').stepSize),
+                            minQty: this.parseOptionalNumber(filter('LOT_SIZE').minQty),
+                            minNotional: this.parseOptionalNumber(filter('MIN_NOTIONAL').notional),
+                            maxLeverage: null, // Only available from the signed leverage bracket endpoint
+                            marginAsset: symbol.marginAsset || null,
+                            launchTime: this.parseOptionalNumber(symbol.onboardDate),
+                            expiryTime: null,
+                        },
+                        lastUpdated: Date.now(),
+                    };
+                });
+        } catch (error) {
+            this.logger.error(`❌ Failed to fetch Binance symbols: ${error.message}`);
+            return [];
         }
+    }
 
-        this.connections.clear();
-        this.subscriptions.clear();
-        this.isInitialized = false;
+    async getFundingRates(): Promise<FundingRate[]> {
+        try {
+            const [premiumIndexResponse, fundingInfoResponse] = await Promise.all([
+                this.rest.fetch(`${this.apiUrl}/premiumIndex`, 10),
+                this.rest.fetch(`${this.apiUrl}/fundingInfo`),
+            ]);
+            const premiumIndex = await premiumIndexResponse.json();
+            const fundingInfo = await fundingInfoResponse.json();
+
+            // fundingInfo only lists symbols with a non-default interval
+            const intervals = new Map<string, number>(
+                fundingInfo.map((info: any) => [info.symbol, info.fundingIntervalHours])
+            );
+
+            return premiumIndex
+                .filter((item: any) => this.resolveSymbol(item.symbol.toLowerCase()))
+                .map((item: any) => ({
+                    symbol: this.resolveSymbol(item.symbol.toLowerCase()),
+                    exchange: SupportedExchanges.BINANCE,
+                    fundingRate: parseFloat(item.lastFundingRate),
+                    nextFundingTime: item.nextFundingTime,
+                    fundingIntervalHours: intervals.get(item.symbol) || 8,
+                    timestamp: Date.now(),
+                }));
+        } catch (error) {
+            this.logger.error(`❌ Failed to fetch Binance funding rates: ${error.message}`);
+            return [];
+        }
+    }
 
-        this.logger.log('✅ Disconnected from Binance');
+    async getServerTime(): Promise<ServerTimeSample> {
+        const { response, sentAt, receivedAt } = await this.rest.timedFetch(`${this.apiUrl}/time`);
+        const data = await response.json();
+        return { serverTime: data.serverTime, sentAt, receivedAt };
     }
 
-    async subscribeToTicker(symbol: string, callback: (data: PriceData) => void): Promise<void> {
-        if (!this.isInitialized) {
-            throw new Error('Binance service not initialized');
-        }
+    protected async fetchRestTickers(): Promise<Map<string, Partial<PriceData>>> {
+        const response = await this.rest.fetch(`${this.apiUrl}/ticker/24hr`, 40);
+        const data = await response.json();
+
+        return new Map(data.map((ticker: any) => [ticker.symbol.toLowerCase(), {
+            price: parseFloat(ticker.lastPrice),
+            volume: parseFloat(ticker.volume),
+            quoteVolume: parseFloat(ticker.quoteVolume),
+            high: parseFloat(ticker.highPrice),
+            low: parseFloat(ticker.lowPrice),
+        }]));
+    }
 
-        const streamSymbol = this.formatSymbolForStream(symbol);
-        const streamName = `${streamSymbol}@ticker`;
+    protected async fetchOpenInterest(streamSymbols: string[]): Promise<Map<string, number>> {
+        // One request of weight 1 per symbol; the limiter spaces them out and a failed symbol only loses its own value
+        const results = await Promise.allSettled(streamSymbols.map(async streamSymbol => {
+            const response = await this.rest.fetch(`${this.apiUrl}/openInterest?symbol=${streamSymbol.toUpperCase()}`, 1);
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}`);
+            }
 
-        this.logger.log(`📡 Subscribing to Binance ticker: ${streamName}`);
+            const data = await response.json();
+            return [streamSymbol, parseFloat(data.openInterest)] as [string, number]; // Base units
+        }));
 
-        try {
-            const ws = new WebSocket(`${this.baseUrl}${streamName}`);
+        const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (failures.length > 0) {
+            this.logger.warn(`⚠️ ${this.displayName} open interest failed for ${failures.length}/${results.length} symbols: ${failures[0].reason.message}`);
+        }
 
-            ws.on('open', () => {
-                this.logger.log(`✅ Connected to Binance WebSocket for ${symbol}`);
-                this.connections.set(symbol, ws);
-                this.subscriptions.set(symbol, callback);
-            });
+        return new Map(results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []));
+    }
 
-            ws.on('message', (data: Buffer) => {
-                try {
-                    const message = JSON.parse(data.toString());
-                    const priceData = this.parseTickerData(message, symbol);
-                    callback(priceData);
-                } catch (error) {
-                    this.logger.error(`❌ Error parsing Binance ticker data: ${error.message}`);
-                }
-            });
+    protected formatSymbolForStream(symbol: string): string {
+        // Convert BTC/USDT to btcusdt
+        return symbol.replace('/', '').toLowerCase();
+    }
 
-            ws.on('error', (error) => {
-                this.logger.error(`❌ Binance WebSocket error for ${symbol}: ${error.message}`);
-            });
+    protected getTopics(streamSymbol: string): string[] {
+        const topics = [`${streamSymbol}@ticker`];
 
-            ws.on('close', (code, reason) => {
-                this.logger.warn(`⚠️ Binance WebSocket closed for ${symbol}: ${code} - ${reason}`);
-                this.connections.delete(symbol);
+        if (this.orderBookEnabled) {
+            // Partial book depth: every message is a fresh top-10 snapshot
+            topics.push(`${streamSymbol}@depth10@500ms`);
+        }
 
-                // Attempt to reconnect after a delay
-                setTimeout(() => {
-                    this.reconnectTicker(symbol, callback);
-                }, 5000);
-            });
+        // Mark price stream carries mark, index, current funding rate and next funding time
+        topics.push(`${streamSymbol}@markPrice@1s`);
 
-        } catch (error) {
-            this.logger.error(`❌ Failed to subscribe to Binance ticker ${symbol}: ${error.message}`);
-            throw error;
+        if (this.tradeStreamsEnabled) {
+            // Aggregate trades: fills of one taker order at one price arrive as a single print
+            topics.push(`${streamSymbol}@aggTrade`);
         }
+
+        return topics;
     }
 
-    async getSymbols(): Promise<ExchangeSymbol[]> {
-        try {
-            const response = await fetch(`${this.apiUrl}/exchangeInfo`);
-            const data = await response.json();
+    protected buildSubscribeMessages(topics: string[]): object[] {
+        return [{ method: 'SUBSCRIBE', params: topics, id: this.requestId++ }];
+    }
 
-            return data.symbols
-                .filter((symbol: any) => symbol.status === 'TRADING')
-                .map((symbol: any) => ({
-                    symbol: `${symbol.baseAsset}/${symbol.quoteAsset}`,
-                    baseAsset: symbol.baseAsset,
-                    quoteAsset: symbol.quoteAsset,
-                    status: symbol.status,
-                    exchange: SupportedExchanges.BINANCE,
-                    minTradeAmount: parseFloat(symbol.filters?.find((f: any) => f.filterType === 'LOT_SIZE')?.minQty || '0'),
-                    tickSize: parseFloat(symbol.filters?.find((f: any) => f.filterType === 'PRICE_FILTER')?.tickSize || '0'),
-                    lastUpdated: Date.now(),
-                }));
-        } catch (error) {
-            this.logger.error(`❌ Failed to fetch Binance symbols: ${error.message}`);
-            return [];
-        }
+    protected buildUnsubscribeMessages(topics: string[]): object[] {
+        return [{ method: 'UNSUBSCRIBE', params: topics, id: this.requestId++ }];
     }
 
-    private async reconnectTicker(symbol: string, callback: (data: PriceData) => void): Promise<void> {
-        if (!this.isInitialized || this.connections.has(symbol)) {
+    protected handleMessage(message: any): void {
+        // Subscription acknowledgements carry no stream
+        if (!message.stream || !message.data) {
             return;
         }
 
-        this.logger.log(`🔄 Reconnecting to Binance ticker: ${symbol}`);
-
-        try {
-            await this.subscribeToTicker(symbol, callback);
-        } catch (error) {
-            this.logger.error(`❌ Failed to reconnect to Binance ticker ${symbol}: ${error.message}`);
+        const [streamSymbol, channel] = message.stream.split('@');
+        const symbol = this.resolveSymbol(streamSymbol);
 
-            // Retry after a longer delay
-            setTimeout(() => {
-                this.reconnectTicker(symbol, callback);
-            }, 30000);
+        if (!symbol) {
+            return;
         }
-    }
 
-    private formatSymbolForStream(symbol: string): string {
-        // Convert BTC/USDT to btcusdt
-        return symbol.replace('/', '').toLowerCase();
+        // Every stream payload carries its event time in E
+        const eventTime = message.data.E;
+
+        if (channel === 'ticker') {
+            this.publish(symbol, { ...this.parseTickerData(message.data, symbol), eventTime });
+        } else if (channel.startsWith('depth')) {
+            this.updateOrderBook(symbol, this.parseLevels(message.data.b), this.parseLevels(message.data.a), true, eventTime);
+        } else if (channel === 'markPrice') {
+            this.publish(symbol, {
+                markPrice: parseFloat(message.data.p),
+                indexPrice: parseFloat(message.data.i),
+                eventTime,
+            });
+
+            if (this.fundingStreamsEnabled) {
+                this.publishFunding(symbol, {
+                    fundingRate: parseFloat(message.data.r),
+                    nextFundingTime: message.data.T,
+                });
+            }
+        } else if (channel === 'aggTrade') {
+            this.publishTrade(symbol, {
+                price: parseFloat(message.data.p),
+                size: parseFloat(message.data.q),
+                side: message.data.m ? 'sell' : 'buy', // m: the buyer was the maker
+                eventTime: message.data.T,
+            });
+        }
     }
 
-    private parseTickerData(data: any, symbol: string): PriceData {
+    private parseTickerData(data: any, symbol: string): Partial<PriceData> {
         return {
             symbol,
             price: parseFloat(data.c), // Close price
             exchange: SupportedExchanges.BINANCE,
             timestamp: Date.now(),
             volume: parseFloat(data.v), // Volume
+            quoteVolume: parseFloat(data.q), // Quote asset volume
             high: parseFloat(data.h), // High price
             low: parseFloat(data.l), // Low price
         };
     }
-
-    isConnected(): boolean {
-        return this.isInitialized && this.connections.size > 0;
-    }
-
-    getConnectionCount(): number {
-        return this.connections.size;
-    }
-
-    getConnectedSymbols(): string[] {
-        return Array.from(this.connections.keys());
-    }
-} 
\ No newline at end of file
+}
\ No newline at end of file
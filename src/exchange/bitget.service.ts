@@ -0,0 +1,239 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PriceData, SupportedExchanges, ExchangeSymbol, ExchangeCapabilities, FundingRate, ServerTimeSample } from '@/common/types';
+import { BaseExchangeService } from './base-exchange.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { RestRateLimit } from './rest-rate-limiter';
+import { WsHeartbeat } from './ws-connection-pool';
+
+@Injectable()
+export class BitgetService extends BaseExchangeService {
+    readonly name = SupportedExchanges.BITGET;
+    readonly displayName = 'Bitget';
+    readonly capabilities: ExchangeCapabilities = {
+        tickerStream: true,
+        symbolDiscovery: true,
+        orderBook: true,
+        fundingRates: true,
+        tradeStream: true,
+    };
+
+    protected readonly wsUrl = this.endpoint('WS', 'wss://ws.bitget.com/v2/ws/public');
+    protected readonly maxTopicsPerConnection = 50; // Bitget recommends under 50 channels per connection
+    protected readonly maxTopicsPerMessage = 40; // Keeps subscribe requests under the 4096 byte limit
+    private readonly apiUrl = this.endpoint('REST', 'https://api.bitget.com/api/v2/mix');
+    protected readonly restRateLimit: RestRateLimit = { weightLimit: 20, windowMs: 1000 }; // 20 requests per second per IP
+    private readonly productType = 'USDT-FUTURES';
+    protected readonly heartbeat: WsHeartbeat = {
+        buildPing: () => 'ping', // Answered with a bare "pong"; Bitget drops sockets without pings for 2 minutes
+    };
+    private readonly fundingIntervals = new Map<string, number>(); // BTCUSDT -> hours
+
+    constructor(
+        configService: ConfigService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+    ) {
+        super(configService);
+        this.exchangeRegistry.register(this);
+    }
+
+    async getSymbols(): Promise<ExchangeSymbol[]> {
+        try {
+            const response = await this.rest.fetch(`${this.apiUrl}/market/contracts?productType=${this.productType}`);
+            const data = await response.json();
+
+            if (data.code !== '00000') {
+                throw new Error(`Bitget API error: ${data.msg}`);
+            }
+
+            for (const contract of data.data) {
+                if (contract.fundInterval) {
+                    this.fundingIntervals.set(contract.symbol, parseFloat(contract.fundInterval));
+                }
+            }
+
+            return data.data
+                .filter((contract: any) => contract.symbolStatus === 'normal')
+                .map((contract: any) => {
+                    const pricePrecision = parseInt(contract.pricePlace);
+                    const sizePrecision = parseInt(contract.volumePlace);
+                    // Price steps are priceEndStep units of the last price decimal
+                    const tickSize = parseFloat(contract.priceEndStep || '1') * Math.pow(10, -pricePrecision);
+
+                    return {
+                        symbol: `${contract.baseCoin}/${contract.quoteCoin}`,
+                        baseAsset: contract.baseCoin,
+                        quoteAsset: contract.quoteCoin,
+                        status: 'TRADING',
+                        exchange: SupportedExchanges.BITGET,
+                        marketType: this.marketType,
+                        minTradeAmount: parseFloat(contract.minTradeNum || '0'),
+                        tickSize,
+                        pricePrecision,
+                        sizePrecision,
+                        spec: {
+                            contractSize: 1,
+                            tickSize,
+                            lotStep: this.parseOptionalNumber(contract.sizeMultiplier),
+                            minQty: this.parseOptionalNumber(contract.minTradeNum),
+                            minNotional: this.parseOptionalNumber(contract.minTradeUSDT),
+                            maxLeverage: this.parseOptionalNumber(contract.maxLever),
+                            marginAsset: contract.supportMarginCoins?.[0] || null,
+                            launchTime: this.parseOptionalNumber(contract.launchTime),
+                            expiryTime: null,
+                        },
+                        lastUpdated: Date.now(),
+                    };
+                });
+        } catch (error) {
+            this.logger.error(`❌ Failed to fetch Bitget symbols: ${error.message}`);
+            return [];
+        }
+    }
+
+    async getFundingRates(): Promise<FundingRate[]> {
+        try {
+            const response = await this.rest.fetch(`${this.apiUrl}/market/tickers?productType=${this.productType}`);
+            const data = await response.json();
+
+            if (data.code !== '00000') {
+                throw new Error(`Bitget API error: ${data.msg}`);
+            }
+
+            return data.data
+                .filter((ticker: any) => this.resolveSymbol(ticker.symbol) && ticker.fundingRate)
+                .map((ticker: any) => ({
+                    symbol: this.resolveSymbol(ticker.symbol),
+                    exchange: SupportedExchanges.BITGET,
+                    fundingRate: parseFloat(ticker.fundingRate),
+                    fundingIntervalHours: this.fundingIntervals.get(ticker.symbol) || 8,
+                    timestamp: Date.now(),
+                }));
+        } catch (error) {
+            this.logger.error(`❌ Failed to fetch Bitget funding rates: ${error.message}`);
+            return [];
+        }
+    }
+
+    async getServerTime(): Promise<ServerTimeSample> {
+        // Server time lives under /api/v2/public, next to the mix endpoints
+        const { response, sentAt, receivedAt } = await this.rest.timedFetch(`${this.apiUrl.replace(/\/mix$/, '/public')}/time`);
+        const data = await response.json();
+
+        if (data.code !== '00000') {
+            throw new Error(`Bitget API error: ${data.msg}`);
+        }
+
+        return { serverTime: parseInt(data.data.serverTime), sentAt, receivedAt };
+    }
+
+    protected async fetchRestTickers(): Promise<Map<string, Partial<PriceData>>> {
+        const response = await this.rest.fetch(`${this.apiUrl}/market/tickers?productType=${this.productType}`);
+        const data = await response.json();
+
+        if (data.code !== '00000') {
+            throw new Error(`Bitget API error: ${data.msg}`);
+        }
+
+        return new Map(data.data.map((ticker: any) => [ticker.symbol, {
+            ...this.parseTickerData(ticker, ticker.symbol),
+            bestBid: parseFloat(ticker.bidPr),
+            bestBidSize: parseFloat(ticker.bidSz),
+            bestAsk: parseFloat(ticker.askPr),
+            bestAskSize: parseFloat(ticker.askSz),
+        }]));
+    }
+
+    protected formatSymbolForStream(symbol: string): string {
+        // Convert BTC/USDT to BTCUSDT
+        return symbol.replace('/', '');
+    }
+
+    protected getTopics(streamSymbol: string): string[] {
+        // Topics are "<channel>:<instId>"
+        const topics = [`ticker:${streamSymbol}`];
+
+        if (this.orderBookEnabled) {
+            topics.push(`books5:${streamSymbol}`);
+        }
+
+        if (this.tradeStreamsEnabled) {
+            topics.push(`trade:${streamSymbol}`);
+        }
+
+        return topics;
+    }
+
+    protected buildSubscribeMessages(topics: string[]): object[] {
+        return [{ op: 'subscribe', args: topics.map(topic => this.toChannelArg(topic)) }];
+    }
+
+    protected buildUnsubscribeMessages(topics: string[]): object[] {
+        return [{ op: 'unsubscribe', args: topics.map(topic => this.toChannelArg(topic)) }];
+    }
+
+    protected handleMessage(message: any): void {
+        if (message.event === 'error') {
+            this.logger.error(`❌ Bitget subscription error: ${message.code} - ${message.msg}`);
+            return;
+        }
+
+        // Subscription acknowledgements carry no data
+        if (!message.arg || !Array.isArray(message.data)) {
+            return;
+        }
+
+        const symbol = this.resolveSymbol(message.arg.instId);
+
+        if (!symbol) {
+            return;
+        }
+
+        for (const data of message.data) {
+            const eventTime = parseInt(data.ts);
+
+            if (message.arg.channel === 'ticker') {
+                this.publish(symbol, { ...this.parseTickerData(data, symbol), eventTime });
+
+                if (this.fundingStreamsEnabled) {
+                    this.publishFunding(symbol, {
+                        fundingRate: parseFloat(data.fundingRate),
+                        nextFundingTime: parseInt(data.nextFundingTime),
+                        fundingIntervalHours: this.fundingIntervals.get(message.arg.instId),
+                    });
+                }
+            } else if (message.arg.channel === 'books5') {
+                // books5 pushes a full five-level snapshot every time
+                this.updateOrderBook(symbol, this.parseLevels(data.bids), this.parseLevels(data.asks), true, eventTime);
+            } else if (message.arg.channel === 'trade') {
+                this.publishTrade(symbol, {
+                    price: parseFloat(data.price),
+                    size: parseFloat(data.size),
+                    side: data.side === 'sell' ? 'sell' : 'buy',
+                    eventTime,
+                });
+            }
+        }
+    }
+
+    private toChannelArg(topic: string): { instType: string; channel: string; instId: string } {
+        const [channel, instId] = topic.split(':');
+        return { instType: this.productType, channel, instId };
+    }
+
+    private parseTickerData(data: any, symbol: string): Partial<PriceData> {
+        return {
+            symbol,
+            price: parseFloat(data.lastPr), // Last price
+            exchange: SupportedExchanges.BITGET,
+            timestamp: Date.now(),
+            markPrice: parseFloat(data.markPrice),
+            indexPrice: parseFloat(data.indexPrice),
+            volume: parseFloat(data.baseVolume || '0'), // 24h volume
+            quoteVolume: parseFloat(data.quoteVolume),
+            openInterest: parseFloat(data.holdingAmount), // In base units
+            high: parseFloat(data.high24h || '0'), // 24h high
+            low: parseFloat(data.low24h || '0'), // 24h low
+        };
+    }
+}
\ No newline at end of file
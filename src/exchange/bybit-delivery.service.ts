@@ -0,0 +1,206 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PriceData, SupportedExchanges, ExchangeSymbol, ExchangeCapabilities, MarketType, ServerTimeSample } from '@/common/types';
+import { BaseExchangeService } from './base-exchange.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { RestRateLimit } from './rest-rate-limiter';
+import { WsHeartbeat } from './ws-connection-pool';
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * ByBit USDT-settled dated futures, listed in the linear category next to
+ * the perpetuals as BTCUSDT-26SEP25 style symbols.
+ */
+@Injectable()
+export class BybitDeliveryService extends BaseExchangeService {
+    readonly name = SupportedExchanges.BYBIT_DELIVERY;
+    readonly displayName = 'ByBit Delivery';
+    readonly marketType: MarketType = 'delivery';
+    readonly capabilities: ExchangeCapabilities = {
+        tickerStream: true,
+        symbolDiscovery: true,
+        orderBook: true,
+        fundingRates: false, // Dated contracts converge at delivery instead of paying funding
+        tradeStream: true,
+    };
+
+    protected readonly wsUrl = this.endpoint('WS', 'wss://stream.bybit.com/v5/public/linear', 'wss://stream-testnet.bybit.com/v5/public/linear');
+    protected readonly maxTopicsPerConnection = 200;
+    protected readonly maxTopicsPerMessage = 10; // ByBit caps args per subscribe request
+    private readonly apiUrl = this.endpoint('REST', 'https://api.bybit.com/v5', 'https://api-testnet.bybit.com/v5');
+    protected readonly restRateLimit: RestRateLimit = { weightLimit: 600, windowMs: 5000 }; // 600 requests per 5s per IP
+    protected readonly heartbeat: WsHeartbeat = {
+        buildPing: () => ({ op: 'ping' }),
+        isPong: (message) => message.op === 'pong' || message.ret_msg === 'pong',
+    };
+    private readonly contractSymbols = new Map<string, string>(); // BTC/USDT-250926 -> BTCUSDT-26SEP25
+
+    constructor(
+        configService: ConfigService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+    ) {
+        super(configService);
+        this.exchangeRegistry.register(this);
+    }
+
+    async getSymbols(): Promise<ExchangeSymbol[]> {
+        try {
+            const response = await this.rest.fetch(`${this.apiUrl}/market/instruments-info?category=linear`);
+            const data = await response.json();
+
+            if (data.retCode !== 0) {
+                throw new Error(`ByBit API error: ${data.retMsg}`);
+            }
+
+            return data.result.list
+                .filter((symbol: any) => symbol.status === 'Trading' && symbol.contractType === 'LinearFutures')
+                .map((symbol: any) => {
+                    const datedSymbol = this.formatDatedSymbol(symbol.baseCoin, symbol.quoteCoin, parseInt(symbol.deliveryTime));
+                    this.contractSymbols.set(datedSymbol, symbol.symbol);
+
+                    return {
+                        symbol: datedSymbol,
+                        baseAsset: symbol.baseCoin,
+                        quoteAsset: symbol.quoteCoin,
+                        status: symbol.status,
+                        exchange: SupportedExchanges.BYBIT_DELIVERY,
+                        marketType: this.marketType,
+                        minTradeAmount: parseFloat(symbol.lotSizeFilter?.minOrderQty || '0'),
+                        tickSize: parseFloat(symbol.priceFilter?.tickSize || '0'),
+                        spec: {
+                            contractSize: 1,
+                            tickSize: this.parseOptionalNumber(symbol.priceFilter?.tickSize),
+                            lotStep: this.parseOptionalNumber(symbol.lotSizeFilter?.qtyStep),
+                            minQty: this.parseOptionalNumber(symbol.lotSizeFilter?.minOrderQty),
+                            minNotional: this.parseOptionalNumber(symbol.lotSizeFilter?.minNotionalValue),
+                            maxLeverage: this.parseOptionalNumber(symbol.leverageFilter?.maxLeverage),
+                            marginAsset: symbol.settleCoin || null,
+                            launchTime: this.parseOptionalNumber(symbol.launchTime),
+                            expiryTime: parseInt(symbol.deliveryTime),
+                        },
+                        lastUpdated: Date.now(),
+                    };
+                });
+        } catch (error) {
+            this.logger.error(`❌ Failed to fetch ByBit Delivery symbols: ${error.message}`);
+            return [];
+        }
+    }
+
+    async getServerTime(): Promise<ServerTimeSample> {
+        const { response, sentAt, receivedAt } = await this.rest.timedFetch(`${this.apiUrl}/market/time`);
+        const data = await response.json();
+
+        if (data.retCode !== 0) {
+            throw new Error(`ByBit API error: ${data.retMsg}`);
+        }
+
+        return { serverTime: Math.floor(parseInt(data.result.timeNano) / 1e6), sentAt, receivedAt };
+    }
+
+    protected async fetchRestTickers(): Promise<Map<string, Partial<PriceData>>> {
+        const response = await this.rest.fetch(`${this.apiUrl}/market/tickers?category=linear`);
+        const data = await response.json();
+
+        if (data.retCode !== 0) {
+            throw new Error(`ByBit API error: ${data.retMsg}`);
+        }
+
+        return new Map(data.result.list.map((ticker: any) => [ticker.symbol, {
+            ...this.parseTickerData(ticker, ticker.symbol),
+            bestBid: parseFloat(ticker.bid1Price),
+            bestBidSize: parseFloat(ticker.bid1Size),
+            bestAsk: parseFloat(ticker.ask1Price),
+            bestAskSize: parseFloat(ticker.ask1Size),
+        }]));
+    }
+
+    protected formatSymbolForStream(symbol: string): string {
+        // Convert BTC/USDT-250926 to BTCUSDT-26SEP25, as listed where discovery has seen it
+        if (this.contractSymbols.has(symbol)) {
+            return this.contractSymbols.get(symbol)!;
+        }
+
+        const [pair, expiry] = symbol.split('-');
+        const month = MONTHS[parseInt(expiry.slice(2, 4)) - 1];
+        return `${pair.replace('/', '')}-${expiry.slice(4, 6)}${month}${expiry.slice(0, 2)}`;
+    }
+
+    protected getTopics(streamSymbol: string): string[] {
+        const topics = [`tickers.${streamSymbol}`];
+
+        if (this.orderBookEnabled) {
+            topics.push(`orderbook.50.${streamSymbol}`);
+        }
+
+        if (this.tradeStreamsEnabled) {
+            topics.push(`publicTrade.${streamSymbol}`);
+        }
+
+        return topics;
+    }
+
+    protected buildSubscribeMessages(topics: string[]): object[] {
+        return [{ op: 'subscribe', args: topics }];
+    }
+
+    protected buildUnsubscribeMessages(topics: string[]): object[] {
+        return [{ op: 'unsubscribe', args: topics }];
+    }
+
+    protected handleMessage(message: any): void {
+        if (!message.topic || !message.data) {
+            return;
+        }
+
+        if (message.topic.startsWith('tickers.')) {
+            const symbol = this.resolveSymbol(message.topic.slice('tickers.'.length));
+
+            if (symbol) {
+                // Delta messages only carry changed fields; publish() keeps the rest
+                this.publish(symbol, { ...this.parseTickerData(message.data, symbol), eventTime: message.ts });
+            }
+        } else if (message.topic.startsWith('orderbook.')) {
+            const symbol = this.resolveSymbol(message.data.s);
+
+            if (symbol) {
+                this.updateOrderBook(
+                    symbol,
+                    this.parseLevels(message.data.b),
+                    this.parseLevels(message.data.a),
+                    message.type === 'snapshot',
+                    message.ts
+                );
+            }
+        } else if (message.topic.startsWith('publicTrade.')) {
+            const symbol = this.resolveSymbol(message.topic.slice('publicTrade.'.length));
+
+            // Each message batches the trades since the last push
+            for (const trade of symbol ? message.data : []) {
+                this.publishTrade(symbol, {
+                    price: parseFloat(trade.p),
+                    size: parseFloat(trade.v),
+                    side: trade.S === 'Sell' ? 'sell' : 'buy',
+                    eventTime: trade.T,
+                });
+            }
+        }
+    }
+
+    private parseTickerData(data: any, symbol: string): Partial<PriceData> {
+        return {
+            symbol,
+            price: parseFloat(data.lastPrice), // Last price
+            exchange: SupportedExchanges.BYBIT_DELIVERY,
+            timestamp: Date.now(),
+            markPrice: parseFloat(data.markPrice),
+            indexPrice: parseFloat(data.indexPrice),
+            volume: parseFloat(data.volume24h), // 24h volume
+            quoteVolume: parseFloat(data.turnover24h), // 24h turnover
+            openInterest: parseFloat(data.openInterest), // In base units
+            high: parseFloat(data.highPrice24h), // 24h high
+            low: parseFloat(data.lowPrice24h), // 24h low
+        };
+    }
+}
\ No newline at end of file
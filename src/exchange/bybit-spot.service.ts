@@ -0,0 +1,185 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PriceData, SupportedExchanges, ExchangeSymbol, ExchangeCapabilities, MarketType, ServerTimeSample } from '@/common/types';
+import { BaseExchangeService } from './base-exchange.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { RestRateLimit } from './rest-rate-limiter';
+import { WsHeartbeat } from './ws-connection-pool';
+
+@Injectable()
+export class BybitSpotService extends BaseExchangeService {
+    readonly name = SupportedExchanges.BYBIT_SPOT;
+    readonly displayName = 'ByBit Spot';
+    readonly marketType: MarketType = 'spot';
+    readonly capabilities: ExchangeCapabilities = {
+        tickerStream: true,
+        symbolDiscovery: true,
+        orderBook: true,
+        fundingRates: false, // Spot market, no perpetual funding
+        tradeStream: true,
+    };
+
+    protected readonly wsUrl = this.endpoint('WS', 'wss://stream.bybit.com/v5/public/spot', 'wss://stream-testnet.bybit.com/v5/public/spot');
+    protected readonly maxTopicsPerConnection = 200;
+    protected readonly maxTopicsPerMessage = 10; // ByBit caps args per subscribe request
+    private readonly apiUrl = this.endpoint('REST', 'https://api.bybit.com/v5', 'https://api-testnet.bybit.com/v5');
+    protected readonly restRateLimit: RestRateLimit = { weightLimit: 600, windowMs: 5000 }; // 600 requests per 5s per IP
+    protected readonly heartbeat: WsHeartbeat = {
+        buildPing: () => ({ op: 'ping' }),
+        isPong: (message) => message.op === 'pong' || message.ret_msg === 'pong',
+    };
+
+    constructor(
+        configService: ConfigService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+    ) {
+        super(configService);
+        this.exchangeRegistry.register(this);
+    }
+
+    async getSymbols(): Promise<ExchangeSymbol[]> {
+        try {
+            const response = await this.rest.fetch(`${this.apiUrl}/market/instruments-info?category=spot`);
+            const data = await response.json();
+
+            if (data.retCode !== 0) {
+                throw new Error(`ByBit API error: ${data.retMsg}`);
+            }
+
+            return data.result.list
+                .filter((symbol: any) => symbol.status === 'Trading')
+                .map((symbol: any) => ({
+                    symbol: `${symbol.baseCoin}/${symbol.quoteCoin}`,
+                    baseAsset: symbol.baseCoin,
+                    quoteAsset: symbol.quoteCoin,
+                    status: symbol.status,
+                    exchange: SupportedExchanges.BYBIT_SPOT,
+                    marketType: this.marketType,
+                    minTradeAmount: parseFloat(symbol.lotSizeFilter?.minOrderQty || '0'),
+                    tickSize: parseFloat(symbol.priceFilter?.tickSize || '0'),
+                    spec: {
+                        contractSize: 1,
+                        tickSize: this.parseOptionalNumber(symbol.priceFilter?.tickSize),
+                        lotStep: this.parseOptionalNumber(symbol.lotSizeFilter?.basePrecision), // Spot sizes step by the base precision
+                        minQty: this.parseOptionalNumber(symbol.lotSizeFilter?.minOrderQty),
+                        minNotional: this.parseOptionalNumber(symbol.lotSizeFilter?.minOrderAmt),
+                        maxLeverage: null,
+                        marginAsset: null,
+                        launchTime: null,
+                        expiryTime: null,
+                    },
+                    lastUpdated: Date.now(),
+                }));
+        } catch (error) {
+            this.logger.error(`❌ Failed to fetch ByBit Spot symbols: ${error.message}`);
+            return [];
+        }
+    }
+
+    async getServerTime(): Promise<ServerTimeSample> {
+        const { response, sentAt, receivedAt } = await this.rest.timedFetch(`${this.apiUrl}/market/time`);
+        const data = await response.json();
+
+        if (data.retCode !== 0) {
+            throw new Error(`ByBit API error: ${data.retMsg}`);
+        }
+
+        return { serverTime: Math.floor(parseInt(data.result.timeNano) / 1e6), sentAt, receivedAt };
+    }
+
+    protected async fetchRestTickers(): Promise<Map<string, Partial<PriceData>>> {
+        const response = await this.rest.fetch(`${this.apiUrl}/market/tickers?category=spot`);
+        const data = await response.json();
+
+        if (data.retCode !== 0) {
+            throw new Error(`ByBit API error: ${data.retMsg}`);
+        }
+
+        return new Map(data.result.list.map((ticker: any) => [ticker.symbol, {
+            ...this.parseTickerData(ticker, ticker.symbol),
+            bestBid: parseFloat(ticker.bid1Price),
+            bestBidSize: parseFloat(ticker.bid1Size),
+            bestAsk: parseFloat(ticker.ask1Price),
+            bestAskSize: parseFloat(ticker.ask1Size),
+        }]));
+    }
+
+    protected formatSymbolForStream(symbol: string): string {
+        // Convert BTC/USDT to BTCUSDT
+        return symbol.replace('/', '');
+    }
+
+    protected getTopics(streamSymbol: string): string[] {
+        const topics = [`tickers.${streamSymbol}`];
+
+        if (this.orderBookEnabled) {
+            topics.push(`orderbook.50.${streamSymbol}`);
+        }
+
+        if (this.tradeStreamsEnabled) {
+            topics.push(`publicTrade.${streamSymbol}`);
+        }
+
+        return topics;
+    }
+
+    protected buildSubscribeMessages(topics: string[]): object[] {
+        return [{ op: 'subscribe', args: topics }];
+    }
+
+    protected buildUnsubscribeMessages(topics: string[]): object[] {
+        return [{ op: 'unsubscribe', args: topics }];
+    }
+
+    protected handleMessage(message: any): void {
+        if (!message.topic || !message.data) {
+            return;
+        }
+
+        if (message.topic.startsWith('tickers.')) {
+            const symbol = this.resolveSymbol(message.topic.slice('tickers.'.length));
+
+            if (symbol) {
+                // Spot tickers are always full snapshots
+                this.publish(symbol, { ...this.parseTickerData(message.data, symbol), eventTime: message.ts });
+            }
+        } else if (message.topic.startsWith('orderbook.')) {
+            const symbol = this.resolveSymbol(message.data.s);
+
+            if (symbol) {
+                this.updateOrderBook(
+                    symbol,
+                    this.parseLevels(message.data.b),
+                    this.parseLevels(message.data.a),
+                    message.type === 'snapshot',
+                    message.ts
+                );
+            }
+        } else if (message.topic.startsWith('publicTrade.')) {
+            const symbol = this.resolveSymbol(message.topic.slice('publicTrade.'.length));
+
+            // Each message batches the trades since the last push
+            for (const trade of symbol ? message.data : []) {
+                this.publishTrade(symbol, {
+                    price: parseFloat(trade.p),
+                    size: parseFloat(trade.v),
+                    side: trade.S === 'Sell' ? 'sell' : 'buy',
+                    eventTime: trade.T,
+                });
+            }
+        }
+    }
+
+    private parseTickerData(data: any, symbol: string): Partial<PriceData> {
+        return {
+            symbol,
+            price: parseFloat(data.lastPrice), // Last price
+            exchange: SupportedExchanges.BYBIT_SPOT,
+            timestamp: Date.now(),
+            volume: parseFloat(data.volume24h), // 24h volume
+            quoteVolume: parseFloat(data.turnover24h), // 24h turnover
+            high: parseFloat(data.highPrice24h), // 24h high
+            low: parseFloat(data.lowPrice24h), // 24h low
+        };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { ConfigService } from '@nestjs/config';
+import { PriceData } from '@/common/types';
+import { BybitService } from './bybit.service';
+import { ExchangeRegistry } from './exchange.registry';
+
+describe('BybitService', () => {
+    let service: BybitService;
+    let callback: jest.Mock<void, [PriceData]>;
+
+    const tickerFrame = (type: 'snapshot' | 'delta', ts: number, data: Record<string, string>) =>
+        JSON.stringify({ topic: 'tickers.BTCUSDT', type, ts, data: { symbol: 'BTCUSDT', ...data } });
+
+    beforeEach(async () => {
+        // Replay mode feeds frames through ingestFrame() without opening sockets
+        const configService = new ConfigService({ REPLAY_PATH: 'bybit.jsonl', FUNDING_STREAMS: 'false' });
+        service = new BybitService(configService, new ExchangeRegistry(configService));
+        callback = jest.fn();
+
+        await service.initialize();
+        await service.subscribeToTicker('BTC/USDT', callback);
+    });
+
+    it('dates the price by the last ticker that carried a last price', () => {
+        const snapshotTime = Date.now() - 5000;
+
+        service.ingestFrame(tickerFrame('snapshot', snapshotTime, { lastPrice: '50000', markPrice: '50001' }));
+        service.ingestFrame(tickerFrame('delta', snapshotTime + 3000, { markPrice: '50010', openInterest: '1200' }));
+
+        const data = callback.mock.calls[1][0];
+        expect(data).toMatchObject({ price: 50000, markPrice: 50010, openInterest: 1200, eventTime: snapshotTime + 3000 });
+        expect(data.priceEventTime).toBe(snapshotTime);
+    });
+});
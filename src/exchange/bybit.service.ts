@@ -1,123 +1,80 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import * as WebSocket from 'ws';
-import { PriceData, SupportedExchanges, ExchangeSymbol } from '@/common/types';
+import { PriceData, SupportedExchanges, ExchangeSymbol, ExchangeCapabilities, FundingRate, ServerTimeSample } from '@/common/types';
+import { BaseExchangeService } from './base-exchange.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { RestRateLimit } from './rest-rate-limiter';
+import { WsHeartbeat } from './ws-connection-pool';
 
 @Injectable()
-export class BybitService {
-    private readonly logger = new Logger(BybitService.name);
-    private readonly baseUrl = 'wss://stream.bybit.com/v5/public/linear';
-    private readonly apiUrl = 'https://api.bybit.com/v5';
-    private readonly connections = new Map<string, WebSocket>();
-    private readonly subscriptions = new Map<string, (data: PriceData) => void>();
-    private isInitialized = false;
-
-    constructor(private readonly configService: ConfigService) { }
-
-    async initialize(): Promise<void> {
-        this.logger.log('🔄 Initializing ByBit service...');
-        this.isInitialized = true;
-        this.logger.log('✅ ByBit service initialized');
-    }
-
-    async disconnect(): Promise<void> {
-        this.logger.log('🔄 Disconnecting from ByBit...');
-
-        for (const [symbol, ws] of this.connections) {
-            try {
-                if (ws.readyState === WebSocket.OPEN) {
-                    ws.close();
-                }
-            } catch (error) {
-                this.logger.error(`❌ Error closing WebSocket for ${symbol}: ${error.message}`);
-            }
-        }
-
-        this.connections.clear();
-        this.subscriptions.clear();
-        this.isInitialized = false;
-
-        this.logger.log('✅ Disconnected from ByBit');
-    }
-
-    async subscribeToTicker(symbol: string, callback: (data: PriceData) => void): Promise<void> {
-        if (!this.isInitialized) {
-            throw new Error('ByBit service not initialized');
-        }
-
-        const streamSymbol = this.formatSymbolForStream(symbol);
-
-        this.logger.log(`📡 Subscribing to ByBit ticker: ${streamSymbol}`);
-
-        try {
-            const ws = new WebSocket(this.baseUrl);
-
-            ws.on('open', () => {
-                this.logger.log(`✅ Connected to ByBit WebSocket for ${symbol}`);
-                this.connections.set(symbol, ws);
-                this.subscriptions.set(symbol, callback);
-
-                // Subscribe to ticker stream
-                const subscribeMessage = {
-                    op: 'subscribe',
-                    args: [`tickers.${streamSymbol}`]
-                };
-
-                ws.send(JSON.stringify(subscribeMessage));
-            });
-
-            ws.on('message', (data: Buffer) => {
-                try {
-                    const message = JSON.parse(data.toString());
-
-                    if (message.topic && message.topic.includes('tickers') && message.data) {
-                        const priceData = this.parseTickerData(message.data, symbol);
-                        callback(priceData);
-                    }
-                } catch (error) {
-                    this.logger.error(`❌ Error parsing ByBit ticker data: ${error.message}`);
-                }
-            });
-
-            ws.on('error', (error) => {
-                this.logger.error(`❌ ByBit WebSocket error for ${symbol}: ${error.message}`);
-            });
-
-            ws.on('close', (code, reason) => {
-                this.logger.warn(`⚠️ ByBit WebSocket closed for ${symbol}: ${code} - ${reason}`);
-                this.connections.delete(symbol);
-
-                // Attempt to reconnect after a delay
-                setTimeout(() => {
-                    this.reconnectTicker(symbol, callback);
-                }, 5000);
-            });
-
-        } catch (error) {
-            this.logger.error(`❌ Failed to subscribe to ByBit ticker ${symbol}: ${error.message}`);
-            throw error;
-        }
+export class BybitService extends BaseExchangeService {
+    readonly name = SupportedExchanges.BYBIT;
+    readonly displayName = 'ByBit';
+    readonly capabilities: ExchangeCapabilities = {
+        tickerStream: true,
+        symbolDiscovery: true,
+        orderBook: true,
+        fundingRates: true,
+        tradeStream: true,
+    };
+
+    protected readonly wsUrl = this.endpoint('WS', 'wss://stream.bybit.com/v5/public/linear', 'wss://stream-testnet.bybit.com/v5/public/linear');
+    protected readonly maxTopicsPerConnection = 200;
+    protected readonly maxTopicsPerMessage = 10; // ByBit caps args per subscribe request
+    private readonly apiUrl = this.endpoint('REST', 'https://api.bybit.com/v5', 'https://api-testnet.bybit.com/v5');
+    protected readonly restRateLimit: RestRateLimit = { weightLimit: 600, windowMs: 5000 }; // 600 requests per 5s per IP
+    protected readonly heartbeat: WsHeartbeat = {
+        buildPing: () => ({ op: 'ping' }),
+        isPong: (message) => message.op === 'pong' || message.ret_msg === 'pong',
+    };
+    private readonly fundingIntervals = new Map<string, number>(); // BTCUSDT -> hours
+
+    constructor(
+        configService: ConfigService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+    ) {
+        super(configService);
+        this.exchangeRegistry.register(this);
     }
 
     async getSymbols(): Promise<ExchangeSymbol[]> {
         try {
-            const response = await fetch(`${this.apiUrl}/market/instruments-info?category=linear`);
+            const response = await this.rest.fetch(`${this.apiUrl}/market/instruments-info?category=linear`);
             const data = await response.json();
 
             if (data.retCode !== 0) {
                 throw new Error(`ByBit API error: ${data.retMsg}`);
             }
 
+            for (const instrument of data.result.list) {
+                if (instrument.fundingInterval) {
+                    this.fundingIntervals.set(instrument.symbol, instrument.fundingInterval / 60); // Minutes to hours
+                }
+            }
+
+            // Dated futures share the linear category; BybitDeliveryService covers them
             return data.result.list
-                .filter((symbol: any) => symbol.status === 'Trading')
+                .filter((symbol: any) => symbol.status === 'Trading' && symbol.contractType === 'LinearPerpetual')
                 .map((symbol: any) => ({
                     symbol: `${symbol.baseCoin}/${symbol.quoteCoin}`,
                     baseAsset: symbol.baseCoin,
                     quoteAsset: symbol.quoteCoin,
                     status: symbol.status,
                     exchange: SupportedExchanges.BYBIT,
+                    marketType: this.marketType,
                     minTradeAmount: parseFloat(symbol.lotSizeFilter?.minOrderQty || '0'),
                     tickSize: parseFloat(symbol.priceFilter?.tickSize || '0'),
+                    spec: {
+                        contractSize: 1,
+                        tickSize: this.parseOptionalNumber(symbol.priceFilter?.tickSize),
+                        lotStep: this.parseOptionalNumber(symbol.lotSizeFilter?.qtyStep),
+                        minQty: this.parseOptionalNumber(symbol.lotSizeFilter?.minOrderQty),
+                        minNotional: this.parseOptionalNumber(symbol.lotSizeFilter?.minNotionalValue),
+                        maxLeverage: this.parseOptionalNumber(symbol.leverageFilter?.maxLeverage),
+                        marginAsset: symbol.settleCoin || null,
+                        launchTime: this.parseOptionalNumber(symbol.launchTime),
+                        expiryTime: null,
+                    },
                     lastUpdated: Date.now(),
                 }));
         } catch (error) {
@@ -126,51 +83,145 @@ export class BybitService {
         }
     }
 
-    private async reconnectTicker(symbol: string, callback: (data: PriceData) => void): Promise<void> {
-        if (!this.isInitialized || this.connections.has(symbol)) {
-            return;
-        }
+    async getFundingRates(): Promise<FundingRate[]> {
+        try {
+            const response = await this.rest.fetch(`${this.apiUrl}/market/tickers?category=linear`);
+            const data = await response.json();
 
-        this.logger.log(`🔄 Reconnecting to ByBit ticker: ${symbol}`);
+            if (data.retCode !== 0) {
+                throw new Error(`ByBit API error: ${data.retMsg}`);
+            }
 
-        try {
-            await this.subscribeToTicker(symbol, callback);
+            return data.result.list
+                .filter((ticker: any) => this.resolveSymbol(ticker.symbol) && ticker.fundingRate)
+                .map((ticker: any) => ({
+                    symbol: this.resolveSymbol(ticker.symbol),
+                    exchange: SupportedExchanges.BYBIT,
+                    fundingRate: parseFloat(ticker.fundingRate),
+                    nextFundingTime: parseInt(ticker.nextFundingTime),
+                    fundingIntervalHours: this.fundingIntervals.get(ticker.symbol) || 8,
+                    timestamp: Date.now(),
+                }));
         } catch (error) {
-            this.logger.error(`❌ Failed to reconnect to ByBit ticker ${symbol}: ${error.message}`);
+            this.logger.error(`❌ Failed to fetch ByBit funding rates: ${error.message}`);
+            return [];
+        }
+    }
+
+    async getServerTime(): Promise<ServerTimeSample> {
+        const { response, sentAt, receivedAt } = await this.rest.timedFetch(`${this.apiUrl}/market/time`);
+        const data = await response.json();
+
+        if (data.retCode !== 0) {
+            throw new Error(`ByBit API error: ${data.retMsg}`);
+        }
+
+        return { serverTime: Math.floor(parseInt(data.result.timeNano) / 1e6), sentAt, receivedAt };
+    }
+
+    protected async fetchRestTickers(): Promise<Map<string, Partial<PriceData>>> {
+        const response = await this.rest.fetch(`${this.apiUrl}/market/tickers?category=linear`);
+        const data = await response.json();
 
-            // Retry after a longer delay
-            setTimeout(() => {
-                this.reconnectTicker(symbol, callback);
-            }, 30000);
+        if (data.retCode !== 0) {
+            throw new Error(`ByBit API error: ${data.retMsg}`);
         }
+
+        return new Map(data.result.list.map((ticker: any) => [ticker.symbol, {
+            ...this.parseTickerData(ticker, ticker.symbol),
+            bestBid: parseFloat(ticker.bid1Price),
+            bestBidSize: parseFloat(ticker.bid1Size),
+            bestAsk: parseFloat(ticker.ask1Price),
+            bestAskSize: parseFloat(ticker.ask1Size),
+        }]));
     }
 
-    private formatSymbolForStream(symbol: string): string {
+    protected formatSymbolForStream(symbol: string): string {
         // Convert BTC/USDT to BTCUSDT
         return symbol.replace('/', '');
     }
 
-    private parseTickerData(data: any, symbol: string): PriceData {
+    protected getTopics(streamSymbol: string): string[] {
+        const topics = [`tickers.${streamSymbol}`];
+
+        if (this.orderBookEnabled) {
+            topics.push(`orderbook.50.${streamSymbol}`);
+        }
+
+        if (this.tradeStreamsEnabled) {
+            topics.push(`publicTrade.${streamSymbol}`);
+        }
+
+        return topics;
+    }
+
+    protected buildSubscribeMessages(topics: string[]): object[] {
+        return [{ op: 'subscribe', args: topics }];
+    }
+
+    protected buildUnsubscribeMessages(topics: string[]): object[] {
+        return [{ op: 'unsubscribe', args: topics }];
+    }
+
+    protected handleMessage(message: any): void {
+        if (!message.topic || !message.data) {
+            return;
+        }
+
+        if (message.topic.startsWith('tickers.')) {
+            const symbol = this.resolveSymbol(message.topic.slice('tickers.'.length));
+
+            if (symbol) {
+                // Delta messages only carry changed fields; publish() keeps the rest
+                this.publish(symbol, { ...this.parseTickerData(message.data, symbol), eventTime: message.ts });
+
+                if (this.fundingStreamsEnabled) {
+                    this.publishFunding(symbol, {
+                        fundingRate: parseFloat(message.data.fundingRate),
+                        nextFundingTime: parseInt(message.data.nextFundingTime),
+                    });
+                }
+            }
+        } else if (message.topic.startsWith('orderbook.')) {
+            const symbol = this.resolveSymbol(message.data.s);
+
+            if (symbol) {
+                this.updateOrderBook(
+                    symbol,
+                    this.parseLevels(message.data.b),
+                    this.parseLevels(message.data.a),
+                    message.type === 'snapshot',
+                    message.ts
+                );
+            }
+        } else if (message.topic.startsWith('publicTrade.')) {
+            const symbol = this.resolveSymbol(message.topic.slice('publicTrade.'.length));
+
+            // Each message batches the trades since the last push
+            for (const trade of symbol ? message.data : []) {
+                this.publishTrade(symbol, {
+                    price: parseFloat(trade.p),
+                    size: parseFloat(trade.v),
+                    side: trade.S === 'Sell' ? 'sell' : 'buy',
+                    eventTime: trade.T,
+                });
+            }
+        }
+    }
+
+    private parseTickerData(data: any, symbol: string): Partial<PriceData> {
         return {
             symbol,
             price: parseFloat(data.lastPrice), // Last price
             exchange: SupportedExchanges.BYBIT,
             timestamp: Date.now(),
+            markPrice: parseFloat(data.markPrice),
+            indexPrice: parseFloat(data.indexPrice),
             volume: parseFloat(data.volume24h), // 24h volume
+            quoteVolume: parseFloat(data.turnover24h), // 24h turnover
+            openInterest: parseFloat(data.openInterest), // In base units
             high: parseFloat(data.highPrice24h), // 24h high
             low: parseFloat(data.lowPrice24h), // 24h low
         };
     }
-
-    isConnected(): boolean {
-        return this.isInitialized && this.connections.size > 0;
-    }
-
-    getConnectionCount(): number {
-        return this.connections.size;
-    }
-
-    getConnectedSymbols(): string[] {
-        return Array.from(this.connections.keys());
-    }
-} 
\ No newline at end of file
+}
\ No newline at end of file
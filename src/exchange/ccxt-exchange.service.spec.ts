@@ -0,0 +1,132 @@
+import { ConfigService } from '@nestjs/config';
+import * as ccxt from 'ccxt';
+import { PriceData } from '@/common/types';
+import { CcxtExchangeService } from './ccxt-exchange.service';
+import { ExchangeRegistry } from './exchange.registry';
+
+const MARKET = {
+    symbol: 'BTC/USDT:USDT',
+    base: 'BTC',
+    quote: 'USDT',
+    swap: true,
+    linear: true,
+    active: true,
+    contractSize: 0.001,
+};
+
+describe('CcxtExchangeService', () => {
+    let service: CcxtExchangeService;
+    let pendingWatches: Array<{ resolve: (ticker: ccxt.Ticker) => void; reject: (error: Error) => void }>;
+    let markets: Record<string, typeof MARKET>;
+
+    // Answers every pending watch, as a venue does when a ticker update arrives
+    const tick = async (ticker: Partial<ccxt.Ticker>) => {
+        const watches = pendingWatches.splice(0);
+        watches.forEach(watch => watch.resolve(ticker as ccxt.Ticker));
+        await jest.advanceTimersByTimeAsync(0);
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        pendingWatches = [];
+        markets = { [MARKET.symbol]: MARKET };
+
+        // Like ccxt, markets are cached after the first load unless a reload is asked for
+        jest.spyOn(ccxt.pro.bitmart.prototype, 'loadMarkets').mockImplementation(async function (this: ccxt.Exchange, reload?: boolean) {
+            if (!this.markets || reload) {
+                this.markets = { ...markets } as any;
+            }
+            return this.markets;
+        });
+        jest.spyOn(ccxt.pro.bitmart.prototype, 'watchTicker').mockImplementation(() =>
+            new Promise((resolve, reject) => pendingWatches.push({ resolve, reject })) as Promise<ccxt.Ticker>);
+        // Like ccxt pro, closing rejects the watches still waiting on the socket
+        jest.spyOn(ccxt.pro.bitmart.prototype, 'close').mockImplementation(async () => {
+            pendingWatches.splice(0).forEach(watch => watch.reject(new Error('connection closed')));
+            return [];
+        });
+
+        const configService = new ConfigService({ CCXT_EXCHANGES: 'bitmart' });
+        service = new CcxtExchangeService('bitmart', configService, new ExchangeRegistry(configService));
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    it('publishes each tick once after a reconnect', async () => {
+        const callback = jest.fn();
+        await service.initialize();
+        await service.subscribeToTicker('BTC/USDT', callback);
+
+        await service.disconnect();
+        await service.initialize();
+        await service.subscribeToTicker('BTC/USDT', callback);
+        // Past the reconnect delay a loop that outlived the disconnect would be watching again
+        await jest.advanceTimersByTimeAsync(10000);
+
+        await tick({ last: 50000, timestamp: Date.now() });
+        await tick({ last: 50001, timestamp: Date.now() });
+
+        expect(callback.mock.calls.map(([data]) => data.price)).toEqual([50000, 50001]);
+        expect(pendingWatches).toHaveLength(1);
+
+        await service.disconnect();
+    });
+
+    it('stops watching an unsubscribed symbol', async () => {
+        const callback = jest.fn();
+        await service.initialize();
+        await service.subscribeToTicker('BTC/USDT', callback);
+
+        await service.unsubscribeFromTicker('BTC/USDT');
+        await tick({ last: 50000, timestamp: Date.now() });
+
+        expect(callback).not.toHaveBeenCalled();
+        expect(pendingWatches).toHaveLength(0);
+    });
+
+    it('reports book sizes in base units', async () => {
+        const callback = jest.fn();
+        await service.initialize();
+        await service.subscribeToTicker('BTC/USDT', callback);
+
+        await tick({ last: 50000, bid: 49999, bidVolume: 2000, ask: 50001, askVolume: 500, timestamp: Date.now() });
+
+        const data: PriceData = callback.mock.calls[0][0];
+        expect(data.bestBidSize).toBeCloseTo(2);
+        expect(data.bestAskSize).toBeCloseTo(0.5);
+
+        await service.disconnect();
+    });
+
+    it('leaves no abort listeners behind while a venue keeps failing', async () => {
+        const addListener = jest.spyOn(AbortSignal.prototype, 'addEventListener');
+        const removeListener = jest.spyOn(AbortSignal.prototype, 'removeEventListener');
+        await service.initialize();
+        await service.subscribeToTicker('BTC/USDT', jest.fn());
+
+        for (let attempt = 0; attempt < 5; attempt++) {
+            pendingWatches.splice(0).forEach(watch => watch.reject(new Error('socket hang up')));
+            await jest.advanceTimersByTimeAsync(300000);
+        }
+
+        // Only the sleep still waiting holds a listener
+        expect(addListener.mock.calls.length - removeListener.mock.calls.length).toBeLessThanOrEqual(1);
+
+        await service.disconnect();
+    });
+
+    it('sees new and delisted contracts when symbols are fetched again', async () => {
+        const listed = async () => (await service.getSymbols()).map(symbol => symbol.symbol);
+        await service.initialize();
+
+        markets = { 'ETH/USDT:USDT': { ...MARKET, symbol: 'ETH/USDT:USDT', base: 'ETH', contractSize: 0.01 } };
+
+        await expect(listed()).resolves.toEqual(['ETH/USDT']);
+        await expect(service.subscribeToTicker('BTC/USDT', jest.fn())).rejects.toThrow('BTC/USDT is not listed');
+
+        await service.disconnect();
+    });
+});
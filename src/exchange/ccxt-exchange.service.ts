@@ -0,0 +1,501 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as ccxt from 'ccxt';
+import { PriceData, ExchangeSymbol, ExchangeAdapter, ExchangeAdapterStatus, ExchangeCapabilities, FundingRate, MarketType, Trade, CircuitBreakerStatus, ServerTimeSample } from '@/common/types';
+import { ExchangeRegistry } from './exchange.registry';
+import { ReconnectPolicy } from './reconnect-policy';
+import { CircuitBreaker } from './circuit-breaker';
+import { LatencyTracker } from './latency-tracker';
+import { loadExchangeConfig } from './exchange-config';
+
+// ccxt ids already covered by a hand-written adapter, mapped to that adapter's name
+const HAND_WRITTEN_ADAPTERS: Record<string, string> = {
+    binance: 'binance',
+    binanceusdm: 'binance',
+    bybit: 'bybit',
+    mexc: 'mexc',
+    gate: 'gateio',
+    gateio: 'gateio',
+    lbank: 'lbank',
+    okx: 'okx',
+    bitget: 'bitget',
+};
+
+interface WatchLoop {
+    abort: AbortController; // Ends the loop and cuts short its backoff sleeps
+    done: Promise<void>;
+}
+
+/**
+ * Adapter for any ccxt exchange listed in CCXT_EXCHANGES. Symbols come from
+ * loadMarkets (USDT-margined linear swaps only) and prices from watchTicker
+ * where ccxt pro supports it, otherwise from fetchTickers polling.
+ */
+export class CcxtExchangeService implements ExchangeAdapter {
+    readonly name: string;
+    readonly displayName: string;
+    readonly capabilities: ExchangeCapabilities;
+    readonly marketType: MarketType = 'perp'; // Only swap markets are loaded
+
+    private readonly logger: Logger;
+    private readonly exchange: ccxt.Exchange;
+    private readonly useWatch: boolean;
+    private readonly pollInterval: number;
+    private readonly reconnectPolicy: ReconnectPolicy;
+    private readonly circuitBreaker: CircuitBreaker;
+    private failedAttempts = 0;
+    private readonly staleAfterMs: number;
+    private readonly subscriptions = new Map<string, (data: PriceData) => void>();
+    private readonly marketSymbols = new Map<string, string>(); // BTC/USDT -> BTC/USDT:USDT
+    private readonly contractSizes = new Map<string, number>(); // BTC/USDT -> base units per contract
+    private readonly watchLoops = new Map<string, WatchLoop>();
+    private readonly lastUpdates = new Map<string, number>(); // symbol -> last ticker time
+    private readonly latencyTracker = new LatencyTracker();
+    private clockOffsetMs = 0;
+    private pollTimer: NodeJS.Timeout | null = null;
+    private isInitialized = false;
+
+    /**
+     * Create and register adapters for every ccxt id in CCXT_EXCHANGES that
+     * has no hand-written adapter
+     */
+    static fromConfig(configService: ConfigService, exchangeRegistry: ExchangeRegistry): CcxtExchangeService[] {
+        const logger = new Logger(CcxtExchangeService.name);
+        const ids = configService.get<string>('CCXT_EXCHANGES', '')
+            .split(',')
+            .map(id => id.trim().toLowerCase())
+            .filter(Boolean);
+
+        const adapters: CcxtExchangeService[] = [];
+
+        for (const id of ids) {
+            if (HAND_WRITTEN_ADAPTERS[id]) {
+                logger.warn(`⚠️ Skipping ccxt exchange ${id}: covered by the ${HAND_WRITTEN_ADAPTERS[id]} adapter`);
+                continue;
+            }
+
+            // ccxt.exchanges is the list of ids at runtime, despite its typing
+            if (!(ccxt.exchanges as unknown as string[]).includes(id)) {
+                logger.error(`❌ Unknown ccxt exchange id: ${id}`);
+                continue;
+            }
+
+            adapters.push(new CcxtExchangeService(id, configService, exchangeRegistry));
+        }
+
+        return adapters;
+    }
+
+    constructor(
+        id: string,
+        private readonly configService: ConfigService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+    ) {
+        const watchEnabled = this.configService.get<string>('CCXT_WATCH_TICKERS', 'true') === 'true';
+        const config = loadExchangeConfig(this.configService, id);
+        const options = { enableRateLimit: true, apiKey: config.apiKey, secret: config.apiSecret, options: { defaultType: 'swap' } };
+
+        const proExchange: ccxt.Exchange | null = watchEnabled && id in ccxt.pro ? new ccxt.pro[id](options) : null;
+
+        this.useWatch = proExchange?.has['watchTicker'] === true;
+        this.exchange = this.useWatch ? proExchange : new ccxt[id](options);
+
+        this.name = id;
+        this.displayName = `${this.exchange.name} (ccxt)`;
+        this.logger = new Logger(`CcxtExchangeService:${id}`);
+
+        if (config.sandbox) {
+            try {
+                this.exchange.setSandboxMode(true);
+            } catch (error) {
+                this.logger.warn(`⚠️ ${this.displayName} has no sandbox, using production: ${error.message}`);
+            }
+        }
+
+        this.capabilities = {
+            tickerStream: this.useWatch,
+            symbolDiscovery: true,
+            orderBook: false, // Best bid/ask still comes from the ticker where the venue provides it
+            fundingRates: this.exchange.has['fetchFundingRates'] === true,
+            tradeStream: false,
+        };
+
+        this.pollInterval = parseInt(this.configService.get<string>('CCXT_POLL_INTERVAL_MS', '2000'));
+        this.reconnectPolicy = new ReconnectPolicy({
+            baseDelayMs: parseInt(this.configService.get<string>('WEBSOCKET_RECONNECT_INTERVAL', '5000')),
+            maxDelayMs: parseInt(this.configService.get<string>('WEBSOCKET_RECONNECT_MAX_DELAY', '300000')),
+        });
+        this.circuitBreaker = new CircuitBreaker({
+            name: this.displayName,
+            failureThreshold: parseInt(this.configService.get<string>('CIRCUIT_BREAKER_FAILURE_THRESHOLD', '5')),
+            openDurationMs: parseInt(this.configService.get<string>('CIRCUIT_BREAKER_OPEN_SECONDS', '120')) * 1000,
+        });
+        this.staleAfterMs = Math.max(this.pollInterval * 5, 60 * 1000);
+
+        this.exchangeRegistry.register(this);
+    }
+
+    async initialize(): Promise<void> {
+        this.logger.log(`🔄 Initializing ${this.displayName} service (${this.useWatch ? 'watchTicker' : 'fetchTickers polling'})...`);
+
+        await this.loadMarkets();
+        this.isInitialized = true;
+
+        if (!this.useWatch) {
+            this.pollTimer = setInterval(() => this.pollTickers(), this.pollInterval);
+        }
+
+        this.logger.log(`✅ ${this.displayName} service initialized`);
+    }
+
+    async disconnect(): Promise<void> {
+        this.logger.log(`🔄 Disconnecting from ${this.displayName}...`);
+
+        this.isInitialized = false;
+        this.subscriptions.clear();
+        this.lastUpdates.clear();
+
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+
+        const loops = Array.from(this.watchLoops.keys()).map(symbol => this.stopWatchLoop(symbol));
+
+        try {
+            await this.exchange.close();
+        } catch (error) {
+            this.logger.error(`❌ Error closing ${this.displayName}: ${error.message}`);
+        }
+
+        // Closing rejects the loops' pending watches, so they are all gone before a re-initialize can start new ones
+        await Promise.allSettled(loops);
+
+        this.logger.log(`✅ Disconnected from ${this.displayName}`);
+    }
+
+    async subscribeToTicker(symbol: string, callback: (data: PriceData) => void): Promise<void> {
+        if (!this.isInitialized) {
+            throw new Error(`${this.displayName} service not initialized`);
+        }
+
+        if (!this.marketSymbols.has(symbol)) {
+            // Only when market loading failed or missed it; the pair must not count as subscribed
+            throw new Error(`${symbol} is not listed on ${this.displayName}`);
+        }
+
+        this.subscriptions.set(symbol, callback);
+
+        if (this.useWatch && !this.watchLoops.has(symbol)) {
+            this.logger.debug(`📡 Watching ${this.displayName} ticker: ${symbol}`);
+            this.startWatchLoop(symbol);
+        }
+    }
+
+    async unsubscribeFromTicker(symbol: string): Promise<void> {
+        this.subscriptions.delete(symbol);
+        this.lastUpdates.delete(symbol);
+        this.stopWatchLoop(symbol);
+        this.logger.log(`🔕 Unsubscribed from ${this.displayName} ticker: ${symbol}`);
+    }
+
+    async getSymbols(): Promise<ExchangeSymbol[]> {
+        try {
+            const markets = await this.loadMarkets(true);
+
+            return markets.map(market => ({
+                symbol: `${market.base}/${market.quote}`,
+                baseAsset: market.base,
+                quoteAsset: market.quote,
+                status: 'TRADING',
+                exchange: this.name,
+                marketType: this.marketType,
+                minTradeAmount: market.limits?.amount?.min || 0,
+                tickSize: market.precision?.price || 0,
+                contractSize: market.contractSize,
+                spec: {
+                    contractSize: market.contractSize || 1,
+                    // ccxt 4 reports precision as tick sizes; amounts are in contracts
+                    tickSize: market.precision?.price ?? null,
+                    lotStep: market.precision?.amount ? market.precision.amount * (market.contractSize || 1) : null,
+                    minQty: market.limits?.amount?.min ? market.limits.amount.min * (market.contractSize || 1) : null,
+                    minNotional: market.limits?.cost?.min ?? null,
+                    maxLeverage: market.limits?.leverage?.max ?? null,
+                    marginAsset: market.settle || null,
+                    launchTime: market.created ?? null,
+                    expiryTime: null,
+                },
+                lastUpdated: Date.now(),
+            }));
+        } catch (error) {
+            this.logger.error(`❌ Failed to fetch ${this.displayName} symbols: ${error.message}`);
+            return [];
+        }
+    }
+
+    async getFundingRates(): Promise<FundingRate[]> {
+        if (!this.capabilities.fundingRates || this.subscriptions.size === 0) {
+            return [];
+        }
+
+        try {
+            const symbols = this.getListedSubscriptions();
+            const fundingRates = await this.exchange.fetchFundingRates(symbols.map(symbol => this.marketSymbols.get(symbol)));
+
+            return symbols
+                .filter(symbol => fundingRates[this.marketSymbols.get(symbol)])
+                .map(symbol => {
+                    const fundingRate = fundingRates[this.marketSymbols.get(symbol)];
+
+                    return {
+                        symbol,
+                        exchange: this.name,
+                        fundingRate: fundingRate.fundingRate,
+                        predictedFundingRate: fundingRate.nextFundingRate,
+                        nextFundingTime: fundingRate.fundingTimestamp,
+                        fundingIntervalHours: parseInt(fundingRate.interval || '8h'),
+                        timestamp: Date.now(),
+                    };
+                });
+        } catch (error) {
+            this.logger.error(`❌ Failed to fetch ${this.displayName} funding rates: ${error.message}`);
+            return [];
+        }
+    }
+
+    onFundingRate(handler: (rate: FundingRate) => void): void {
+        // Funding is only polled over REST for ccxt venues
+    }
+
+    onTrade(handler: (trade: Trade) => void): void {
+        // Trades aren't streamed for ccxt venues, so they have no VWAP windows
+    }
+
+    isConnected(): boolean {
+        return this.isInitialized && this.getConnectedSymbols().length > 0;
+    }
+
+    getConnectionCount(): number {
+        // ccxt manages its own sockets; report one logical connection while tickers flow
+        return this.isConnected() ? 1 : 0;
+    }
+
+    getConnectedSymbols(): string[] {
+        const now = Date.now();
+        return Array.from(this.lastUpdates.entries())
+            .filter(([, lastUpdate]) => now - lastUpdate <= this.staleAfterMs)
+            .map(([symbol]) => symbol);
+    }
+
+    getStatus(): ExchangeAdapterStatus {
+        return {
+            connected: this.isConnected(),
+            connectionCount: this.getConnectionCount(),
+            topicCount: this.subscriptions.size,
+            connectedSymbols: this.getConnectedSymbols(),
+            recycledConnections: 0, // ccxt reconnects its sockets internally
+            restFallbackSymbols: [], // polling mode is already REST; see PriceData.source
+            latency: this.latencyTracker.getStats(),
+            circuitBreaker: this.getCircuitBreakerStatus(),
+            rateLimit: null, // ccxt throttles its own requests (enableRateLimit)
+        };
+    }
+
+    onFrame(handler: (frame: string) => void): void {
+        // ccxt parses frames internally, so there is nothing raw to record or replay
+    }
+
+    ingestFrame(frame: string, recordedAt?: number): void {
+        this.logger.warn(`⚠️ ${this.displayName} frames can't be replayed; ccxt venues are not recorded`);
+    }
+
+    async getServerTime(): Promise<ServerTimeSample | null> {
+        if (!this.exchange.has['fetchTime']) {
+            return null;
+        }
+
+        // ccxt throttles inside fetchTime(), so its wait for a slot can't be left out here
+        const sentAt = Date.now();
+        const serverTime = await this.exchange.fetchTime();
+        return { serverTime, sentAt, receivedAt: Date.now() };
+    }
+
+    setClockOffset(offsetMs: number): void {
+        this.clockOffsetMs = offsetMs;
+    }
+
+    getCircuitBreakerStatus(): CircuitBreakerStatus {
+        return this.circuitBreaker.getStatus();
+    }
+
+    /**
+     * Load USDT-margined linear swap markets and remember their ccxt symbols.
+     * ccxt caches markets after the first load, so re-discovery passes reload
+     * to see new and delisted contracts.
+     */
+    private async loadMarkets(reload = false): Promise<ccxt.Market[]> {
+        await this.exchange.loadMarkets(reload);
+
+        const markets = Object.values(this.exchange.markets)
+            .filter(market => market.swap && market.linear && market.quote === 'USDT' && market.active !== false);
+
+        this.marketSymbols.clear();
+        this.contractSizes.clear();
+        for (const market of markets) {
+            this.marketSymbols.set(`${market.base}/${market.quote}`, market.symbol);
+            this.contractSizes.set(`${market.base}/${market.quote}`, market.contractSize || 1);
+        }
+
+        return markets;
+    }
+
+    /**
+     * Subscribed symbols the venue still lists; a delisted one stays subscribed
+     * until the next pair sync drops it
+     */
+    private getListedSubscriptions(): string[] {
+        return Array.from(this.subscriptions.keys()).filter(symbol => this.marketSymbols.has(symbol));
+    }
+
+    private startWatchLoop(symbol: string): void {
+        const loop = { abort: new AbortController() } as WatchLoop;
+        this.watchLoops.set(symbol, loop);
+        loop.done = this.watchLoop(symbol, loop);
+    }
+
+    /**
+     * End a symbol's watch loop; it leaves at its next check without
+     * publishing what its pending watch still returns
+     */
+    private stopWatchLoop(symbol: string): Promise<void> {
+        const loop = this.watchLoops.get(symbol);
+        if (!loop) {
+            return Promise.resolve();
+        }
+
+        this.watchLoops.delete(symbol);
+        loop.abort.abort();
+        return loop.done;
+    }
+
+    private async watchLoop(symbol: string, loop: WatchLoop): Promise<void> {
+        const marketSymbol = this.marketSymbols.get(symbol);
+        const { signal } = loop.abort;
+
+        while (!signal.aborted) {
+            // While half-open, one symbol's watch is the trial and the rest wait for its outcome
+            if (!this.circuitBreaker.tryAcquireTrial()) {
+                await this.sleep(Math.max(this.circuitBreaker.getRemainingOpenMs(), this.reconnectPolicy.getDelay(this.failedAttempts)), signal);
+                continue;
+            }
+
+            try {
+                const ticker = await this.exchange.watchTicker(marketSymbol);
+                if (signal.aborted) {
+                    break; // Stopped while waiting
+                }
+
+                this.recordSuccess();
+                this.publish(symbol, ticker);
+            } catch (error) {
+                if (signal.aborted) {
+                    break; // Rejected by close() on disconnect
+                }
+
+                this.logger.error(`❌ ${this.displayName} watchTicker failed for ${symbol}: ${error.message}`);
+                this.recordFailure();
+                await this.sleep(this.reconnectPolicy.getDelay(this.failedAttempts), signal);
+            }
+        }
+    }
+
+    private async pollTickers(): Promise<void> {
+        if (this.subscriptions.size === 0 || this.circuitBreaker.isOpen()) {
+            return;
+        }
+
+        try {
+            const symbols = this.getListedSubscriptions();
+            const tickers = await this.exchange.fetchTickers(symbols.map(symbol => this.marketSymbols.get(symbol)));
+
+            for (const symbol of symbols) {
+                const ticker = tickers[this.marketSymbols.get(symbol)];
+
+                if (ticker) {
+                    this.publish(symbol, ticker);
+                }
+            }
+
+            this.recordSuccess();
+        } catch (error) {
+            this.logger.error(`❌ ${this.displayName} fetchTickers failed: ${error.message}`);
+            this.recordFailure();
+        }
+    }
+
+    private recordSuccess(): void {
+        if (this.failedAttempts > 0 || this.circuitBreaker.getState() !== 'CLOSED') {
+            this.failedAttempts = 0;
+            this.circuitBreaker.recordSuccess();
+        }
+    }
+
+    private recordFailure(): void {
+        this.failedAttempts++;
+        this.circuitBreaker.recordFailure();
+    }
+
+    private sleep(ms: number, signal: AbortSignal): Promise<void> {
+        return new Promise(resolve => {
+            const onAbort = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+            // A venue that stays down sleeps again and again on the same signal
+            const timer = setTimeout(() => {
+                signal.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    private publish(symbol: string, ticker: ccxt.Ticker): void {
+        const callback = this.subscriptions.get(symbol);
+        if (!callback || typeof ticker.last !== 'number') {
+            return;
+        }
+
+        const receivedAt = Date.now();
+        const contractSize = this.contractSizes.get(symbol) || 1;
+        const eventTime = ticker.timestamp > 0 ? ticker.timestamp - this.clockOffsetMs : undefined;
+        this.lastUpdates.set(symbol, receivedAt);
+
+        // Polled tickers may be cached by the venue, so only streamed ones say anything about feed latency
+        if (this.useWatch && eventTime) {
+            this.latencyTracker.record(receivedAt - eventTime);
+        }
+
+        callback({
+            symbol,
+            price: ticker.last,
+            exchange: this.name,
+            marketType: this.marketType,
+            timestamp: receivedAt,
+            eventTime,
+            priceEventTime: eventTime,
+            source: this.useWatch ? 'ws' : 'rest',
+            markPrice: ticker.markPrice,
+            indexPrice: ticker.indexPrice,
+            volume: ticker.baseVolume,
+            quoteVolume: ticker.quoteVolume,
+            high: ticker.high,
+            low: ticker.low,
+            bestBid: ticker.bid,
+            // ccxt gives swap book sizes in contracts; like the native adapters, report base units
+            bestBidSize: typeof ticker.bidVolume === 'number' ? ticker.bidVolume * contractSize : undefined,
+            bestAsk: ticker.ask,
+            bestAskSize: typeof ticker.askVolume === 'number' ? ticker.askVolume * contractSize : undefined,
+        });
+    }
+}
\ No newline at end of file
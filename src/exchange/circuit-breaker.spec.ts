@@ -0,0 +1,113 @@
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+    let breaker: CircuitBreaker;
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: 1_000_000 });
+        breaker = new CircuitBreaker({ name: 'Test', failureThreshold: 3, openDurationMs: 60000 });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('opens after the failure threshold of consecutive failures', () => {
+        breaker.recordFailure();
+        breaker.recordFailure();
+        expect(breaker.getState()).toBe('CLOSED');
+
+        breaker.recordFailure();
+        expect(breaker.isOpen()).toBe(true);
+        expect(breaker.getStatus()).toMatchObject({ state: 'OPEN', consecutiveFailures: 3, openCount: 1, nextTrialAt: 1_060_000 });
+    });
+
+    it('resets the failure count on success', () => {
+        breaker.recordFailure();
+        breaker.recordFailure();
+        breaker.recordSuccess();
+        breaker.recordFailure();
+
+        expect(breaker.getStatus()).toMatchObject({ state: 'CLOSED', consecutiveFailures: 1 });
+    });
+
+    it('goes half-open once the open duration has passed', () => {
+        for (let i = 0; i < 3; i++) {
+            breaker.recordFailure();
+        }
+
+        jest.advanceTimersByTime(59999);
+        expect(breaker.getRemainingOpenMs()).toBe(1);
+
+        jest.advanceTimersByTime(1);
+        expect(breaker.getState()).toBe('HALF_OPEN');
+        expect(breaker.getRemainingOpenMs()).toBe(0);
+    });
+
+    it('closes after a successful trial and reopens after a failed one', () => {
+        for (let i = 0; i < 3; i++) {
+            breaker.recordFailure();
+        }
+        jest.advanceTimersByTime(60000);
+
+        breaker.recordFailure();
+        expect(breaker.getStatus()).toMatchObject({ state: 'OPEN', openCount: 2, openedAt: 1_060_000 });
+
+        jest.advanceTimersByTime(60000);
+        breaker.recordSuccess();
+        expect(breaker.getStatus()).toMatchObject({ state: 'CLOSED', consecutiveFailures: 0, openedAt: null, nextTrialAt: null });
+    });
+
+    describe('tryAcquireTrial', () => {
+        const open = () => {
+            for (let i = 0; i < 3; i++) {
+                breaker.recordFailure();
+            }
+        };
+
+        it('lets every connection through while closed and none while open', () => {
+            expect(breaker.tryAcquireTrial()).toBe(true);
+            expect(breaker.tryAcquireTrial()).toBe(true);
+
+            open();
+            expect(breaker.tryAcquireTrial()).toBe(false);
+        });
+
+        it('lets a single trial through while half-open until it succeeds', () => {
+            open();
+            jest.advanceTimersByTime(60000);
+
+            expect(breaker.tryAcquireTrial()).toBe(true);
+            expect(breaker.tryAcquireTrial()).toBe(false);
+
+            breaker.recordSuccess();
+            expect(breaker.tryAcquireTrial()).toBe(true);
+            expect(breaker.tryAcquireTrial()).toBe(true);
+        });
+
+        it('allows a new trial once a failed one has reopened and waited out the breaker', () => {
+            open();
+            jest.advanceTimersByTime(60000);
+            expect(breaker.tryAcquireTrial()).toBe(true);
+
+            breaker.recordFailure();
+            expect(breaker.tryAcquireTrial()).toBe(false);
+
+            jest.advanceTimersByTime(60000);
+            expect(breaker.tryAcquireTrial()).toBe(true);
+            expect(breaker.tryAcquireTrial()).toBe(false);
+        });
+
+        it('lets a trial that never reports back lapse after another open period', () => {
+            open();
+            jest.advanceTimersByTime(60000);
+            expect(breaker.tryAcquireTrial()).toBe(true);
+
+            jest.advanceTimersByTime(59999);
+            expect(breaker.tryAcquireTrial()).toBe(false);
+
+            jest.advanceTimersByTime(1);
+            expect(breaker.tryAcquireTrial()).toBe(true);
+        });
+    });
+});
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { Logger } from '@nestjs/common';
+import { CircuitBreakerState, CircuitBreakerStatus } from '@/common/types';
+
+export interface CircuitBreakerOptions {
+    name: string;                                        // Exchange display name for logs
+    failureThreshold: number;                            // Consecutive failures that open the breaker
+    openDurationMs: number;                              // Time spent OPEN before a HALF_OPEN trial
+}
+
+/**
+ * Per-exchange circuit breaker. CLOSED while connections succeed, OPEN after
+ * too many consecutive failures (no reconnects, prices excluded), HALF_OPEN
+ * once the open period has passed so a single trial can close it again.
+ * Connections ask tryAcquireTrial() before connecting so only that one trial
+ * goes out while HALF_OPEN.
+ */
+export class CircuitBreaker {
+    private readonly logger: Logger;
+    private state: CircuitBreakerState = 'CLOSED';
+    private consecutiveFailures = 0;
+    private openedAt: number | null = null;
+    private openCount = 0;
+    private trialStartedAt: number | null = null;
+
+    constructor(private readonly options: CircuitBreakerOptions) {
+        this.logger = new Logger(`${options.name}CircuitBreaker`);
+    }
+
+    getState(): CircuitBreakerState {
+        if (this.state === 'OPEN' && Date.now() - this.openedAt >= this.options.openDurationMs) {
+            this.state = 'HALF_OPEN';
+            this.logger.log(`🟡 Circuit half-open, allowing a trial connection`);
+        }
+
+        return this.state;
+    }
+
+    isOpen(): boolean {
+        return this.getState() === 'OPEN';
+    }
+
+    /**
+     * Whether a connection may be attempted now: always while CLOSED, never
+     * while OPEN, and while HALF_OPEN only by the first caller until its trial
+     * is recorded as a success or failure. A trial that never reports back
+     * lapses after another open period.
+     */
+    tryAcquireTrial(): boolean {
+        const state = this.getState();
+
+        if (state !== 'HALF_OPEN') {
+            return state === 'CLOSED';
+        }
+
+        if (this.trialStartedAt !== null && Date.now() - this.trialStartedAt < this.options.openDurationMs) {
+            return false;
+        }
+
+        this.trialStartedAt = Date.now();
+        return true;
+    }
+
+    /**
+     * Milliseconds until an OPEN breaker allows a trial (0 when not open)
+     */
+    getRemainingOpenMs(): number {
+        return this.isOpen() ? this.openedAt + this.options.openDurationMs - Date.now() : 0;
+    }
+
+    recordSuccess(): void {
+        if (this.getState() !== 'CLOSED') {
+            this.logger.log(`🟢 Circuit closed after successful trial`);
+        }
+
+        this.state = 'CLOSED';
+        this.consecutiveFailures = 0;
+        this.openedAt = null;
+        this.trialStartedAt = null;
+    }
+
+    recordFailure(): void {
+        this.consecutiveFailures++;
+        const state = this.getState();
+
+        // A failed trial reopens immediately; a closed breaker waits for the threshold
+        if (state === 'HALF_OPEN' || (state === 'CLOSED' && this.consecutiveFailures >= this.options.failureThreshold)) {
+            this.state = 'OPEN';
+            this.openedAt = Date.now();
+            this.trialStartedAt = null;
+            this.openCount++;
+            this.logger.warn(`🔴 Circuit open after ${this.consecutiveFailures} consecutive failures, pausing for ${Math.round(this.options.openDurationMs / 1000)}s`);
+        }
+    }
+
+    getStatus(): CircuitBreakerStatus {
+        const state = this.getState();
+
+        return {
+            state,
+            consecutiveFailures: this.consecutiveFailures,
+            openCount: this.openCount,
+            openedAt: this.openedAt,
+            nextTrialAt: state === 'OPEN' ? this.openedAt + this.options.openDurationMs : null,
+        };
+    }
+}
\ No newline at end of file
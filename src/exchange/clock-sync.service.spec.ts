@@ -0,0 +1,79 @@
+import { ConfigService } from '@nestjs/config';
+import { TelegramService } from '@/telegram/telegram.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { ReplayExchangeService } from './replay-exchange.service';
+import { ClockSyncService } from './clock-sync.service';
+
+describe('ClockSyncService', () => {
+    let serverOffsets: Record<string, number>;
+    let setClockOffset: jest.Mock;
+    let sendSystemAlert: jest.Mock;
+    let service: ClockSyncService;
+
+    // Each adapter answers with its server time 10ms into a 20ms round trip
+    const adapter = (name: string) => ({
+        name,
+        getServerTime: async () => {
+            const sentAt = Date.now();
+            return { serverTime: sentAt + 10 + serverOffsets[name], sentAt, receivedAt: sentAt + 20 };
+        },
+        setClockOffset: (offsetMs: number) => setClockOffset(name, offsetMs),
+    });
+
+    beforeEach(() => {
+        serverOffsets = {};
+        setClockOffset = jest.fn();
+        sendSystemAlert = jest.fn().mockResolvedValue(undefined);
+    });
+
+    const createService = (exchanges: string[]) => {
+        const exchangeRegistry = { getEnabled: () => exchanges.map(adapter) } as unknown as ExchangeRegistry;
+        service = new ClockSyncService(
+            new ConfigService({ CLOCK_DRIFT_ALERT_MS: '1000' }),
+            exchangeRegistry,
+            { sendSystemAlert } as unknown as TelegramService,
+            { isEnabled: () => false } as unknown as ReplayExchangeService,
+        );
+    };
+
+    it('hands each exchange its offset', async () => {
+        serverOffsets = { binance: 150, bybit: -40 };
+        createService(['binance', 'bybit']);
+
+        await service.syncClocks();
+
+        expect(setClockOffset).toHaveBeenCalledWith('binance', 150);
+        expect(setClockOffset).toHaveBeenCalledWith('bybit', -40);
+        expect(service.getStatus().exchanges.binance).toMatchObject({ offsetMs: 150, rttMs: 20 });
+    });
+
+    it('counts the markets of one venue once in the host drift', async () => {
+        // Binance's three markets share one clock that is off; the other venues agree with us
+        serverOffsets = { binance: 2000, binance_spot: 2000, binance_delivery: 2000, bybit: 0, okx: 0 };
+        createService(Object.keys(serverOffsets));
+
+        await service.syncClocks();
+
+        expect(service.getHostDriftMs()).toBe(0);
+        expect(sendSystemAlert).not.toHaveBeenCalled();
+    });
+
+    it('alerts when the venues agree that our clock is off', async () => {
+        serverOffsets = { binance: 1500, binance_spot: 1500, bybit: 1600, okx: 1700 };
+        createService(Object.keys(serverOffsets));
+
+        await service.syncClocks();
+
+        expect(service.getHostDriftMs()).toBe(1600);
+        expect(sendSystemAlert).toHaveBeenCalledWith(expect.stringContaining('1600ms behind'));
+    });
+
+    it('needs two venues for a host drift', async () => {
+        serverOffsets = { binance: 2000, binance_spot: 2000 };
+        createService(Object.keys(serverOffsets));
+
+        await service.syncClocks();
+
+        expect(service.getHostDriftMs()).toBeNull();
+    });
+});
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TelegramService } from '@/telegram/telegram.service';
+import { ClockOffset } from '@/common/types';
+import { ExchangeRegistry } from './exchange.registry';
+import { ReplayExchangeService } from './replay-exchange.service';
+
+/**
+ * Estimates each exchange's clock offset from its server-time endpoint and
+ * hands it to the adapter, which moves event times onto our clock.
+ */
+@Injectable()
+export class ClockSyncService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(ClockSyncService.name);
+    private readonly samples = new Map<string, ClockOffset[]>(); // exchange -> recent samples
+    private readonly offsets = new Map<string, ClockOffset>();
+    private readonly maxSamples = 5;
+    private readonly syncIntervalMs: number;
+    private readonly driftAlertMs: number;
+    private readonly driftAlertCooldownMs: number;
+    private syncTimer: NodeJS.Timeout | null = null;
+    private lastDriftAlertAt = 0;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+        private readonly telegramService: TelegramService,
+        private readonly replayService: ReplayExchangeService,
+    ) {
+        this.syncIntervalMs = parseInt(this.configService.get<string>('CLOCK_SYNC_INTERVAL_SECONDS', '60')) * 1000;
+        this.driftAlertMs = parseInt(this.configService.get<string>('CLOCK_DRIFT_ALERT_MS', '1000'));
+        this.driftAlertCooldownMs = parseInt(this.configService.get<string>('CLOCK_DRIFT_ALERT_COOLDOWN_MINUTES', '60')) * 60 * 1000;
+    }
+
+    onModuleInit() {
+        // Replayed frames carry the recording's event times; offsets from live servers don't apply
+        if (this.replayService.isEnabled()) {
+            return;
+        }
+
+        this.syncClocks();
+
+        this.syncTimer = setInterval(() => {
+            this.syncClocks();
+        }, this.syncIntervalMs);
+    }
+
+    onModuleDestroy() {
+        if (this.syncTimer) {
+            clearInterval(this.syncTimer);
+            this.syncTimer = null;
+        }
+    }
+
+    /**
+     * Sample every enabled exchange's server time, update its offset and check
+     * whether our own clock has drifted
+     */
+    async syncClocks(): Promise<void> {
+        await Promise.all(this.exchangeRegistry.getEnabled().map(async (service) => {
+            try {
+                const sample = await service.getServerTime();
+
+                if (!sample) {
+                    return; // Venue exposes no server time
+                }
+
+                // The round trip covers the HTTP request only, not its wait for rate-limit budget.
+                // Assume the server stamped its time halfway through it.
+                const { serverTime, sentAt, receivedAt } = sample;
+                const rttMs = receivedAt - sentAt;
+                const offset = this.recordSample(service.name, {
+                    offsetMs: serverTime - (sentAt + rttMs / 2),
+                    rttMs,
+                    updatedAt: receivedAt,
+                });
+
+                service.setClockOffset(offset.offsetMs);
+                this.logger.debug(`🕐 ${service.name}: clock offset ${offset.offsetMs.toFixed(0)}ms (rtt ${offset.rttMs}ms)`);
+            } catch (error) {
+                this.logger.warn(`⚠️ Failed to sync clock with ${service.name}: ${error.message}`);
+            }
+        }));
+
+        await this.checkHostDrift();
+    }
+
+    /**
+     * Our clock's drift: the median offset across venues, so a single venue
+     * with a bad clock doesn't count as ours being wrong. Positive means we are behind.
+     */
+    getHostDriftMs(): number | null {
+        // Spot, perp and delivery adapters of one venue read the same server clock, so each venue counts once
+        const venueOffsets = new Map<string, ClockOffset>();
+        for (const [exchangeName, offset] of this.offsets) {
+            if (Date.now() - offset.updatedAt > this.syncIntervalMs * 3) {
+                continue;
+            }
+
+            const venue = exchangeName.split('_')[0];
+            const current = venueOffsets.get(venue);
+            if (!current || offset.rttMs < current.rttMs) {
+                venueOffsets.set(venue, offset);
+            }
+        }
+
+        const offsets = Array.from(venueOffsets.values())
+            .map(offset => offset.offsetMs)
+            .sort((a, b) => a - b);
+
+        if (offsets.length < 2) {
+            return null;
+        }
+
+        const middle = Math.floor(offsets.length / 2);
+        return offsets.length % 2 === 0 ? (offsets[middle - 1] + offsets[middle]) / 2 : offsets[middle];
+    }
+
+    getStatus(): { hostDriftMs: number | null; exchanges: Record<string, ClockOffset> } {
+        return {
+            hostDriftMs: this.getHostDriftMs(),
+            exchanges: Object.fromEntries(this.offsets),
+        };
+    }
+
+    /**
+     * Keep the last few samples and use the one with the shortest round trip,
+     * which has the least room for asymmetric network delay
+     */
+    private recordSample(exchangeName: string, sample: ClockOffset): ClockOffset {
+        const samples = this.samples.get(exchangeName) || [];
+        samples.push(sample);
+        if (samples.length > this.maxSamples) {
+            samples.shift();
+        }
+        this.samples.set(exchangeName, samples);
+
+        const best = samples.reduce((a, b) => (b.rttMs < a.rttMs ? b : a));
+        const offset = { ...best, updatedAt: sample.updatedAt };
+        this.offsets.set(exchangeName, offset);
+
+        return offset;
+    }
+
+    private async checkHostDrift(): Promise<void> {
+        const driftMs = this.getHostDriftMs();
+
+        if (driftMs === null || Math.abs(driftMs) <= this.driftAlertMs) {
+            return;
+        }
+
+        const now = Date.now();
+        if (now - this.lastDriftAlertAt < this.driftAlertCooldownMs) {
+            return;
+        }
+
+        this.lastDriftAlertAt = now;
+        this.logger.warn(`⚠️ Host clock drift: ${driftMs.toFixed(0)}ms from exchange consensus`);
+        await this.telegramService.sendSystemAlert(
+            `🕐 Host clock drift detected\n\nOur clock is ${Math.abs(driftMs).toFixed(0)}ms ${driftMs > 0 ? 'behind' : 'ahead of'} the exchanges (threshold ${this.driftAlertMs}ms). Check NTP on the host.`
+        );
+    }
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { ConfigService } from '@nestjs/config';
+import { ExchangeConfig } from '@/common/types';
+
+/**
+ * Startup configuration of one exchange from the environment:
+ * <NAME>_ENABLED, <NAME>_SANDBOX, <NAME>_RATE_LIMIT and <NAME>_API_KEY /
+ * <NAME>_API_SECRET. ENABLED_EXCHANGES, when set, also has to list the exchange.
+ */
+export function loadExchangeConfig(configService: ConfigService, name: string): ExchangeConfig {
+    const prefix = name.toUpperCase();
+    const enabledExchanges = configService.get<string>('ENABLED_EXCHANGES', '')
+        .split(',')
+        .map(exchange => exchange.trim().toLowerCase())
+        .filter(Boolean);
+    const rateLimit = parseInt(configService.get<string>(`${prefix}_RATE_LIMIT`));
+
+    return {
+        name,
+        apiKey: configService.get<string>(`${prefix}_API_KEY`) || undefined,
+        apiSecret: configService.get<string>(`${prefix}_API_SECRET`) || undefined,
+        sandbox: configService.get<string>(`${prefix}_SANDBOX`, 'false') === 'true',
+        rateLimit: rateLimit > 0 ? rateLimit : undefined,
+        // Empty ENABLED_EXCHANGES means every registered adapter
+        enabled: configService.get<string>(`${prefix}_ENABLED`, 'true') === 'true'
+            && (enabledExchanges.length === 0 || enabledExchanges.includes(name)),
+    };
+}
\ No newline at end of file
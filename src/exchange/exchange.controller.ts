@@ -0,0 +1,56 @@
+import { Controller, Get, Post, Param } from '@nestjs/common';
+import { ExchangeService } from './exchange.service';
+
+@Controller('exchanges')
+export class ExchangeController {
+    constructor(private readonly exchangeService: ExchangeService) { }
+
+    @Get()
+    getExchanges() {
+        return {
+            exchanges: this.exchangeService.getExchangeConfigs(),
+            activeExchanges: this.exchangeService.getActiveExchanges(),
+            timestamp: new Date().toISOString()
+        };
+    }
+
+    @Post(':name/enable')
+    async enableExchange(@Param('name') name: string) {
+        try {
+            const diff = await this.exchangeService.enableExchange(name.toLowerCase());
+            return {
+                message: `Exchange ${name} enabled successfully`,
+                ...diff,
+                activeExchanges: this.exchangeService.getActiveExchanges(),
+                tradingPairs: this.exchangeService.getTradingPairs(),
+                timestamp: new Date().toISOString()
+            };
+        } catch (error) {
+            return {
+                message: `Failed to enable exchange ${name}`,
+                error: error.message,
+                timestamp: new Date().toISOString()
+            };
+        }
+    }
+
+    @Post(':name/disable')
+    async disableExchange(@Param('name') name: string) {
+        try {
+            const diff = await this.exchangeService.disableExchange(name.toLowerCase());
+            return {
+                message: `Exchange ${name} disabled successfully`,
+                ...diff,
+                activeExchanges: this.exchangeService.getActiveExchanges(),
+                tradingPairs: this.exchangeService.getTradingPairs(),
+                timestamp: new Date().toISOString()
+            };
+        } catch (error) {
+            return {
+                message: `Failed to disable exchange ${name}`,
+                error: error.message,
+                timestamp: new Date().toISOString()
+            };
+        }
+    }
+}
\ No newline at end of file
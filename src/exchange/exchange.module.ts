@@ -1,23 +1,62 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { ExchangeService } from './exchange.service';
+import { ExchangeController } from './exchange.controller';
+import { ExchangeRegistry } from './exchange.registry';
+import { ClockSyncService } from './clock-sync.service';
+import { FrameRecorderService } from './frame-recorder.service';
+import { ReplayExchangeService } from './replay-exchange.service';
 import { BinanceService } from './binance.service';
 import { BybitService } from './bybit.service';
 import { MexcService } from './mexc.service';
 import { GateioService } from './gateio.service';
 import { LbankService } from './lbank.service';
+import { OkxService } from './okx.service';
+import { BitgetService } from './bitget.service';
+import { BinanceSpotService } from './binance-spot.service';
+import { BybitSpotService } from './bybit-spot.service';
+import { GateioSpotService } from './gateio-spot.service';
+import { BinanceDeliveryService } from './binance-delivery.service';
+import { BybitDeliveryService } from './bybit-delivery.service';
+import { GateioDeliveryService } from './gateio-delivery.service';
+import { CcxtExchangeService } from './ccxt-exchange.service';
 import { PriceModule } from '@/price/price.module';
 import { TelegramModule } from '@/telegram/telegram.module';
+import { FundingModule } from '@/funding/funding.module';
 
 @Module({
-    imports: [PriceModule, TelegramModule],
+    imports: [PriceModule, TelegramModule, forwardRef(() => FundingModule)], // FundingModule imports this one back for exchange availability
+    controllers: [ExchangeController],
     providers: [
         ExchangeService,
+        ExchangeRegistry,
+        ClockSyncService,
+        FrameRecorderService,
+        ReplayExchangeService,
+        // Exchange adapters register themselves with the ExchangeRegistry
         BinanceService,
         BybitService,
         MexcService,
         GateioService,
         LbankService,
+        OkxService,
+        BitgetService,
+        // Spot markets, compared against the perpetuals by the basis detector
+        BinanceSpotService,
+        BybitSpotService,
+        GateioSpotService,
+        // Dated futures, compared against the perpetuals by the calendar spread detector
+        BinanceDeliveryService,
+        BybitDeliveryService,
+        GateioDeliveryService,
+        // Long-tail venues listed in CCXT_EXCHANGES; the adapters above win for ids they cover
+        {
+            provide: 'CCXT_ADAPTERS',
+            useFactory: (configService: ConfigService, exchangeRegistry: ExchangeRegistry) =>
+                CcxtExchangeService.fromConfig(configService, exchangeRegistry),
+            inject: [ConfigService, ExchangeRegistry],
+        },
     ],
-    exports: [ExchangeService],
+    exports: [ExchangeService, ExchangeRegistry, ClockSyncService],
 })
-export class ExchangeModule { } 
\ No newline at end of file
+export class ExchangeModule { }
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExchangeAdapter, ExchangeConfig } from '@/common/types';
+import { loadExchangeConfig } from './exchange-config';
+import { RestRateLimiter } from './rest-rate-limiter';
+
+@Injectable()
+export class ExchangeRegistry {
+    private readonly logger = new Logger(ExchangeRegistry.name);
+    private readonly adapters = new Map<string, ExchangeAdapter>();
+    private readonly configs = new Map<string, ExchangeConfig>();
+    private readonly sharedRateLimiters = new Map<string, RestRateLimiter>(); // IP budget -> limiter
+
+    constructor(private readonly configService: ConfigService) { }
+
+    /**
+     * Register an exchange adapter under its name and load its configuration
+     */
+    register(adapter: ExchangeAdapter): void {
+        if (this.adapters.has(adapter.name)) {
+            throw new Error(`Exchange adapter ${adapter.name} is already registered`);
+        }
+
+        this.adapters.set(adapter.name, adapter);
+        this.configs.set(adapter.name, loadExchangeConfig(this.configService, adapter.name));
+        this.logger.log(`🧩 Registered exchange adapter: ${adapter.displayName} (${this.isEnabled(adapter.name) ? 'enabled' : 'disabled'})`);
+    }
+
+    /**
+     * Get a registered adapter by name
+     */
+    get(name: string): ExchangeAdapter | undefined {
+        return this.adapters.get(name);
+    }
+
+    /**
+     * Get all registered adapters, enabled or not
+     */
+    getAll(): ExchangeAdapter[] {
+        return Array.from(this.adapters.values());
+    }
+
+    /**
+     * Get adapters that are currently enabled
+     */
+    getEnabled(): ExchangeAdapter[] {
+        return this.getAll().filter(adapter => this.isEnabled(adapter.name));
+    }
+
+    /**
+     * Check if an exchange is currently enabled
+     */
+    isEnabled(name: string): boolean {
+        return this.configs.get(name)?.enabled === true;
+    }
+
+    /**
+     * Enable or disable a registered exchange at runtime. Starting or
+     * stopping the adapter is up to the caller.
+     */
+    setEnabled(name: string, enabled: boolean): void {
+        const config = this.configs.get(name);
+        if (!config) {
+            throw new Error(`Exchange ${name} not found`);
+        }
+
+        config.enabled = enabled;
+        this.logger.log(`🧩 ${this.adapters.get(name)!.displayName} ${enabled ? 'enabled' : 'disabled'}`);
+    }
+
+    /**
+     * Configuration of a registered exchange, without its API credentials
+     */
+    getConfig(name: string): (Omit<ExchangeConfig, 'apiKey' | 'apiSecret'> & { hasCredentials: boolean }) | undefined {
+        const config = this.configs.get(name);
+        if (!config) {
+            return undefined;
+        }
+
+        const { apiKey, apiSecret, ...publicConfig } = config;
+        return { ...publicConfig, hasCredentials: !!apiKey && !!apiSecret };
+    }
+
+    /**
+     * REST limiter shared by every adapter drawing on one venue IP budget,
+     * created by the first adapter that asks for it
+     */
+    getSharedRateLimiter(budget: string, create: () => RestRateLimiter): RestRateLimiter {
+        if (!this.sharedRateLimiters.has(budget)) {
+            this.sharedRateLimiters.set(budget, create());
+        }
+
+        return this.sharedRateLimiters.get(budget)!;
+    }
+}
\ No newline at end of file
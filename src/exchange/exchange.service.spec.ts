@@ -0,0 +1,91 @@
+import { ConfigService } from '@nestjs/config';
+import { ExchangeAdapter, ExchangeSymbol, MarketType } from '@/common/types';
+import { PriceService } from '@/price/price.service';
+import { SymbolNormalizerService } from '@/price/symbol-normalizer.service';
+import { FundingService } from '@/funding/funding.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { ExchangeService } from './exchange.service';
+import { FrameRecorderService } from './frame-recorder.service';
+import { ReplayExchangeService } from './replay-exchange.service';
+
+describe('ExchangeService', () => {
+    let listings: Record<string, string[]>;
+    let fallbacks: Set<string>;
+    let registry: ExchangeRegistry;
+    let service: ExchangeService;
+
+    // Just enough of an adapter for discovery and subscription syncing
+    const adapter = (name: string, marketType: MarketType = 'perp'): ExchangeAdapter => ({
+        name,
+        displayName: name,
+        marketType,
+        getSymbols: async (): Promise<ExchangeSymbol[]> => listings[name].map(symbol => ({
+            symbol,
+            baseAsset: symbol.split('/')[0],
+            quoteAsset: 'USDT',
+            status: 'TRADING',
+            exchange: name,
+            marketType,
+            fallback: fallbacks.has(name),
+            lastUpdated: Date.now(),
+        })),
+        subscribeToTicker: async () => undefined,
+        unsubscribeFromTicker: async () => undefined,
+    }) as unknown as ExchangeAdapter;
+
+    beforeEach(async () => {
+        fallbacks = new Set();
+        listings = {
+            binance: ['BTC/USDT', 'ETH/USDT'],
+            bybit: ['BTC/USDT', 'ETH/USDT'],
+            okx: ['BTC/USDT'],
+        };
+
+        const configService = new ConfigService({ MIN_EXCHANGES_FOR_PAIR: '2' });
+        registry = new ExchangeRegistry(configService);
+        Object.keys(listings).forEach(name => registry.register(adapter(name)));
+
+        service = new ExchangeService(
+            configService,
+            { removePrice: jest.fn() } as unknown as PriceService,
+            new SymbolNormalizerService(configService),
+            {} as FundingService,
+            registry,
+            { recordSubscription: jest.fn() } as unknown as FrameRecorderService,
+            { isEnabled: () => false } as unknown as ReplayExchangeService,
+        );
+
+        await service.refreshCommonPairs();
+    });
+
+    it('reports only pairs an exchange stopped listing as delisted there', async () => {
+        listings.bybit = ['BTC/USDT'];
+
+        const result = await service.refreshCommonPairs();
+
+        // ETH/USDT is no longer common, so Binance unsubscribes it too while still listing it
+        expect(result.removed).toEqual(['ETH/USDT']);
+        expect(result.exchanges.binance.removed).toEqual(['ETH/USDT']);
+        expect(result.delisted).toEqual({ binance: [], bybit: ['ETH/USDT'], okx: [] });
+    });
+
+    it('keeps the previous listings when an exchange falls back to its configured symbols', async () => {
+        listings.bybit = ['BTC/USDT'];
+        fallbacks.add('bybit');
+
+        const result = await service.refreshCommonPairs();
+
+        expect(result.removed).toEqual([]);
+        expect(result.delisted).toEqual({ binance: [], bybit: [], okx: [] });
+        expect(service.getExchangesForSymbol('ETH/USDT')).toEqual(['binance', 'bybit']);
+    });
+
+    it('subscribes nothing on an exchange whose first symbol discovery failed', async () => {
+        listings.binance_spot = [];
+        registry.register(adapter('binance_spot', 'spot'));
+
+        const result = await service.refreshCommonPairs();
+
+        expect(result.exchanges.binance_spot).toEqual({ added: [], removed: [] });
+    });
+});
\ No newline at end of file
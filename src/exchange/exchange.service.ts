@@ -1,39 +1,38 @@
 import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { BinanceService } from './binance.service';
-import { BybitService } from './bybit.service';
-import { MexcService } from './mexc.service';
-import { GateioService } from './gateio.service';
-import { LbankService } from './lbank.service';
 import { PriceService } from '@/price/price.service';
-import { PriceData, SupportedExchanges, ExchangeSymbol } from '@/common/types';
+import { SymbolNormalizerService } from '@/price/symbol-normalizer.service';
+import { FundingService } from '@/funding/funding.service';
+import { PriceData, ExchangeSymbol, ExchangeAdapter, FundingRate, Trade, SubscriptionDiff, PairRefreshResult, InstrumentSpec } from '@/common/types';
+import { ExchangeRegistry } from './exchange.registry';
+import { FrameRecorderService } from './frame-recorder.service';
+import { ReplayExchangeService } from './replay-exchange.service';
 
 @Injectable()
 export class ExchangeService implements OnModuleInit, OnModuleDestroy {
     private readonly logger = new Logger(ExchangeService.name);
-    private readonly exchangeServices = new Map<string, any>();
     private tradingPairs: string[] = [];
-    private readonly discoveredSymbols = new Map<string, Set<string>>(); // exchange -> symbols
+    private readonly discoveredSymbols = new Map<string, Set<string>>(); // exchange -> canonical symbols
+    private readonly exchangeSymbols = new Map<string, Map<string, string>>(); // exchange -> canonical -> exchange symbol
+    private readonly instrumentSpecs = new Map<string, Map<string, InstrumentSpec>>(); // exchange -> canonical -> spec
+    private readonly subscribedPairs = new Map<string, Map<string, string>>(); // exchange -> canonical -> subscribed exchange symbol
     private readonly minExchangeCount: number; // Minimum exchanges required for a pair
+    private readonly fundingPollIntervalMs: number;
+    private fundingPollTimer: NodeJS.Timeout | null = null;
+    private healthCheckTimers: NodeJS.Timeout[] = [];
 
     constructor(
         private readonly configService: ConfigService,
         private readonly priceService: PriceService,
-        private readonly binanceService: BinanceService,
-        private readonly bybitService: BybitService,
-        private readonly mexcService: MexcService,
-        private readonly gateioService: GateioService,
-        private readonly lbankService: LbankService,
+        private readonly symbolNormalizer: SymbolNormalizerService,
+        private readonly fundingService: FundingService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+        private readonly frameRecorder: FrameRecorderService,
+        private readonly replayService: ReplayExchangeService,
     ) {
-        // Register exchange services
-        this.exchangeServices.set(SupportedExchanges.BINANCE, this.binanceService);
-        this.exchangeServices.set(SupportedExchanges.BYBIT, this.bybitService);
-        this.exchangeServices.set(SupportedExchanges.MEXC, this.mexcService);
-        this.exchangeServices.set(SupportedExchanges.GATEIO, this.gateioService);
-        this.exchangeServices.set(SupportedExchanges.LBANK, this.lbankService);
-
         // Initialize minimum exchange count from config
         this.minExchangeCount = parseInt(this.configService.get<string>('MIN_EXCHANGES_FOR_PAIR', '2'));
+        this.fundingPollIntervalMs = parseInt(this.configService.get<string>('FUNDING_POLL_INTERVAL_MINUTES', '5')) * 60 * 1000;
 
         // Initialize with default pairs from config (as fallback)
         const pairs = this.configService.get<string>('TRADING_PAIRS', 'BTC/USDT,ETH/USDT');
@@ -53,8 +52,18 @@ export class ExchangeService implements OnModuleInit, OnModuleDestroy {
     async onModuleDestroy() {
         this.logger.log('🔄 Shutting down Exchange Service...');
 
+        if (this.fundingPollTimer) {
+            clearInterval(this.fundingPollTimer);
+            this.fundingPollTimer = null;
+        }
+
+        this.healthCheckTimers.forEach(timer => clearTimeout(timer));
+        this.healthCheckTimers = [];
+
         // Disconnect all exchange services
-        for (const [exchangeName, service] of this.exchangeServices) {
+        for (const service of this.exchangeRegistry.getEnabled()) {
+            const exchangeName = service.name;
+
             try {
                 await service.disconnect();
                 this.logger.log(`✅ ${exchangeName} disconnected successfully`);
@@ -73,120 +82,231 @@ export class ExchangeService implements OnModuleInit, OnModuleDestroy {
         this.logger.log('🔍 Discovering common USDT pairs across exchanges...');
 
         try {
+            // A replayed session only knows the symbols it recorded
+            const recordedSymbols = this.replayService.isEnabled() ? await this.replayService.getRecordedSymbols() : null;
+
             // Fetch symbols from all exchanges
-            const symbolDiscoveryPromises = Array.from(this.exchangeServices.entries()).map(
-                async ([exchangeName, service]) => {
-                    try {
-                        const symbols = await service.getSymbols();
-                        const usdtSymbols = symbols
-                            .filter((symbol: ExchangeSymbol) => symbol.quoteAsset === 'USDT')
-                            .map((symbol: ExchangeSymbol) => symbol.symbol);
-
-                        this.discoveredSymbols.set(exchangeName, new Set(usdtSymbols));
-                        this.logger.log(`📊 ${exchangeName}: Found ${usdtSymbols.length} USDT pairs`);
-
-                        return { exchangeName, symbols: usdtSymbols };
-                    } catch (error) {
-                        this.logger.error(`❌ Failed to fetch symbols from ${exchangeName}: ${error.message}`);
-                        this.discoveredSymbols.set(exchangeName, new Set());
-                        return { exchangeName, symbols: [] };
-                    }
-                }
-            );
+            await Promise.all(this.exchangeRegistry.getEnabled().map(service => this.discoverExchangeSymbols(service, recordedSymbols)));
 
-            await Promise.all(symbolDiscoveryPromises);
+            this.updateTradingPairs();
+        } catch (error) {
+            this.logger.error(`❌ Error discovering common USDT pairs: ${error.message}`);
+            this.logger.log('🔄 Using fallback pairs from configuration');
+        }
+    }
 
-            // Find common USDT pairs
-            const commonPairs = this.findCommonUSDTPairs();
+    /**
+     * Monitor the pairs common to enough enabled exchanges
+     */
+    private updateTradingPairs(): void {
+        const commonPairs = this.findCommonUSDTPairs();
 
-            if (commonPairs.length === 0) {
-                this.logger.warn('⚠️ No common USDT pairs found! Using fallback pairs from config.');
-                // Keep the original pairs from config as fallback
-            } else {
-                this.tradingPairs = commonPairs;
-                this.logger.log(`✅ Discovered ${commonPairs.length} common USDT pairs:`);
-                this.logger.log(`   ${commonPairs.join(', ')}`);
+        if (commonPairs.length === 0) {
+            this.logger.warn('⚠️ No common USDT pairs found! Using fallback pairs from config.');
+            // Keep the original pairs from config as fallback
+        } else {
+            this.tradingPairs = commonPairs;
+            this.logger.log(`✅ Discovered ${commonPairs.length} common USDT pairs:`);
+            this.logger.log(`   ${commonPairs.join(', ')}`);
+        }
+    }
+
+    /**
+     * Fetch one exchange's USDT listings into the discovery maps, keeping what
+     * was discovered before when the fetch fails or comes back empty
+     */
+    private async discoverExchangeSymbols(service: ExchangeAdapter, recordedSymbols: Map<string, string[]> | null): Promise<void> {
+        const exchangeName = service.name;
+
+        try {
+            const symbols = recordedSymbols
+                ? this.toExchangeSymbols(service, recordedSymbols.get(exchangeName) || [])
+                : await service.getSymbols();
+            const usdtListings = symbols.filter((symbol: ExchangeSymbol) => symbol.quoteAsset === 'USDT');
+            const symbolMap = this.normalizeSymbols(exchangeName, usdtListings.map((symbol: ExchangeSymbol) => symbol.symbol));
+            const usdtSymbols = Array.from(symbolMap.keys());
+
+            // Adapters return an empty list, or the configured fallback symbols, when the request
+            // fails; that is not a mass delisting
+            const fetchFailed = usdtSymbols.length === 0 || symbols.every((symbol: ExchangeSymbol) => symbol.fallback);
+            if (fetchFailed && this.discoveredSymbols.get(exchangeName)?.size) {
+                this.logger.warn(`⚠️ ${exchangeName}: Symbol fetch failed, keeping previously discovered symbols`);
+                return;
             }
 
+            this.discoveredSymbols.set(exchangeName, new Set(usdtSymbols));
+            this.exchangeSymbols.set(exchangeName, symbolMap);
+            this.instrumentSpecs.set(exchangeName, this.collectInstrumentSpecs(exchangeName, symbolMap, usdtListings));
+            this.logger.log(`📊 ${exchangeName}: Found ${usdtSymbols.length} USDT pairs`);
         } catch (error) {
-            this.logger.error(`❌ Error discovering common USDT pairs: ${error.message}`);
-            this.logger.log('🔄 Using fallback pairs from configuration');
+            this.logger.error(`❌ Failed to fetch symbols from ${exchangeName}: ${error.message}`);
+            if (!this.discoveredSymbols.has(exchangeName)) {
+                this.discoveredSymbols.set(exchangeName, new Set());
+            }
         }
     }
 
+    private toExchangeSymbols(service: ExchangeAdapter, symbols: string[]): ExchangeSymbol[] {
+        return symbols.map(symbol => {
+            const [baseAsset, quoteAsset] = symbol.split('/');
+            return { symbol, baseAsset, quoteAsset, status: 'TRADING', exchange: service.name, marketType: service.marketType, lastUpdated: Date.now() };
+        });
+    }
+
     /**
-     * Find USDT pairs that exist on at least the minimum number of exchanges
+     * Map an exchange's symbols to canonical symbols, dropping denylisted ones.
+     * When a venue lists both PEPE and 1000PEPE, the unscaled contract wins.
      */
-    private findCommonUSDTPairs(): string[] {
-        const pairCounts = new Map<string, number>();
-        const pairExchanges = new Map<string, string[]>();
+    private normalizeSymbols(exchangeName: string, symbols: string[]): Map<string, string> {
+        const symbolMap = new Map<string, string>();
+        const multipliers = new Map<string, number>();
+
+        for (const symbol of symbols) {
+            const normalized = this.symbolNormalizer.normalize(exchangeName, symbol);
+            if (!normalized) {
+                continue;
+            }
 
-        // Count how many exchanges each pair appears on
-        for (const [exchangeName, symbols] of this.discoveredSymbols) {
-            for (const symbol of symbols) {
-                const currentCount = pairCounts.get(symbol) || 0;
-                pairCounts.set(symbol, currentCount + 1);
+            const existing = multipliers.get(normalized.symbol);
+            if (existing === undefined || (existing !== 1 && normalized.multiplier === 1)) {
+                symbolMap.set(normalized.symbol, symbol);
+                multipliers.set(normalized.symbol, normalized.multiplier);
+            }
+        }
 
-                if (!pairExchanges.has(symbol)) {
-                    pairExchanges.set(symbol, []);
-                }
-                pairExchanges.get(symbol)!.push(exchangeName);
+        return symbolMap;
+    }
+
+    /**
+     * Instrument specs of the listings chosen for each canonical symbol, in canonical units
+     */
+    private collectInstrumentSpecs(exchangeName: string, symbolMap: Map<string, string>, listings: ExchangeSymbol[]): Map<string, InstrumentSpec> {
+        const listingsBySymbol = new Map(listings.map(listing => [listing.symbol, listing]));
+        const specs = new Map<string, InstrumentSpec>();
+
+        for (const [symbol, exchangeSymbol] of symbolMap) {
+            const spec = listingsBySymbol.get(exchangeSymbol)?.spec;
+            const normalized = this.symbolNormalizer.normalize(exchangeName, exchangeSymbol);
+
+            if (spec && normalized) {
+                specs.set(symbol, this.symbolNormalizer.normalizeSpec(spec, normalized.multiplier));
             }
         }
 
+        return specs;
+    }
+
+    /**
+     * Find USDT pairs whose perpetual exists on at least the minimum number of exchanges
+     */
+    private findCommonUSDTPairs(): string[] {
+        const pairExchanges = this.getPerpListings();
+
         // Filter pairs that exist on at least minExchangeCount exchanges
         const commonPairs: string[] = [];
-        for (const [symbol, count] of pairCounts) {
-            if (count >= this.minExchangeCount) {
+        for (const [symbol, exchanges] of pairExchanges) {
+            if (exchanges.length >= this.minExchangeCount) {
                 commonPairs.push(symbol);
-                const exchanges = pairExchanges.get(symbol) || [];
                 this.logger.debug(`🔗 ${symbol} available on: ${exchanges.join(', ')}`);
             }
         }
 
-        // Sort pairs by popularity (number of exchanges)
+        // Spot books ride along with a common perp under the same symbol; a dated
+        // contract pairs with its own perpetual, so one listing is enough once the underlying is common
+        for (const [exchangeName, symbols] of this.discoveredSymbols) {
+            if (this.exchangeRegistry.get(exchangeName)?.marketType !== 'delivery') {
+                continue;
+            }
+
+            for (const symbol of symbols) {
+                const underlying = this.symbolNormalizer.getUnderlying(symbol);
+
+                if (underlying !== symbol && !commonPairs.includes(symbol) && commonPairs.includes(underlying)) {
+                    commonPairs.push(symbol);
+                    this.logger.debug(`📅 ${symbol} available on: ${this.getExchangesForSymbol(symbol).join(', ')}`);
+                }
+            }
+        }
+
+        // Sort pairs by popularity (number of perp exchanges)
         commonPairs.sort((a, b) => {
-            const countA = pairCounts.get(a) || 0;
-            const countB = pairCounts.get(b) || 0;
+            const countA = pairExchanges.get(a)?.length || 0;
+            const countB = pairExchanges.get(b)?.length || 0;
             return countB - countA; // Sort descending
         });
 
         return commonPairs;
     }
 
+    /**
+     * Perpetual exchanges listing each discovered symbol. Only perps count
+     * toward commonality: a spot or dated book is no perp arbitrage leg.
+     */
+    private getPerpListings(): Map<string, string[]> {
+        const pairExchanges = new Map<string, string[]>();
+
+        for (const [exchangeName, symbols] of this.discoveredSymbols) {
+            if (this.exchangeRegistry.get(exchangeName)?.marketType !== 'perp') {
+                continue;
+            }
+
+            for (const symbol of symbols) {
+                if (!pairExchanges.has(symbol)) {
+                    pairExchanges.set(symbol, []);
+                }
+                pairExchanges.get(symbol)!.push(exchangeName);
+            }
+        }
+
+        return pairExchanges;
+    }
+
     private async startWebSocketConnections() {
         this.logger.log('🔄 Starting WebSocket connections...');
 
         // Initialize all exchange services first
-        for (const [exchangeName, service] of this.exchangeServices) {
+        for (const service of this.exchangeRegistry.getEnabled()) {
             try {
-                await service.initialize();
-                this.logger.log(`✅ ${exchangeName} initialized successfully`);
+                await this.initializeExchange(service);
             } catch (error) {
-                this.logger.error(`❌ Failed to initialize ${exchangeName}: ${error.message}`);
+                this.logger.error(`❌ Failed to initialize ${service.name}: ${error.message}`);
             }
         }
 
-        // Subscribe to price updates for all trading pairs
-        for (const [exchangeName, service] of this.exchangeServices) {
-            try {
-                for (const pair of this.tradingPairs) {
-                    await service.subscribeToTicker(pair, (priceData: PriceData) => {
-                        this.handlePriceUpdate(priceData);
-                    });
-                }
-
-                this.logger.log(`📡 WebSocket subscriptions started for ${exchangeName}`);
-            } catch (error) {
-                this.logger.error(`❌ Failed to start WebSocket for ${exchangeName}: ${error.message}`);
-            }
+        // Subscribe to price updates for the trading pairs each exchange lists
+        for (const service of this.exchangeRegistry.getEnabled()) {
+            const { added } = await this.syncSubscriptions(service);
+            this.logger.log(`📡 WebSocket subscriptions started for ${service.name} (${added.length} pairs)`);
         }
 
         // Start periodic health checks
         this.startHealthChecks();
+
+        // Streams only carry the rate; REST polling fills in intervals and covers venues without streamed funding
+        if (!this.replayService.isEnabled()) {
+            this.startFundingPolling();
+        }
+    }
+
+    private async initializeExchange(service: ExchangeAdapter): Promise<void> {
+        const exchangeName = service.name;
+
+        await service.initialize();
+        service.onFundingRate((fundingRate: FundingRate) => this.handleFundingUpdate(fundingRate));
+        service.onTrade((trade: Trade) => this.handleTrade(trade));
+
+        if (this.frameRecorder.isEnabled()) {
+            service.onFrame((frame: string) => this.frameRecorder.recordFrame(exchangeName, frame));
+        }
+        this.logger.log(`✅ ${exchangeName} initialized successfully`);
     }
 
     private handlePriceUpdate(priceData: PriceData) {
+        // Ticks still in flight from an exchange that was just disabled
+        if (!this.exchangeRegistry.isEnabled(priceData.exchange)) {
+            return;
+        }
+
         try {
             // Update price in the price service
             this.priceService.updatePrice(priceData);
@@ -198,11 +318,63 @@ export class ExchangeService implements OnModuleInit, OnModuleDestroy {
         }
     }
 
+    private handleTrade(trade: Trade) {
+        if (!this.exchangeRegistry.isEnabled(trade.exchange)) {
+            return;
+        }
+
+        try {
+            this.priceService.recordTrade(trade);
+        } catch (error) {
+            this.logger.error(`❌ Error handling trade: ${error.message}`);
+        }
+    }
+
+    private handleFundingUpdate(fundingRate: FundingRate) {
+        try {
+            // Rates are per-contract fractions, so only the symbol needs normalizing
+            const normalized = this.symbolNormalizer.normalize(fundingRate.exchange, fundingRate.symbol);
+            if (!normalized) {
+                return;
+            }
+
+            this.fundingService.updateFundingRate({ ...fundingRate, symbol: normalized.symbol });
+        } catch (error) {
+            this.logger.error(`❌ Error handling funding update: ${error.message}`);
+        }
+    }
+
+    private startFundingPolling() {
+        this.pollFundingRates();
+
+        this.fundingPollTimer = setInterval(() => {
+            this.pollFundingRates();
+        }, this.fundingPollIntervalMs);
+    }
+
+    private async pollFundingRates() {
+        const services = this.exchangeRegistry.getEnabled().filter(service => service.capabilities.fundingRates);
+
+        await Promise.all(services.map(async (service) => {
+            try {
+                const fundingRates = await service.getFundingRates();
+
+                for (const fundingRate of fundingRates) {
+                    this.handleFundingUpdate(fundingRate);
+                }
+
+                this.logger.debug(`💸 ${service.name}: Polled ${fundingRates.length} funding rates`);
+            } catch (error) {
+                this.logger.error(`❌ Failed to poll funding rates from ${service.name}: ${error.message}`);
+            }
+        }));
+    }
+
     /**
      * Get all active exchanges
      */
     getActiveExchanges(): string[] {
-        return Array.from(this.exchangeServices.keys());
+        return this.exchangeRegistry.getEnabled().map(service => service.name);
     }
 
     /**
@@ -215,26 +387,61 @@ export class ExchangeService implements OnModuleInit, OnModuleDestroy {
     /**
      * Get exchange service by name
      */
-    getExchangeService(exchangeName: string): any {
-        return this.exchangeServices.get(exchangeName);
+    getExchangeService(exchangeName: string): ExchangeAdapter | undefined {
+        return this.getEnabledService(exchangeName);
+    }
+
+    /**
+     * Check if an exchange is currently enabled
+     */
+    isExchangeEnabled(exchangeName: string): boolean {
+        return this.exchangeRegistry.isEnabled(exchangeName);
+    }
+
+    /**
+     * Get every registered exchange with its configuration and whether it is
+     * running, API credentials left out
+     */
+    getExchangeConfigs(): Record<string, any> {
+        const configs: Record<string, any> = {};
+
+        for (const service of this.exchangeRegistry.getAll()) {
+            configs[service.name] = {
+                displayName: service.displayName,
+                marketType: service.marketType,
+                ...this.exchangeRegistry.getConfig(service.name),
+                connected: this.isExchangeConnected(service.name),
+            };
+        }
+
+        return configs;
     }
 
     /**
      * Check if an exchange is connected
      */
     isExchangeConnected(exchangeName: string): boolean {
-        const service = this.exchangeServices.get(exchangeName);
+        const service = this.getEnabledService(exchangeName);
         return service ? service.isConnected() : false;
     }
 
+    /**
+     * Check if an exchange's prices can be trusted for detection, i.e. its
+     * circuit breaker is not open
+     */
+    isExchangeAvailable(exchangeName: string): boolean {
+        const service = this.getEnabledService(exchangeName);
+        return service ? service.getCircuitBreakerStatus().state !== 'OPEN' : false;
+    }
+
     /**
      * Get connection status of all exchanges
      */
     getConnectionStatus(): Record<string, boolean> {
         const status: Record<string, boolean> = {};
 
-        for (const [exchangeName, service] of this.exchangeServices) {
-            status[exchangeName] = service.isConnected();
+        for (const service of this.exchangeRegistry.getEnabled()) {
+            status[service.name] = service.isConnected();
         }
 
         return status;
@@ -244,7 +451,7 @@ export class ExchangeService implements OnModuleInit, OnModuleDestroy {
      * Reconnect to a specific exchange
      */
     async reconnectExchange(exchangeName: string): Promise<void> {
-        const service = this.exchangeServices.get(exchangeName);
+        const service = this.getEnabledService(exchangeName);
 
         if (!service) {
             throw new Error(`Exchange ${exchangeName} not found`);
@@ -256,12 +463,9 @@ export class ExchangeService implements OnModuleInit, OnModuleDestroy {
             await service.disconnect();
             await service.initialize();
 
-            // Re-subscribe to tickers
-            for (const pair of this.tradingPairs) {
-                await service.subscribeToTicker(pair, (priceData: PriceData) => {
-                    this.handlePriceUpdate(priceData);
-                });
-            }
+            // Disconnecting dropped every ticker, so re-subscribe from scratch
+            this.subscribedPairs.delete(exchangeName);
+            await this.syncSubscriptions(service);
 
             this.logger.log(`✅ Successfully reconnected to ${exchangeName}`);
         } catch (error) {
@@ -272,14 +476,14 @@ export class ExchangeService implements OnModuleInit, OnModuleDestroy {
 
     private startHealthChecks() {
         // Check exchange health every 5 minutes
-        setInterval(() => {
+        this.healthCheckTimers.push(setInterval(() => {
             this.performHealthCheck();
-        }, 5 * 60 * 1000); // 5 minutes
+        }, 5 * 60 * 1000)); // 5 minutes
 
         // Initial health check after 30 seconds
-        setTimeout(() => {
+        this.healthCheckTimers.push(setTimeout(() => {
             this.performHealthCheck();
-        }, 30 * 1000);
+        }, 30 * 1000));
     }
 
     private async performHealthCheck() {
@@ -288,24 +492,18 @@ export class ExchangeService implements OnModuleInit, OnModuleDestroy {
         const workingExchanges: string[] = [];
         const failedExchanges: string[] = [];
 
-        for (const [exchangeName, service] of this.exchangeServices) {
+        for (const service of this.exchangeRegistry.getEnabled()) {
+            const exchangeName = service.name;
+
             try {
-                const isConnected = service.isConnected();
-                const connectionCount = service.getConnectionCount ? service.getConnectionCount() : 0;
+                const { connected: isConnected, connectionCount, topicCount, circuitBreaker } = service.getStatus();
 
                 if (isConnected && connectionCount > 0) {
-                    workingExchanges.push(`${exchangeName} (${connectionCount} connections)`);
+                    workingExchanges.push(`${exchangeName} (${connectionCount} sockets, ${topicCount} topics)`);
                 } else {
-                    failedExchanges.push(exchangeName);
-
-                    // Attempt to reconnect failed exchanges
-                    this.logger.warn(`⚠️ ${exchangeName} is not connected, attempting to reconnect...`);
-                    try {
-                        await this.reconnectExchange(exchangeName);
-                        this.logger.log(`✅ ${exchangeName} reconnected successfully`);
-                    } catch (error) {
-                        this.logger.error(`❌ Failed to reconnect ${exchangeName}: ${error.message}`);
-                    }
+                    // Sockets reconnect themselves with backoff; a full reinitialize here would only add load
+                    failedExchanges.push(`${exchangeName} (circuit ${circuitBreaker.state})`);
+                    this.logger.warn(`⚠️ ${exchangeName} is not connected, circuit ${circuitBreaker.state} after ${circuitBreaker.consecutiveFailures} consecutive failures`);
                 }
             } catch (error) {
                 failedExchanges.push(exchangeName);
@@ -331,19 +529,26 @@ export class ExchangeService implements OnModuleInit, OnModuleDestroy {
     getDetailedStatus(): Record<string, any> {
         const status: Record<string, any> = {};
 
-        for (const [exchangeName, service] of this.exchangeServices) {
+        for (const service of this.exchangeRegistry.getEnabled()) {
+            const exchangeName = service.name;
+
             try {
                 status[exchangeName] = {
-                    connected: service.isConnected(),
-                    connectionCount: service.getConnectionCount ? service.getConnectionCount() : 0,
-                    connectedSymbols: service.getConnectedSymbols ? service.getConnectedSymbols() : [],
+                    ...service.getStatus(),
+                    capabilities: service.capabilities,
                     lastUpdate: new Date().toISOString()
                 };
             } catch (error) {
                 status[exchangeName] = {
                     connected: false,
                     connectionCount: 0,
+                    topicCount: 0,
                     connectedSymbols: [],
+                    recycledConnections: 0,
+                    latency: { samples: 0, p50: null, p95: null, p99: null },
+                    restFallbackSymbols: [],
+                    circuitBreaker: null,
+                    rateLimit: null,
                     error: error.message,
                     lastUpdate: new Date().toISOString()
                 };
@@ -357,35 +562,21 @@ export class ExchangeService implements OnModuleInit, OnModuleDestroy {
      * Get information about discovered common pairs
      */
     getCommonPairsInfo(): Record<string, any> {
-        const pairCounts = new Map<string, number>();
-        const pairExchanges = new Map<string, string[]>();
-
-        // Count how many exchanges each pair appears on
-        for (const [exchangeName, symbols] of this.discoveredSymbols) {
-            for (const symbol of symbols) {
-                const currentCount = pairCounts.get(symbol) || 0;
-                pairCounts.set(symbol, currentCount + 1);
-
-                if (!pairExchanges.has(symbol)) {
-                    pairExchanges.set(symbol, []);
-                }
-                pairExchanges.get(symbol)!.push(exchangeName);
-            }
-        }
+        const pairExchanges = this.getPerpListings();
 
         const commonPairs: Record<string, any> = {};
-        for (const [symbol, count] of pairCounts) {
-            if (count >= this.minExchangeCount) {
+        for (const [symbol, exchanges] of pairExchanges) {
+            if (exchanges.length >= this.minExchangeCount) {
                 commonPairs[symbol] = {
-                    exchangeCount: count,
-                    exchanges: pairExchanges.get(symbol) || [],
+                    exchangeCount: exchanges.length,
+                    exchanges,
                     isMonitored: this.tradingPairs.includes(symbol)
                 };
             }
         }
 
         return {
-            totalDiscoveredPairs: pairCounts.size,
+            totalDiscoveredPairs: new Set(Array.from(this.discoveredSymbols.values()).flatMap(symbols => Array.from(symbols))).size,
             commonPairs,
             commonPairsCount: Object.keys(commonPairs).length,
             minExchangeCount: this.minExchangeCount,
@@ -394,46 +585,199 @@ export class ExchangeService implements OnModuleInit, OnModuleDestroy {
     }
 
     /**
-     * Refresh discovered pairs and update trading pairs
+     * Refresh discovered pairs and subscribe/unsubscribe only the tickers that
+     * changed, leaving every untouched feed running
      */
-    async refreshCommonPairs(): Promise<void> {
+    async refreshCommonPairs(): Promise<PairRefreshResult> {
         this.logger.log('🔄 Refreshing common USDT pairs...');
 
-        const oldPairsCount = this.tradingPairs.length;
+        const oldPairs = new Set(this.tradingPairs);
+        const oldListings = new Map(Array.from(this.discoveredSymbols).map(([exchangeName, symbols]) => [exchangeName, new Set(symbols)]));
         await this.discoverCommonUSDTPairs();
-        const newPairsCount = this.tradingPairs.length;
 
-        this.logger.log(`🔄 Pairs refreshed: ${oldPairsCount} → ${newPairsCount}`);
+        // Only a pair gone from the exchange's own listings is delisted there; one that merely
+        // stopped being common is unsubscribed too, but the exchange still trades it
+        const delisted: Record<string, string[]> = {};
+        for (const [exchangeName, symbols] of this.discoveredSymbols) {
+            const previous = oldListings.get(exchangeName) || new Set<string>();
+            delisted[exchangeName] = Array.from(previous).filter(pair => oldPairs.has(pair) && !symbols.has(pair));
+        }
+
+        return this.syncAllSubscriptions(oldPairs, delisted);
+    }
+
+    /**
+     * Start a disabled exchange: connect it, discover its listings and
+     * subscribe every enabled exchange to the pairs that are now common
+     */
+    async enableExchange(exchangeName: string): Promise<PairRefreshResult> {
+        const service = this.exchangeRegistry.get(exchangeName);
+
+        if (!service) {
+            throw new Error(`Exchange ${exchangeName} not found`);
+        }
+        if (this.exchangeRegistry.isEnabled(exchangeName)) {
+            throw new Error(`Exchange ${exchangeName} is already enabled`);
+        }
+
+        this.logger.log(`▶️ Enabling ${exchangeName}...`);
+        this.exchangeRegistry.setEnabled(exchangeName, true);
+
+        try {
+            await this.initializeExchange(service);
+        } catch (error) {
+            this.exchangeRegistry.setEnabled(exchangeName, false);
+            await service.disconnect().catch(() => undefined); // Drop whatever half-opened
+            this.logger.error(`❌ Failed to enable ${exchangeName}: ${error.message}`);
+            throw error;
+        }
+
+        const oldPairs = new Set(this.tradingPairs);
+        const recordedSymbols = this.replayService.isEnabled() ? await this.replayService.getRecordedSymbols() : null;
+        await this.discoverExchangeSymbols(service, recordedSymbols);
+        this.updateTradingPairs();
+
+        return this.syncAllSubscriptions(oldPairs);
+    }
+
+    /**
+     * Stop an enabled exchange: disconnect it, forget its listings, prices and
+     * funding rates, and drop pairs that are no longer common to enough exchanges
+     */
+    async disableExchange(exchangeName: string): Promise<PairRefreshResult> {
+        const service = this.exchangeRegistry.get(exchangeName);
+
+        if (!service) {
+            throw new Error(`Exchange ${exchangeName} not found`);
+        }
+        if (!this.exchangeRegistry.isEnabled(exchangeName)) {
+            throw new Error(`Exchange ${exchangeName} is already disabled`);
+        }
 
-        // Re-subscribe to new pairs if needed
-        if (oldPairsCount !== newPairsCount) {
-            this.logger.log('🔄 Re-subscribing to updated trading pairs...');
-            await this.resubscribeToTradingPairs();
+        this.logger.log(`⏹️ Disabling ${exchangeName}...`);
+
+        // Disabled first so detection, health checks and funding polls skip it while it shuts down
+        this.exchangeRegistry.setEnabled(exchangeName, false);
+
+        try {
+            await service.disconnect();
+        } catch (error) {
+            this.logger.error(`❌ Failed to disconnect ${exchangeName}: ${error.message}`);
+        }
+
+        for (const [pair, exchangeSymbol] of this.subscribedPairs.get(exchangeName) || []) {
+            this.frameRecorder.recordSubscription(exchangeName, exchangeSymbol, false);
+            this.priceService.removePrice(pair, exchangeName);
         }
+        this.fundingService.removeFundingRates(exchangeName);
+
+        this.subscribedPairs.delete(exchangeName);
+        this.discoveredSymbols.delete(exchangeName);
+        this.exchangeSymbols.delete(exchangeName);
+        this.instrumentSpecs.delete(exchangeName);
+
+        const oldPairs = new Set(this.tradingPairs);
+        this.updateTradingPairs();
+
+        return this.syncAllSubscriptions(oldPairs);
     }
 
     /**
-     * Re-subscribe to trading pairs on all exchanges
+     * Bring every enabled exchange's subscriptions in line with the current
+     * trading pairs, reporting what changed since oldPairs
      */
-    private async resubscribeToTradingPairs(): Promise<void> {
-        for (const [exchangeName, service] of this.exchangeServices) {
+    private async syncAllSubscriptions(oldPairs: Set<string>, delisted: Record<string, string[]> = {}): Promise<PairRefreshResult> {
+        const newPairs = new Set(this.tradingPairs);
+
+        const result: PairRefreshResult = {
+            added: this.tradingPairs.filter(pair => !oldPairs.has(pair)),
+            removed: Array.from(oldPairs).filter(pair => !newPairs.has(pair)),
+            exchanges: {},
+            delisted,
+        };
+
+        this.logger.log(`🔄 Pairs refreshed: ${oldPairs.size} → ${newPairs.size} (+${result.added.length} / -${result.removed.length})`);
+
+        for (const service of this.exchangeRegistry.getEnabled()) {
+            result.exchanges[service.name] = await this.syncSubscriptions(service);
+        }
+
+        return result;
+    }
+
+    /**
+     * Bring an exchange's ticker subscriptions in line with the pairs it should
+     * monitor, returning the tickers actually subscribed and unsubscribed
+     */
+    private async syncSubscriptions(service: ExchangeAdapter): Promise<SubscriptionDiff> {
+        const exchangeName = service.name;
+        const subscribed = this.subscribedPairs.get(exchangeName) || new Map<string, string>();
+        const target = new Set(this.getTargetPairs(exchangeName));
+        const diff: SubscriptionDiff = { added: [], removed: [] };
+
+        this.subscribedPairs.set(exchangeName, subscribed);
+
+        for (const [pair, exchangeSymbol] of Array.from(subscribed).filter(([pair]) => !target.has(pair))) {
             try {
-                // Disconnect and reconnect to refresh subscriptions
-                await service.disconnect();
-                await service.initialize();
+                await service.unsubscribeFromTicker(exchangeSymbol);
+                this.frameRecorder.recordSubscription(exchangeName, exchangeSymbol, false);
+                subscribed.delete(pair);
+                this.priceService.removePrice(pair, exchangeName);
+                diff.removed.push(pair);
+            } catch (error) {
+                this.logger.error(`❌ Failed to unsubscribe ${exchangeName} from ${pair}: ${error.message}`);
+            }
+        }
 
-                // Subscribe to new pairs
-                for (const pair of this.tradingPairs) {
-                    await service.subscribeToTicker(pair, (priceData: PriceData) => {
-                        this.handlePriceUpdate(priceData);
-                    });
-                }
+        for (const pair of Array.from(target).filter(pair => !subscribed.has(pair))) {
+            const exchangeSymbol = this.getExchangeSymbol(exchangeName, pair);
 
-                this.logger.log(`✅ Re-subscribed ${exchangeName} to ${this.tradingPairs.length} pairs`);
+            try {
+                await service.subscribeToTicker(exchangeSymbol, (priceData: PriceData) => {
+                    this.handlePriceUpdate(priceData);
+                });
+                this.frameRecorder.recordSubscription(exchangeName, exchangeSymbol, true);
+                subscribed.set(pair, exchangeSymbol);
+                diff.added.push(pair);
             } catch (error) {
-                this.logger.error(`❌ Failed to re-subscribe ${exchangeName}: ${error.message}`);
+                // Usually the whole adapter is down; the remaining pairs are picked up by the next sync
+                this.logger.error(`❌ Failed to subscribe ${exchangeName} to ${pair}: ${error.message}`);
+                break;
             }
         }
+
+        if (diff.added.length > 0 || diff.removed.length > 0) {
+            this.logger.log(`🔄 ${exchangeName} subscriptions: +${diff.added.length} / -${diff.removed.length}`);
+        }
+
+        return diff;
+    }
+
+    /**
+     * Symbol an exchange lists a canonical pair under, e.g. 1000PEPE/USDT for PEPE/USDT
+     */
+    getExchangeSymbol(exchangeName: string, symbol: string): string {
+        return this.exchangeSymbols.get(exchangeName)?.get(symbol) || symbol;
+    }
+
+    /**
+     * Trading pairs an exchange should stream: those it lists, or those already
+     * subscribed when its symbol discovery failed. Spot and delivery adapters
+     * list only some of the perp pairs, so they can't stand in for a listing.
+     */
+    private getTargetPairs(exchangeName: string): string[] {
+        const listed = this.discoveredSymbols.get(exchangeName);
+
+        if (!listed || listed.size === 0) {
+            const subscribed = this.subscribedPairs.get(exchangeName);
+            return this.tradingPairs.filter(pair => subscribed?.has(pair));
+        }
+
+        return this.tradingPairs.filter(pair => listed.has(pair));
+    }
+
+    private getEnabledService(exchangeName: string): ExchangeAdapter | undefined {
+        return this.exchangeRegistry.isEnabled(exchangeName) ? this.exchangeRegistry.get(exchangeName) : undefined;
     }
 
     /**
@@ -450,10 +794,27 @@ export class ExchangeService implements OnModuleInit, OnModuleDestroy {
     }
 
     /**
-     * Check if a symbol is available on minimum required exchanges
+     * Get the instrument spec of a symbol on every exchange that lists it,
+     * refreshed with each discovery
+     */
+    getInstrumentSpecs(symbol: string): Record<string, InstrumentSpec & { exchangeSymbol: string }> {
+        const specs: Record<string, InstrumentSpec & { exchangeSymbol: string }> = {};
+
+        for (const [exchangeName, exchangeSpecs] of this.instrumentSpecs) {
+            const spec = exchangeSpecs.get(symbol);
+            if (spec) {
+                specs[exchangeName] = { exchangeSymbol: this.getExchangeSymbol(exchangeName, symbol), ...spec };
+            }
+        }
+
+        return specs;
+    }
+
+    /**
+     * Check if a symbol's perpetual is available on minimum required exchanges
      */
     isSymbolEligible(symbol: string): boolean {
-        const exchanges = this.getExchangesForSymbol(symbol);
+        const exchanges = this.getPerpListings().get(symbol) || [];
         return exchanges.length >= this.minExchangeCount;
     }
 } 
\ No newline at end of file
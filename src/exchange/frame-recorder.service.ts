@@ -0,0 +1,108 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * One line of a recording: either a raw data frame or a subscription change.
+ * Subscriptions let a replay know which symbols to subscribe before frames arrive.
+ */
+export interface RecordedFrame {
+    receivedAt: number;
+    exchange: string;
+    frame?: string;                      // Raw WebSocket text
+    subscribe?: string;                  // Exchange symbol subscribed
+    unsubscribe?: string;
+}
+
+/**
+ * Writes raw WebSocket frames from every adapter to rotating NDJSON files,
+ * for replay with ReplayExchangeService.
+ */
+@Injectable()
+export class FrameRecorderService implements OnModuleDestroy {
+    private readonly logger = new Logger(FrameRecorderService.name);
+    private readonly enabled: boolean;
+    private readonly directory: string;
+    private readonly maxFileBytes: number;
+    private readonly subscriptions = new Map<string, Set<string>>(); // exchange -> subscribed exchange symbols
+    private stream: fs.WriteStream | null = null;
+    private bytesWritten = 0;
+
+    constructor(private readonly configService: ConfigService) {
+        this.enabled = this.configService.get<string>('FRAME_RECORDING_ENABLED', 'false') === 'true';
+        this.directory = this.configService.get<string>('FRAME_RECORDING_DIR', './recordings');
+        this.maxFileBytes = parseInt(this.configService.get<string>('FRAME_RECORDING_MAX_FILE_MB', '100')) * 1024 * 1024;
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    recordFrame(exchange: string, frame: string): void {
+        this.write({ receivedAt: Date.now(), exchange, frame });
+    }
+
+    recordSubscription(exchange: string, symbol: string, subscribed: boolean): void {
+        if (!this.enabled) {
+            return;
+        }
+
+        // Written before the set changes, so a rotation it triggers doesn't already list the change
+        this.write(subscribed
+            ? { receivedAt: Date.now(), exchange, subscribe: symbol }
+            : { receivedAt: Date.now(), exchange, unsubscribe: symbol });
+
+        const symbols = this.subscriptions.get(exchange) || new Set<string>();
+        if (subscribed) {
+            symbols.add(symbol);
+        } else {
+            symbols.delete(symbol);
+        }
+        this.subscriptions.set(exchange, symbols);
+    }
+
+    onModuleDestroy() {
+        this.stream?.end();
+        this.stream = null;
+    }
+
+    private write(record: RecordedFrame): void {
+        if (!this.enabled) {
+            return;
+        }
+
+        if (!this.stream || this.bytesWritten >= this.maxFileBytes) {
+            this.rotate();
+        }
+
+        const line = JSON.stringify(record) + '\n';
+        this.stream.write(line);
+        this.bytesWritten += Buffer.byteLength(line);
+    }
+
+    /**
+     * Start a new file, opening it with the current subscriptions so every
+     * file can be replayed on its own
+     */
+    private rotate(): void {
+        this.stream?.end();
+
+        fs.mkdirSync(this.directory, { recursive: true });
+        const filePath = path.join(this.directory, `frames-${new Date().toISOString().replace(/[:.]/g, '-')}.ndjson`);
+
+        this.stream = fs.createWriteStream(filePath, { flags: 'a' });
+        this.stream.on('error', (error) => this.logger.error(`❌ Frame recording failed: ${error.message}`));
+        this.bytesWritten = 0;
+        this.logger.log(`🎙️ Recording frames to ${filePath}`);
+
+        const now = Date.now();
+        for (const [exchange, symbols] of this.subscriptions) {
+            for (const symbol of symbols) {
+                const line = JSON.stringify({ receivedAt: now, exchange, subscribe: symbol }) + '\n';
+                this.stream.write(line);
+                this.bytesWritten += Buffer.byteLength(line);
+            }
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,224 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PriceData, SupportedExchanges, ExchangeSymbol, ExchangeCapabilities, MarketType, ServerTimeSample } from '@/common/types';
+import { BaseExchangeService } from './base-exchange.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { RestRateLimit } from './rest-rate-limiter';
+import { WsHeartbeat } from './ws-connection-pool';
+import { OrderBookLevel } from './order-book';
+
+/**
+ * Gate.io USDT-settled delivery futures (BTC_USDT_20250926). They have their
+ * own REST and WebSocket endpoints but speak the futures channel protocol.
+ */
+@Injectable()
+export class GateioDeliveryService extends BaseExchangeService {
+    readonly name = SupportedExchanges.GATEIO_DELIVERY;
+    readonly displayName = 'Gate.io Delivery';
+    readonly marketType: MarketType = 'delivery';
+    readonly capabilities: ExchangeCapabilities = {
+        tickerStream: true,
+        symbolDiscovery: true,
+        orderBook: true,
+        fundingRates: false, // Dated contracts converge at delivery instead of paying funding
+        tradeStream: true,
+    };
+
+    protected readonly wsUrl = this.endpoint('WS', 'wss://fx-ws.gateio.ws/v4/ws/delivery/usdt', 'wss://fx-ws-testnet.gateio.ws/v4/ws/delivery/usdt');
+    protected readonly maxTopicsPerConnection = 200;
+    protected readonly maxTopicsPerMessage = 50;
+    private readonly apiUrl = this.endpoint('REST', 'https://api.gateio.ws/api/v4', 'https://fx-api-testnet.gateio.ws/api/v4');
+    protected readonly restRateLimit: RestRateLimit = { weightLimit: 200, windowMs: 10000 }; // Public endpoints: 200 requests per 10s
+    protected readonly heartbeat: WsHeartbeat = {
+        buildPing: () => ({ time: Math.floor(Date.now() / 1000), channel: 'futures.ping' }),
+        isPong: (message) => message.channel === 'futures.pong',
+    };
+    private readonly contractSizes = new Map<string, number>(); // BTC_USDT_20250926 -> base units per contract
+
+    constructor(
+        configService: ConfigService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+    ) {
+        super(configService);
+        this.exchangeRegistry.register(this);
+    }
+
+    async getSymbols(): Promise<ExchangeSymbol[]> {
+        try {
+            const response = await this.rest.fetch(`${this.apiUrl}/delivery/usdt/contracts`);
+            const data = await response.json();
+
+            return data
+                .filter((contract: any) => contract.in_delisting === false)
+                .map((contract: any) => {
+                    const [baseAsset, quoteAsset] = contract.underlying.split('_');
+                    const contractSize = parseFloat(contract.quanto_multiplier || '1');
+                    const expiryTime = contract.expire_time * 1000; // Seconds to ms
+                    this.contractSizes.set(contract.name, contractSize);
+
+                    return {
+                        symbol: this.formatDatedSymbol(baseAsset, quoteAsset, expiryTime),
+                        baseAsset,
+                        quoteAsset,
+                        status: 'TRADING',
+                        exchange: SupportedExchanges.GATEIO_DELIVERY,
+                        marketType: this.marketType,
+                        minTradeAmount: parseFloat(contract.order_size_min || '0'),
+                        tickSize: parseFloat(contract.order_price_round || '0'),
+                        contractSize,
+                        spec: {
+                            contractSize,
+                            tickSize: this.parseOptionalNumber(contract.order_price_round),
+                            lotStep: contractSize, // Orders are whole contracts
+                            minQty: (this.parseOptionalNumber(contract.order_size_min) ?? 1) * contractSize,
+                            minNotional: null,
+                            maxLeverage: this.parseOptionalNumber(contract.leverage_max),
+                            marginAsset: 'USDT', // USDT-settled delivery endpoint
+                            launchTime: null,
+                            expiryTime,
+                        },
+                        lastUpdated: Date.now(),
+                    };
+                });
+        } catch (error) {
+            this.logger.error(`❌ Failed to fetch Gate.io Delivery symbols: ${error.message}`);
+            return [];
+        }
+    }
+
+    async getServerTime(): Promise<ServerTimeSample> {
+        // Futures have no time endpoint; the spot one shares the same clock
+        const { response, sentAt, receivedAt } = await this.rest.timedFetch(`${this.apiUrl}/spot/time`);
+        const data = await response.json();
+        return { serverTime: data.server_time, sentAt, receivedAt };
+    }
+
+    protected async fetchRestTickers(): Promise<Map<string, Partial<PriceData>>> {
+        const response = await this.rest.fetch(`${this.apiUrl}/delivery/usdt/tickers`);
+        const data = await response.json();
+
+        return new Map(data.map((ticker: any) => [ticker.contract, {
+            ...this.parseTickerData(ticker, ticker.contract),
+            bestBid: parseFloat(ticker.highest_bid),
+            bestAsk: parseFloat(ticker.lowest_ask),
+        }]));
+    }
+
+    protected formatSymbolForStream(symbol: string): string {
+        // Convert BTC/USDT-250926 to BTC_USDT_20250926
+        const [pair, expiry] = symbol.split('-');
+        return `${pair.replace('/', '_')}_20${expiry}`;
+    }
+
+    protected getTopics(streamSymbol: string): string[] {
+        // Topics are "<channel>:<contract>"; Gate.io subscribes contracts as channel payload
+        const topics = [`futures.tickers:${streamSymbol}`];
+
+        if (this.orderBookEnabled) {
+            topics.push(`futures.book_ticker:${streamSymbol}`);
+        }
+
+        if (this.tradeStreamsEnabled) {
+            topics.push(`futures.trades:${streamSymbol}`);
+        }
+
+        return topics;
+    }
+
+    protected buildSubscribeMessages(topics: string[]): object[] {
+        return this.buildChannelMessages(topics, 'subscribe');
+    }
+
+    protected buildUnsubscribeMessages(topics: string[]): object[] {
+        return this.buildChannelMessages(topics, 'unsubscribe');
+    }
+
+    protected handleMessage(message: any): void {
+        if (message.event !== 'update' || !message.result) {
+            return;
+        }
+
+        if (message.channel === 'futures.tickers') {
+            // A single update can carry tickers for several contracts
+            const tickers = Array.isArray(message.result) ? message.result : [message.result];
+
+            for (const ticker of tickers) {
+                const symbol = this.resolveSymbol(ticker.contract);
+
+                if (symbol) {
+                    this.publish(symbol, { ...this.parseTickerData(ticker, symbol), eventTime: message.time_ms });
+                }
+            }
+        } else if (message.channel === 'futures.book_ticker') {
+            const bookTicker = message.result;
+            const symbol = this.resolveSymbol(bookTicker.s);
+
+            if (symbol) {
+                // Book ticker carries only the best level of each side
+                this.updateOrderBook(
+                    symbol,
+                    this.parseContractLevels([[bookTicker.b, bookTicker.B]], bookTicker.s),
+                    this.parseContractLevels([[bookTicker.a, bookTicker.A]], bookTicker.s),
+                    true,
+                    bookTicker.t
+                );
+            }
+        } else if (message.channel === 'futures.trades') {
+            for (const trade of message.result) {
+                const symbol = this.resolveSymbol(trade.contract);
+                const size = parseFloat(trade.size);
+
+                if (symbol) {
+                    // Sizes are signed contract counts, negative when the taker sold
+                    this.publishTrade(symbol, {
+                        price: parseFloat(trade.price),
+                        size: Math.abs(size) * (this.contractSizes.get(trade.contract) || 1),
+                        side: size < 0 ? 'sell' : 'buy',
+                        eventTime: trade.create_time_ms,
+                    });
+                }
+            }
+        }
+    }
+
+    private buildChannelMessages(topics: string[], event: 'subscribe' | 'unsubscribe'): object[] {
+        const contractsByChannel = new Map<string, string[]>();
+
+        for (const topic of topics) {
+            const [channel, contract] = topic.split(':');
+
+            if (!contractsByChannel.has(channel)) {
+                contractsByChannel.set(channel, []);
+            }
+            contractsByChannel.get(channel)!.push(contract);
+        }
+
+        return Array.from(contractsByChannel.entries()).map(([channel, contracts]) => ({
+            time: Math.floor(Date.now() / 1000),
+            channel,
+            event,
+            payload: contracts
+        }));
+    }
+
+    private parseContractLevels(levels: any[], contract: string): OrderBookLevel[] {
+        const contractSize = this.contractSizes.get(contract) || 1;
+        return this.parseLevels(levels).map(([price, size]) => [price, size * contractSize] as OrderBookLevel);
+    }
+
+    private parseTickerData(data: any, symbol: string): Partial<PriceData> {
+        return {
+            symbol,
+            price: parseFloat(data.last), // Last price
+            exchange: SupportedExchanges.GATEIO_DELIVERY,
+            timestamp: Date.now(),
+            markPrice: parseFloat(data.mark_price),
+            indexPrice: parseFloat(data.index_price),
+            volume: parseFloat(data.volume_24h || '0'), // 24h volume
+            quoteVolume: parseFloat(data.volume_24h_quote),
+            openInterest: parseFloat(data.total_size) * (this.contractSizes.get(data.contract) || 1), // Contracts to base units
+            high: parseFloat(data.high_24h || '0'), // 24h high
+            low: parseFloat(data.low_24h || '0'), // 24h low
+        };
+    }
+}
\ No newline at end of file
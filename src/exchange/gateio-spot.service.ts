@@ -0,0 +1,197 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PriceData, SupportedExchanges, ExchangeSymbol, ExchangeCapabilities, MarketType, ServerTimeSample } from '@/common/types';
+import { BaseExchangeService } from './base-exchange.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { RestRateLimit } from './rest-rate-limiter';
+import { WsHeartbeat } from './ws-connection-pool';
+
+@Injectable()
+export class GateioSpotService extends BaseExchangeService {
+    readonly name = SupportedExchanges.GATEIO_SPOT;
+    readonly displayName = 'Gate.io Spot';
+    readonly marketType: MarketType = 'spot';
+    readonly capabilities: ExchangeCapabilities = {
+        tickerStream: true,
+        symbolDiscovery: true,
+        orderBook: true,
+        fundingRates: false, // Spot market, no perpetual funding
+        tradeStream: true,
+    };
+
+    // Gate.io runs no public spot testnet
+    protected readonly wsUrl = this.endpoint('WS', 'wss://api.gateio.ws/ws/v4/');
+    protected readonly maxTopicsPerConnection = 200;
+    protected readonly maxTopicsPerMessage = 50;
+    private readonly apiUrl = this.endpoint('REST', 'https://api.gateio.ws/api/v4');
+    protected readonly restRateLimit: RestRateLimit = { weightLimit: 200, windowMs: 10000 }; // Public endpoints: 200 requests per 10s
+    protected readonly heartbeat: WsHeartbeat = {
+        buildPing: () => ({ time: Math.floor(Date.now() / 1000), channel: 'spot.ping' }),
+        isPong: (message) => message.channel === 'spot.pong',
+    };
+
+    constructor(
+        configService: ConfigService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+    ) {
+        super(configService);
+        this.exchangeRegistry.register(this);
+    }
+
+    async getSymbols(): Promise<ExchangeSymbol[]> {
+        try {
+            const response = await this.rest.fetch(`${this.apiUrl}/spot/currency_pairs`);
+            const data = await response.json();
+
+            return data
+                .filter((pair: any) => pair.trade_status === 'tradable')
+                .map((pair: any) => ({
+                    symbol: `${pair.base}/${pair.quote}`,
+                    baseAsset: pair.base,
+                    quoteAsset: pair.quote,
+                    status: 'TRADING',
+                    exchange: SupportedExchanges.GATEIO_SPOT,
+                    marketType: this.marketType,
+                    minTradeAmount: parseFloat(pair.min_base_amount || '0'),
+                    tickSize: Math.pow(10, -pair.precision),
+                    pricePrecision: pair.precision,
+                    sizePrecision: pair.amount_precision,
+                    spec: {
+                        contractSize: 1,
+                        // Pairs publish decimal places rather than increments
+                        tickSize: pair.precision !== undefined ? Math.pow(10, -pair.precision) : null,
+                        lotStep: pair.amount_precision !== undefined ? Math.pow(10, -pair.amount_precision) : null,
+                        minQty: this.parseOptionalNumber(pair.min_base_amount),
+                        minNotional: this.parseOptionalNumber(pair.min_quote_amount),
+                        maxLeverage: null,
+                        marginAsset: null,
+                        launchTime: pair.buy_start ? pair.buy_start * 1000 : null, // Seconds to ms
+                        expiryTime: null,
+                    },
+                    lastUpdated: Date.now(),
+                }));
+        } catch (error) {
+            this.logger.error(`❌ Failed to fetch Gate.io Spot symbols: ${error.message}`);
+            return [];
+        }
+    }
+
+    async getServerTime(): Promise<ServerTimeSample> {
+        const { response, sentAt, receivedAt } = await this.rest.timedFetch(`${this.apiUrl}/spot/time`);
+        const data = await response.json();
+        return { serverTime: data.server_time, sentAt, receivedAt };
+    }
+
+    protected async fetchRestTickers(): Promise<Map<string, Partial<PriceData>>> {
+        const response = await this.rest.fetch(`${this.apiUrl}/spot/tickers`);
+        const data = await response.json();
+
+        return new Map(data.map((ticker: any) => [ticker.currency_pair, {
+            ...this.parseTickerData(ticker, ticker.currency_pair),
+            bestBid: parseFloat(ticker.highest_bid),
+            bestAsk: parseFloat(ticker.lowest_ask),
+        }]));
+    }
+
+    protected formatSymbolForStream(symbol: string): string {
+        // Convert BTC/USDT to BTC_USDT
+        return symbol.replace('/', '_');
+    }
+
+    protected getTopics(streamSymbol: string): string[] {
+        // Topics are "<channel>:<pair>"; Gate.io subscribes pairs as channel payload
+        const topics = [`spot.tickers:${streamSymbol}`];
+
+        if (this.orderBookEnabled) {
+            topics.push(`spot.book_ticker:${streamSymbol}`);
+        }
+
+        if (this.tradeStreamsEnabled) {
+            topics.push(`spot.trades:${streamSymbol}`);
+        }
+
+        return topics;
+    }
+
+    protected buildSubscribeMessages(topics: string[]): object[] {
+        return this.buildChannelMessages(topics, 'subscribe');
+    }
+
+    protected buildUnsubscribeMessages(topics: string[]): object[] {
+        return this.buildChannelMessages(topics, 'unsubscribe');
+    }
+
+    protected handleMessage(message: any): void {
+        if (message.event !== 'update' || !message.result) {
+            return;
+        }
+
+        if (message.channel === 'spot.tickers') {
+            const symbol = this.resolveSymbol(message.result.currency_pair);
+
+            if (symbol) {
+                this.publish(symbol, { ...this.parseTickerData(message.result, symbol), eventTime: message.time_ms });
+            }
+        } else if (message.channel === 'spot.book_ticker') {
+            const bookTicker = message.result;
+            const symbol = this.resolveSymbol(bookTicker.s);
+
+            if (symbol) {
+                // Book ticker carries only the best level of each side
+                this.updateOrderBook(
+                    symbol,
+                    [[parseFloat(bookTicker.b), parseFloat(bookTicker.B)]],
+                    [[parseFloat(bookTicker.a), parseFloat(bookTicker.A)]],
+                    true,
+                    bookTicker.t
+                );
+            }
+        } else if (message.channel === 'spot.trades') {
+            // Unlike futures, every spot trade is pushed on its own with an unsigned amount
+            const trade = message.result;
+            const symbol = this.resolveSymbol(trade.currency_pair);
+
+            if (symbol) {
+                this.publishTrade(symbol, {
+                    price: parseFloat(trade.price),
+                    size: parseFloat(trade.amount),
+                    side: trade.side === 'sell' ? 'sell' : 'buy',
+                    eventTime: parseFloat(trade.create_time_ms),
+                });
+            }
+        }
+    }
+
+    private buildChannelMessages(topics: string[], event: 'subscribe' | 'unsubscribe'): object[] {
+        const pairsByChannel = new Map<string, string[]>();
+
+        for (const topic of topics) {
+            const [channel, pair] = topic.split(':');
+
+            if (!pairsByChannel.has(channel)) {
+                pairsByChannel.set(channel, []);
+            }
+            pairsByChannel.get(channel)!.push(pair);
+        }
+
+        return Array.from(pairsByChannel.entries()).map(([channel, pairs]) => ({
+            time: Math.floor(Date.now() / 1000),
+            channel,
+            event,
+            payload: pairs
+        }));
+    }
+
+    private parseTickerData(data: any, symbol: string): Partial<PriceData> {
+        return {
+            symbol,
+            price: parseFloat(data.last), // Last price
+            exchange: SupportedExchanges.GATEIO_SPOT,
+            timestamp: Date.now(),
+            volume: parseFloat(data.base_volume || '0'), // 24h volume in the base asset
+            quoteVolume: parseFloat(data.quote_volume),
+            high: parseFloat(data.high_24h || '0'), // 24h high
+            low: parseFloat(data.low_24h || '0'), // 24h low
+        };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { ConfigService } from '@nestjs/config';
+import { PriceData } from '@/common/types';
+import { GateioService } from './gateio.service';
+import { ExchangeRegistry } from './exchange.registry';
+
+describe('GateioService', () => {
+    let service: GateioService;
+    let callback: jest.Mock<void, [PriceData]>;
+
+    beforeEach(async () => {
+        // Replay mode feeds frames through ingestFrame() without opening sockets
+        const configService = new ConfigService({ REPLAY_PATH: 'gateio.jsonl', GATEIO_REST_URL: 'http://gateio.test/api/v4' });
+        service = new GateioService(configService, new ExchangeRegistry(configService));
+        callback = jest.fn();
+
+        jest.spyOn(global, 'fetch').mockImplementation(async () => new Response(JSON.stringify([
+            { name: 'BTC_USDT', in_delisting: false, quanto_multiplier: '0.0001', order_size_min: '1', order_price_round: '0.1' },
+        ])));
+
+        await service.getSymbols();
+        await service.initialize();
+        await service.subscribeToTicker('BTC/USDT', callback);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('reports book ticker sizes in base units', () => {
+        service.ingestFrame(JSON.stringify({
+            channel: 'futures.book_ticker',
+            event: 'update',
+            result: { t: Date.now(), s: 'BTC_USDT', b: '49999.9', B: 20000, a: '50000.1', A: 5000 },
+        }));
+
+        const data = callback.mock.calls[0][0];
+        expect(data).toMatchObject({ bestBid: 49999.9, bestAsk: 50000.1 });
+        expect(data.bestBidSize).toBeCloseTo(2);
+        expect(data.bestAskSize).toBeCloseTo(0.5);
+    });
+});
@@ -1,109 +1,46 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import * as WebSocket from 'ws';
-import { PriceData, SupportedExchanges, ExchangeSymbol } from '@/common/types';
+import { PriceData, SupportedExchanges, ExchangeSymbol, ExchangeCapabilities, FundingRate, ServerTimeSample } from '@/common/types';
+import { BaseExchangeService } from './base-exchange.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { RestRateLimit } from './rest-rate-limiter';
+import { WsHeartbeat } from './ws-connection-pool';
+import { OrderBookLevel } from './order-book';
 
 @Injectable()
-export class GateioService {
-    private readonly logger = new Logger(GateioService.name);
-    private readonly baseUrl = 'wss://fx-ws.gateio.ws/v4/ws/usdt';
-    private readonly apiUrl = 'https://api.gateio.ws/api/v4';
-    private readonly connections = new Map<string, WebSocket>();
-    private readonly subscriptions = new Map<string, (data: PriceData) => void>();
-    private isInitialized = false;
-
-    constructor(private readonly configService: ConfigService) {}
-
-    async initialize(): Promise<void> {
-        this.logger.log('🔄 Initializing Gate.io service...');
-        this.isInitialized = true;
-        this.logger.log('✅ Gate.io service initialized');
-    }
-
-    async disconnect(): Promise<void> {
-        this.logger.log('🔄 Disconnecting from Gate.io...');
-
-        for (const [symbol, ws] of this.connections) {
-            try {
-                if (ws.readyState === WebSocket.OPEN) {
-                    ws.close();
-                }
-            } catch (error) {
-                this.logger.error(`❌ Error closing WebSocket for ${symbol}: ${error.message}`);
-            }
-        }
-
-        this.connections.clear();
-        this.subscriptions.clear();
-        this.isInitialized = false;
-
-        this.logger.log('✅ Disconnected from Gate.io');
-    }
-
-    async subscribeToTicker(symbol: string, callback: (data: PriceData) => void): Promise<void> {
-        if (!this.isInitialized) {
-            throw new Error('Gate.io service not initialized');
-        }
-
-        const streamSymbol = this.formatSymbolForStream(symbol);
-
-        this.logger.log(`📡 Subscribing to Gate.io ticker: ${streamSymbol}`);
-
-        try {
-            const ws = new WebSocket(this.baseUrl);
-
-            ws.on('open', () => {
-                this.logger.log(`✅ Connected to Gate.io WebSocket for ${symbol}`);
-                this.connections.set(symbol, ws);
-                this.subscriptions.set(symbol, callback);
-
-                // Subscribe to ticker stream
-                const subscribeMessage = {
-                    time: Math.floor(Date.now() / 1000),
-                    channel: 'futures.tickers',
-                    event: 'subscribe',
-                    payload: [streamSymbol]
-                };
-
-                ws.send(JSON.stringify(subscribeMessage));
-            });
-
-            ws.on('message', (data: Buffer) => {
-                try {
-                    const message = JSON.parse(data.toString());
-
-                    if (message.channel === 'futures.tickers' && message.event === 'update' && message.result) {
-                        const priceData = this.parseTickerData(message.result, symbol);
-                        callback(priceData);
-                    }
-                } catch (error) {
-                    this.logger.error(`❌ Error parsing Gate.io ticker data: ${error.message}`);
-                }
-            });
-
-            ws.on('error', (error) => {
-                this.logger.error(`❌ Gate.io WebSocket error for ${symbol}: ${error.message}`);
-            });
-
-            ws.on('close', (code, reason) => {
-                this.logger.warn(`⚠️ Gate.io WebSocket closed for ${symbol}: ${code} - ${reason}`);
-                this.connections.delete(symbol);
-
-                // Attempt to reconnect after a delay
-                setTimeout(() => {
-                    this.reconnectTicker(symbol, callback);
-                }, 5000);
-            });
-
-        } catch (error) {
-            this.logger.error(`❌ Failed to subscribe to Gate.io ticker ${symbol}: ${error.message}`);
-            throw error;
-        }
+export class GateioService extends BaseExchangeService {
+    readonly name = SupportedExchanges.GATEIO;
+    readonly displayName = 'Gate.io';
+    readonly capabilities: ExchangeCapabilities = {
+        tickerStream: true,
+        symbolDiscovery: true,
+        orderBook: true,
+        fundingRates: true,
+        tradeStream: true,
+    };
+
+    protected readonly wsUrl = this.endpoint('WS', 'wss://fx-ws.gateio.ws/v4/ws/usdt', 'wss://fx-ws-testnet.gateio.ws/v4/ws/usdt');
+    protected readonly maxTopicsPerConnection = 200;
+    protected readonly maxTopicsPerMessage = 50;
+    private readonly apiUrl = this.endpoint('REST', 'https://api.gateio.ws/api/v4', 'https://fx-api-testnet.gateio.ws/api/v4');
+    protected readonly restRateLimit: RestRateLimit = { weightLimit: 200, windowMs: 10000 }; // Public endpoints: 200 requests per 10s
+    protected readonly heartbeat: WsHeartbeat = {
+        buildPing: () => ({ time: Math.floor(Date.now() / 1000), channel: 'futures.ping' }),
+        isPong: (message) => message.channel === 'futures.pong',
+    };
+    private readonly contractSizes = new Map<string, number>(); // BTC_USDT -> base units per contract
+
+    constructor(
+        configService: ConfigService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+    ) {
+        super(configService);
+        this.exchangeRegistry.register(this);
     }
 
     async getSymbols(): Promise<ExchangeSymbol[]> {
         try {
-            const response = await fetch(`${this.apiUrl}/futures/usdt/contracts`);
+            const response = await this.rest.fetch(`${this.apiUrl}/futures/usdt/contracts`);
             const data = await response.json();
 
             return data
@@ -111,6 +48,8 @@ export class GateioService {
                 .map((contract: any) => {
                     const baseAsset = contract.name.split('_')[0];
                     const quoteAsset = contract.name.split('_')[1] || 'USDT';
+                    const contractSize = parseFloat(contract.quanto_multiplier || '1');
+                    this.contractSizes.set(contract.name, contractSize);
 
                     return {
                         symbol: `${baseAsset}/${quoteAsset}`,
@@ -118,8 +57,21 @@ export class GateioService {
                         quoteAsset,
                         status: contract.in_delisting ? 'DELISTING' : 'TRADING',
                         exchange: SupportedExchanges.GATEIO,
+                        marketType: this.marketType,
                         minTradeAmount: parseFloat(contract.order_size_min || '0'),
-                        tickSize: parseFloat(contract.mark_price_round || '0'),
+                        tickSize: parseFloat(contract.order_price_round || '0'),
+                        contractSize,
+                        spec: {
+                            contractSize,
+                            tickSize: this.parseOptionalNumber(contract.order_price_round),
+                            lotStep: contractSize, // Orders are whole contracts
+                            minQty: (this.parseOptionalNumber(contract.order_size_min) ?? 1) * contractSize,
+                            minNotional: null,
+                            maxLeverage: this.parseOptionalNumber(contract.leverage_max),
+                            marginAsset: 'USDT', // USDT-settled futures endpoint
+                            launchTime: contract.launch_time ? contract.launch_time * 1000 : null, // Seconds to ms
+                            expiryTime: null,
+                        },
                         lastUpdated: Date.now(),
                     };
                 });
@@ -129,51 +81,167 @@ export class GateioService {
         }
     }
 
-    private async reconnectTicker(symbol: string, callback: (data: PriceData) => void): Promise<void> {
-        if (!this.isInitialized || this.connections.has(symbol)) {
-            return;
+    async getFundingRates(): Promise<FundingRate[]> {
+        try {
+            const response = await this.rest.fetch(`${this.apiUrl}/futures/usdt/contracts`);
+            const data = await response.json();
+
+            return data
+                .filter((contract: any) => this.resolveSymbol(contract.name))
+                .map((contract: any) => ({
+                    symbol: this.resolveSymbol(contract.name),
+                    exchange: SupportedExchanges.GATEIO,
+                    fundingRate: parseFloat(contract.funding_rate),
+                    predictedFundingRate: parseFloat(contract.funding_rate_indicative),
+                    nextFundingTime: contract.funding_next_apply * 1000, // Seconds to ms
+                    fundingIntervalHours: (contract.funding_interval || 28800) / 3600,
+                    timestamp: Date.now(),
+                }));
+        } catch (error) {
+            this.logger.error(`❌ Failed to fetch Gate.io funding rates: ${error.message}`);
+            return [];
         }
+    }
 
-        this.logger.log(`🔄 Reconnecting to Gate.io ticker: ${symbol}`);
+    async getServerTime(): Promise<ServerTimeSample> {
+        // Futures have no time endpoint; the spot one shares the same clock
+        const { response, sentAt, receivedAt } = await this.rest.timedFetch(`${this.apiUrl}/spot/time`);
+        const data = await response.json();
+        return { serverTime: data.server_time, sentAt, receivedAt };
+    }
 
-        try {
-            await this.subscribeToTicker(symbol, callback);
-        } catch (error) {
-            this.logger.error(`❌ Failed to reconnect to Gate.io ticker ${symbol}: ${error.message}`);
+    protected async fetchRestTickers(): Promise<Map<string, Partial<PriceData>>> {
+        const response = await this.rest.fetch(`${this.apiUrl}/futures/usdt/tickers`);
+        const data = await response.json();
 
-            // Retry after a longer delay
-            setTimeout(() => {
-                this.reconnectTicker(symbol, callback);
-            }, 30000);
-        }
+        return new Map(data.map((ticker: any) => [ticker.contract, {
+            ...this.parseTickerData(ticker, ticker.contract),
+            bestBid: parseFloat(ticker.highest_bid),
+            bestAsk: parseFloat(ticker.lowest_ask),
+        }]));
     }
 
-    private formatSymbolForStream(symbol: string): string {
+    protected formatSymbolForStream(symbol: string): string {
         // Convert BTC/USDT to BTC_USDT
         return symbol.replace('/', '_');
     }
 
-    private parseTickerData(data: any, symbol: string): PriceData {
+    protected getTopics(streamSymbol: string): string[] {
+        // Topics are "<channel>:<contract>"; Gate.io subscribes contracts as channel payload
+        const topics = [`futures.tickers:${streamSymbol}`];
+
+        if (this.orderBookEnabled) {
+            topics.push(`futures.book_ticker:${streamSymbol}`);
+        }
+
+        if (this.tradeStreamsEnabled) {
+            topics.push(`futures.trades:${streamSymbol}`);
+        }
+
+        return topics;
+    }
+
+    protected buildSubscribeMessages(topics: string[]): object[] {
+        return this.buildChannelMessages(topics, 'subscribe');
+    }
+
+    protected buildUnsubscribeMessages(topics: string[]): object[] {
+        return this.buildChannelMessages(topics, 'unsubscribe');
+    }
+
+    protected handleMessage(message: any): void {
+        if (message.event !== 'update' || !message.result) {
+            return;
+        }
+
+        if (message.channel === 'futures.tickers') {
+            // A single update can carry tickers for several contracts
+            const tickers = Array.isArray(message.result) ? message.result : [message.result];
+
+            for (const ticker of tickers) {
+                const symbol = this.resolveSymbol(ticker.contract);
+
+                if (symbol) {
+                    this.publish(symbol, { ...this.parseTickerData(ticker, symbol), eventTime: message.time_ms });
+
+                    if (this.fundingStreamsEnabled) {
+                        this.publishFunding(symbol, {
+                            fundingRate: parseFloat(ticker.funding_rate),
+                            predictedFundingRate: parseFloat(ticker.funding_rate_indicative),
+                        });
+                    }
+                }
+            }
+        } else if (message.channel === 'futures.book_ticker') {
+            const bookTicker = message.result;
+            const symbol = this.resolveSymbol(bookTicker.s);
+
+            if (symbol) {
+                // Book ticker carries only the best level of each side
+                this.updateOrderBook(
+                    symbol,
+                    this.parseContractLevels([[bookTicker.b, bookTicker.B]], bookTicker.s),
+                    this.parseContractLevels([[bookTicker.a, bookTicker.A]], bookTicker.s),
+                    true,
+                    bookTicker.t
+                );
+            }
+        } else if (message.channel === 'futures.trades') {
+            for (const trade of message.result) {
+                const symbol = this.resolveSymbol(trade.contract);
+                const size = parseFloat(trade.size);
+
+                if (symbol) {
+                    // Sizes are signed contract counts, negative when the taker sold
+                    this.publishTrade(symbol, {
+                        price: parseFloat(trade.price),
+                        size: Math.abs(size) * (this.contractSizes.get(trade.contract) || 1),
+                        side: size < 0 ? 'sell' : 'buy',
+                        eventTime: trade.create_time_ms,
+                    });
+                }
+            }
+        }
+    }
+
+    private buildChannelMessages(topics: string[], event: 'subscribe' | 'unsubscribe'): object[] {
+        const contractsByChannel = new Map<string, string[]>();
+
+        for (const topic of topics) {
+            const [channel, contract] = topic.split(':');
+
+            if (!contractsByChannel.has(channel)) {
+                contractsByChannel.set(channel, []);
+            }
+            contractsByChannel.get(channel)!.push(contract);
+        }
+
+        return Array.from(contractsByChannel.entries()).map(([channel, contracts]) => ({
+            time: Math.floor(Date.now() / 1000),
+            channel,
+            event,
+            payload: contracts
+        }));
+    }
+
+    private parseContractLevels(levels: any[], contract: string): OrderBookLevel[] {
+        const contractSize = this.contractSizes.get(contract) || 1;
+        return this.parseLevels(levels).map(([price, size]) => [price, size * contractSize] as OrderBookLevel);
+    }
+
+    private parseTickerData(data: any, symbol: string): Partial<PriceData> {
         return {
             symbol,
             price: parseFloat(data.last), // Last price
             exchange: SupportedExchanges.GATEIO,
             timestamp: Date.now(),
+            markPrice: parseFloat(data.mark_price),
+            indexPrice: parseFloat(data.index_price),
             volume: parseFloat(data.volume_24h || '0'), // 24h volume
+            quoteVolume: parseFloat(data.volume_24h_quote),
+            openInterest: parseFloat(data.total_size) * (this.contractSizes.get(data.contract) || 1), // Contracts to base units
             high: parseFloat(data.high_24h || '0'), // 24h high
             low: parseFloat(data.low_24h || '0'), // 24h low
         };
     }
-
-    isConnected(): boolean {
-        return this.isInitialized && this.connections.size > 0;
-    }
-
-    getConnectionCount(): number {
-        return this.connections.size;
-    }
-
-    getConnectedSymbols(): string[] {
-        return Array.from(this.connections.keys());
-    }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { LatencyTracker } from './latency-tracker';
+
+describe('LatencyTracker', () => {
+    it('reports no percentiles without samples', () => {
+        expect(new LatencyTracker().getStats()).toEqual({ samples: 0, p50: null, p95: null, p99: null });
+    });
+
+    it('reports nearest-rank percentiles', () => {
+        const tracker = new LatencyTracker();
+
+        // Recorded out of order to make sure they are sorted
+        for (let latency = 100; latency >= 1; latency--) {
+            tracker.record(latency);
+        }
+
+        expect(tracker.getStats()).toEqual({ samples: 100, p50: 50, p95: 95, p99: 99 });
+    });
+
+    it('overwrites the oldest samples once the window is full', () => {
+        const tracker = new LatencyTracker(3);
+
+        for (const latency of [1000, 2000, 10, 20, 30]) {
+            tracker.record(latency);
+        }
+
+        expect(tracker.getStats()).toEqual({ samples: 3, p50: 20, p95: 30, p99: 30 });
+    });
+});
\ No newline at end of file
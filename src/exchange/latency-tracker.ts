@@ -0,0 +1,42 @@
+import { LatencyStats } from '@/common/types';
+
+/**
+ * Rolling window of feed latency samples (local receive time minus exchange
+ * event time) for one exchange.
+ */
+export class LatencyTracker {
+    private readonly samples: number[] = [];
+    private next = 0;
+
+    constructor(private readonly windowSize = 1000) { }
+
+    record(latencyMs: number): void {
+        if (this.samples.length < this.windowSize) {
+            this.samples.push(latencyMs);
+        } else {
+            // Overwrite the oldest sample once the window is full
+            this.samples[this.next] = latencyMs;
+            this.next = (this.next + 1) % this.windowSize;
+        }
+    }
+
+    getStats(): LatencyStats {
+        const sorted = [...this.samples].sort((a, b) => a - b);
+
+        return {
+            samples: sorted.length,
+            p50: this.percentile(sorted, 50),
+            p95: this.percentile(sorted, 95),
+            p99: this.percentile(sorted, 99),
+        };
+    }
+
+    private percentile(sorted: number[], percentile: number): number | null {
+        if (sorted.length === 0) {
+            return null;
+        }
+
+        const index = Math.min(sorted.length - 1, Math.ceil((percentile / 100) * sorted.length) - 1);
+        return sorted[Math.max(0, index)];
+    }
+}
\ No newline at end of file
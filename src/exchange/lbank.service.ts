@@ -1,125 +1,50 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import * as WebSocket from 'ws';
-import { PriceData, SupportedExchanges, ExchangeSymbol } from '@/common/types';
+import { PriceData, SupportedExchanges, ExchangeSymbol, ExchangeCapabilities, MarketType, ServerTimeSample } from '@/common/types';
 import { TelegramService } from '@/telegram/telegram.service';
+import { BaseExchangeService } from './base-exchange.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { RestRateLimit } from './rest-rate-limiter';
+import { WsHeartbeat } from './ws-connection-pool';
 
 @Injectable()
-export class LbankService {
-    private readonly logger = new Logger(LbankService.name);
-    private readonly baseUrl = 'wss://www.lbkex.net/ws/V2/';
-    private readonly apiUrl = 'https://api.lbank.info/v2';
-    private readonly connections = new Map<string, WebSocket>();
-    private readonly subscriptions = new Map<string, (data: PriceData) => void>();
-    private readonly failureNotifications = new Map<string, number>();
-    private isInitialized = false;
+export class LbankService extends BaseExchangeService {
+    readonly name = SupportedExchanges.LBANK;
+    readonly displayName = 'LBank';
+    readonly marketType: MarketType = 'spot';
+    readonly capabilities: ExchangeCapabilities = {
+        tickerStream: true,
+        symbolDiscovery: true,
+        orderBook: true,
+        fundingRates: false, // Spot market, no perpetual funding
+        tradeStream: true,
+    };
+
+    protected readonly wsUrl = this.endpoint('WS', 'wss://www.lbkex.net/ws/V2/');
+    protected readonly maxTopicsPerConnection = 100;
+    protected readonly maxTopicsPerMessage = 100; // One subscribe message is sent per symbol
+    private readonly apiUrl = this.endpoint('REST', 'https://api.lbank.info/v2');
+    protected readonly restRateLimit: RestRateLimit = { weightLimit: 200, windowMs: 10000 }; // 200 requests per 10s per IP
+    protected readonly heartbeat: WsHeartbeat = {
+        buildPing: () => ({ action: 'ping', ping: `${Date.now()}` }),
+        isPong: (message) => message.action === 'pong',
+        // LBank also pings clients and drops those that don't echo the id back
+        buildPingReply: (message) => message.action === 'ping' ? { action: 'pong', pong: message.ping } : null,
+    };
 
     // Configuration
-    private readonly enableFallbacks: boolean;
-    private readonly fallbackSymbols: string[];
-    private readonly notifyFailures: boolean;
-    private readonly failureCooldownMs: number;
-    private readonly reconnectInterval: number;
-    private readonly pingInterval: number;
     private readonly wsTimeout: number;
 
     constructor(
-        private readonly configService: ConfigService,
-        private readonly telegramService: TelegramService
+        configService: ConfigService,
+        telegramService: TelegramService,
+        private readonly exchangeRegistry: ExchangeRegistry,
     ) {
-        this.enableFallbacks = this.configService.get<string>('ENABLE_EXCHANGE_FALLBACKS', 'false') === 'true';
-        this.fallbackSymbols = this.configService.get<string>('FALLBACK_SYMBOLS', 'BTC/USDT,ETH/USDT').split(',').map(s => s.trim());
-        this.notifyFailures = this.configService.get<string>('NOTIFY_EXCHANGE_FAILURES', 'true') === 'true';
-        this.failureCooldownMs = parseInt(this.configService.get<string>('EXCHANGE_FAILURE_COOLDOWN_MINUTES', '30')) * 60 * 1000;
-        this.reconnectInterval = parseInt(this.configService.get<string>('WEBSOCKET_RECONNECT_INTERVAL', '5000'));
-        this.pingInterval = parseInt(this.configService.get<string>('WEBSOCKET_PING_INTERVAL', '30000'));
-        this.wsTimeout = parseInt(this.configService.get<string>('WEBSOCKET_TIMEOUT', '10000'));
-    }
-
-    async initialize(): Promise<void> {
-        this.logger.log('🔄 Initializing LBank service...');
-        this.isInitialized = true;
-        this.logger.log('✅ LBank service initialized');
-    }
-
-    async disconnect(): Promise<void> {
-        this.logger.log('🔄 Disconnecting from LBank...');
-
-        for (const [symbol, ws] of this.connections) {
-            try {
-                if (ws.readyState === WebSocket.OPEN) {
-                    ws.close();
-                }
-            } catch (error) {
-                this.logger.error(`❌ Error closing WebSocket for ${symbol}: ${error.message}`);
-            }
-        }
-
-        this.connections.clear();
-        this.subscriptions.clear();
-        this.isInitialized = false;
-
-        this.logger.log('✅ Disconnected from LBank');
-    }
-
-    async subscribeToTicker(symbol: string, callback: (data: PriceData) => void): Promise<void> {
-        if (!this.isInitialized) {
-            throw new Error('LBank service not initialized');
-        }
-
-        const streamSymbol = this.formatSymbolForStream(symbol);
-
-        this.logger.log(`📡 Subscribing to LBank ticker: ${streamSymbol}`);
-
-        try {
-            const ws = new WebSocket(this.baseUrl);
-
-            ws.on('open', () => {
-                this.logger.log(`✅ Connected to LBank WebSocket for ${symbol}`);
-                this.connections.set(symbol, ws);
-                this.subscriptions.set(symbol, callback);
-
-                // Subscribe to ticker stream
-                const subscribeMessage = {
-                    action: 'subscribe',
-                    subscribe: 'tick',
-                    pair: streamSymbol
-                };
-
-                ws.send(JSON.stringify(subscribeMessage));
-            });
-
-            ws.on('message', (data: Buffer) => {
-                try {
-                    const message = JSON.parse(data.toString());
-
-                    if (message.type === 'tick' && message.tick) {
-                        const priceData = this.parseTickerData(message.tick, symbol);
-                        callback(priceData);
-                    }
-                } catch (error) {
-                    this.logger.error(`❌ Error parsing LBank ticker data: ${error.message}`);
-                }
-            });
+        super(configService, telegramService);
 
-            ws.on('error', (error) => {
-                this.logger.error(`❌ LBank WebSocket error for ${symbol}: ${error.message}`);
-            });
-
-            ws.on('close', (code, reason) => {
-                this.logger.warn(`⚠️ LBank WebSocket closed for ${symbol}: ${code} - ${reason}`);
-                this.connections.delete(symbol);
-
-                // Attempt to reconnect after a delay
-                setTimeout(() => {
-                    this.reconnectTicker(symbol, callback);
-                }, this.reconnectInterval);
-            });
+        this.wsTimeout = parseInt(this.configService.get<string>('WEBSOCKET_TIMEOUT', '10000'));
 
-        } catch (error) {
-            this.logger.error(`❌ Failed to subscribe to LBank ticker ${symbol}: ${error.message}`);
-            throw error;
-        }
+        this.exchangeRegistry.register(this);
     }
 
     async getSymbols(): Promise<ExchangeSymbol[]> {
@@ -132,7 +57,7 @@ export class LbankService {
             const controller = new AbortController();
             const timeoutId = setTimeout(() => controller.abort(), this.wsTimeout);
 
-            const response = await fetch(endpoint, {
+            const response = await this.rest.fetch(endpoint, 1, {
                 method: 'GET',
                 headers: {
                     'Accept': 'application/json',
@@ -166,112 +91,122 @@ export class LbankService {
                     quoteAsset: quoteAsset.toUpperCase(),
                     status: 'TRADING',
                     exchange: SupportedExchanges.LBANK,
+                    marketType: this.marketType,
                     minTradeAmount: 0,
                     tickSize: 0,
+                    spec: {
+                        // The pair list carries no trading rules
+                        contractSize: 1,
+                        tickSize: null,
+                        lotStep: null,
+                        minQty: null,
+                        minNotional: null,
+                        maxLeverage: null,
+                        marginAsset: null,
+                        launchTime: null,
+                        expiryTime: null,
+                    },
                     lastUpdated: Date.now(),
                 };
             });
 
         } catch (error) {
-            this.logger.error(`❌ Failed to fetch LBank symbols: ${error.message}`);
-
-            // Send failure notification if enabled
-            await this.notifyFailure('Symbol Fetch Failed', error.message);
-
-            // Return fallback symbols only if enabled
-            if (this.enableFallbacks) {
-                this.logger.warn(`⚠️ Using fallback symbols for LBank: ${this.fallbackSymbols.join(', ')}`);
-
-                return this.fallbackSymbols.map(symbol => {
-                    const [baseAsset, quoteAsset] = symbol.split('/');
-                    return {
-                        symbol,
-                        baseAsset,
-                        quoteAsset,
-                        status: 'TRADING',
-                        exchange: SupportedExchanges.LBANK,
-                        minTradeAmount: 0,
-                        tickSize: 0,
-                        lastUpdated: Date.now(),
-                    };
-                });
-            }
-
-            // No fallbacks - return empty array to force notification
-            return [];
+            return this.handleSymbolFetchFailure(error);
         }
     }
 
-    private async reconnectTicker(symbol: string, callback: (data: PriceData) => void): Promise<void> {
-        if (!this.isInitialized || this.connections.has(symbol)) {
-            return;
+    async getServerTime(): Promise<ServerTimeSample> {
+        const { response, sentAt, receivedAt } = await this.rest.timedFetch(`${this.apiUrl}/timestamp.do`);
+        const data = await response.json();
+
+        if (!data.result) {
+            throw new Error(`LBank API error: ${data.msg || 'Unknown error'}`);
         }
 
-        this.logger.log(`🔄 Reconnecting to LBank ticker: ${symbol}`);
+        return { serverTime: data.data, sentAt, receivedAt };
+    }
 
-        try {
-            await this.subscribeToTicker(symbol, callback);
-        } catch (error) {
-            this.logger.error(`❌ Failed to reconnect to LBank ticker ${symbol}: ${error.message}`);
+    protected async fetchRestTickers(): Promise<Map<string, Partial<PriceData>>> {
+        const response = await this.rest.fetch(`${this.apiUrl}/ticker/24hr.do?symbol=all`);
+        const data = await response.json();
 
-            // Retry after a longer delay
-            setTimeout(() => {
-                this.reconnectTicker(symbol, callback);
-            }, this.reconnectInterval * 6); // 6x the normal interval for retries
+        if (!data.result || !Array.isArray(data.data)) {
+            throw new Error('Invalid API response format');
         }
+
+        return new Map(data.data.map((item: any) => [item.symbol, this.parseTickerData(item.ticker, item.symbol)]));
     }
 
-    private formatSymbolForStream(symbol: string): string {
+    protected formatSymbolForStream(symbol: string): string {
         // Convert BTC/USDT to btc_usdt
         return symbol.replace('/', '_').toLowerCase();
     }
 
-    private parseTickerData(data: any, symbol: string): PriceData {
-        return {
-            symbol,
-            price: parseFloat(data.latest || data.price), // Last price
-            exchange: SupportedExchanges.LBANK,
-            timestamp: Date.now(),
-            volume: parseFloat(data.vol || '0'), // Volume
-            high: parseFloat(data.high || '0'), // High price
-            low: parseFloat(data.low || '0'), // Low price
-        };
-    }
+    protected getTopics(streamSymbol: string): string[] {
+        // Topics are "<channel>:<pair>"
+        const topics = [`tick:${streamSymbol}`];
 
-    isConnected(): boolean {
-        return this.isInitialized && this.connections.size > 0;
-    }
+        if (this.orderBookEnabled) {
+            topics.push(`depth:${streamSymbol}`);
+        }
+
+        if (this.tradeStreamsEnabled) {
+            topics.push(`trade:${streamSymbol}`);
+        }
 
-    getConnectionCount(): number {
-        return this.connections.size;
+        return topics;
     }
 
-    getConnectedSymbols(): string[] {
-        return Array.from(this.connections.keys());
+    protected buildSubscribeMessages(topics: string[]): object[] {
+        // LBank accepts a single pair per subscribe request
+        return topics.map(topic => {
+            const [channel, pair] = topic.split(':');
+            return channel === 'depth'
+                ? { action: 'subscribe', subscribe: 'depth', depth: '10', pair }
+                : { action: 'subscribe', subscribe: channel, pair };
+        });
     }
 
-    private async notifyFailure(type: string, message: string): Promise<void> {
-        if (!this.notifyFailures) return;
+    protected buildUnsubscribeMessages(topics: string[]): object[] {
+        return topics.map(topic => {
+            const [channel, pair] = topic.split(':');
+            return channel === 'depth'
+                ? { action: 'unsubscribe', subscribe: 'depth', depth: '10', pair }
+                : { action: 'unsubscribe', subscribe: channel, pair };
+        });
+    }
 
-        const notificationKey = `${type}-${message}`;
-        const now = Date.now();
-        const lastNotification = this.failureNotifications.get(notificationKey);
+    protected handleMessage(message: any): void {
+        // LBank's TS field is a local date string without a zone, so no event time is taken from it
+        const symbol = this.resolveSymbol(message.pair);
 
-        // Check cooldown period
-        if (lastNotification && now - lastNotification < this.failureCooldownMs) {
-            return; // Still in cooldown
+        if (!symbol) {
+            return;
         }
 
-        this.failureNotifications.set(notificationKey, now);
-
-        // Log the failure
-        this.logger.error(`🚨 LBANK FAILURE NOTIFICATION: ${type} - ${message}`);
-
-        // Send Telegram notification
-        try {
-            await this.telegramService.sendSystemAlert(`🚨 **LBank Exchange Failure**\n\n**Type:** ${type}\n**Details:** ${message}\n\n⚠️ Please check LBank API status and fix if needed.`);
-        } catch (telegramError) {
-            this.logger.error(`❌ Failed to send Telegram notification: ${telegramError.message}`);
+        if (message.type === 'tick' && message.tick) {
+            this.publish(symbol, this.parseTickerData(message.tick, symbol));
+        } else if (message.type === 'depth' && message.depth) {
+            this.updateOrderBook(symbol, this.parseLevels(message.depth.bids), this.parseLevels(message.depth.asks), true);
+        } else if (message.type === 'trade' && message.trade) {
+            this.publishTrade(symbol, {
+                price: parseFloat(message.trade.price),
+                size: parseFloat(message.trade.volume),
+                side: message.trade.direction?.startsWith('sell') ? 'sell' : 'buy', // buy, sell, buy_market, ...
+            });
         }
     }
+
+    private parseTickerData(data: any, symbol: string): Partial<PriceData> {
+        return {
+            symbol,
+            price: parseFloat(data.latest || data.price), // Last price
+            exchange: SupportedExchanges.LBANK,
+            timestamp: Date.now(),
+            volume: parseFloat(data.vol || '0'), // Volume
+            quoteVolume: parseFloat(data.turnover), // Turnover
+            high: parseFloat(data.high || '0'), // High price
+            low: parseFloat(data.low || '0'), // Low price
+        };
+    }
 } 
\ No newline at end of file
@@ -1,131 +1,49 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import * as WebSocket from 'ws';
-import { PriceData, SupportedExchanges, ExchangeSymbol } from '@/common/types';
+import { PriceData, SupportedExchanges, ExchangeSymbol, ExchangeCapabilities, FundingRate, ServerTimeSample } from '@/common/types';
 import { TelegramService } from '@/telegram/telegram.service';
+import { BaseExchangeService } from './base-exchange.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { RestRateLimit } from './rest-rate-limiter';
+import { WsHeartbeat } from './ws-connection-pool';
+import { OrderBookLevel } from './order-book';
 
 @Injectable()
-export class MexcService {
-    private readonly logger = new Logger(MexcService.name);
-    private readonly baseUrl = 'wss://contract.mexc.com/edge';
-    private readonly apiUrl = 'https://contract.mexc.com/api/v1';
-    private readonly connections = new Map<string, WebSocket>();
-    private readonly subscriptions = new Map<string, (data: PriceData) => void>();
-    private readonly failureNotifications = new Map<string, number>();
-    private isInitialized = false;
+export class MexcService extends BaseExchangeService {
+    readonly name = SupportedExchanges.MEXC;
+    readonly displayName = 'MEXC';
+    readonly capabilities: ExchangeCapabilities = {
+        tickerStream: true,
+        symbolDiscovery: true,
+        orderBook: true,
+        fundingRates: true,
+        tradeStream: true,
+    };
+
+    protected readonly wsUrl = this.endpoint('WS', 'wss://contract.mexc.com/edge');
+    protected readonly maxTopicsPerConnection = 100;
+    protected readonly maxTopicsPerMessage = 100; // One subscribe message is sent per symbol
+    private readonly apiUrl = this.endpoint('REST', 'https://contract.mexc.com/api/v1');
+    protected readonly restRateLimit: RestRateLimit = { weightLimit: 20, windowMs: 2000 }; // Public contract endpoints: 20 requests per 2s
+    protected readonly heartbeat: WsHeartbeat = {
+        buildPing: () => ({ method: 'ping' }),
+        isPong: (message) => message.channel === 'pong',
+    };
+    private readonly contractSizes = new Map<string, number>(); // BTC_USDT -> base units per contract
 
     // Configuration
-    private readonly enableFallbacks: boolean;
-    private readonly fallbackSymbols: string[];
-    private readonly notifyFailures: boolean;
-    private readonly failureCooldownMs: number;
-    private readonly reconnectInterval: number;
-    private readonly pingInterval: number;
     private readonly wsTimeout: number;
 
     constructor(
-        private readonly configService: ConfigService,
-        private readonly telegramService: TelegramService
+        configService: ConfigService,
+        telegramService: TelegramService,
+        private readonly exchangeRegistry: ExchangeRegistry,
     ) {
-        this.enableFallbacks = this.configService.get<string>('ENABLE_EXCHANGE_FALLBACKS', 'false') === 'true';
-        this.fallbackSymbols = this.configService.get<string>('FALLBACK_SYMBOLS', 'BTC/USDT,ETH/USDT').split(',').map(s => s.trim());
-        this.notifyFailures = this.configService.get<string>('NOTIFY_EXCHANGE_FAILURES', 'true') === 'true';
-        this.failureCooldownMs = parseInt(this.configService.get<string>('EXCHANGE_FAILURE_COOLDOWN_MINUTES', '30')) * 60 * 1000;
-        this.reconnectInterval = parseInt(this.configService.get<string>('WEBSOCKET_RECONNECT_INTERVAL', '5000'));
-        this.pingInterval = parseInt(this.configService.get<string>('WEBSOCKET_PING_INTERVAL', '30000'));
-        this.wsTimeout = parseInt(this.configService.get<string>('WEBSOCKET_TIMEOUT', '10000'));
-    }
-
-    async initialize(): Promise<void> {
-        this.logger.log('🔄 Initializing MEXC service...');
-        this.isInitialized = true;
-        this.logger.log('✅ MEXC service initialized');
-    }
-
-    async disconnect(): Promise<void> {
-        this.logger.log('🔄 Disconnecting from MEXC...');
-
-        for (const [symbol, ws] of this.connections) {
-            try {
-                if (ws.readyState === WebSocket.OPEN) {
-                    ws.close();
-                }
-            } catch (error) {
-                this.logger.error(`❌ Error closing WebSocket for ${symbol}: ${error.message}`);
-            }
-        }
-
-        this.connections.clear();
-        this.subscriptions.clear();
-        this.isInitialized = false;
-
-        this.logger.log('✅ Disconnected from MEXC');
-    }
-
-    async subscribeToTicker(symbol: string, callback: (data: PriceData) => void): Promise<void> {
-        if (!this.isInitialized) {
-            throw new Error('MEXC service not initialized');
-        }
-
-        const streamSymbol = this.formatSymbolForStream(symbol);
-
-        this.logger.log(`📡 Subscribing to MEXC ticker: ${streamSymbol}`);
-
-        try {
-            const ws = new WebSocket(this.baseUrl);
-
-            ws.on('open', () => {
-                this.logger.log(`✅ Connected to MEXC WebSocket for ${symbol}`);
-                this.connections.set(symbol, ws);
-                this.subscriptions.set(symbol, callback);
-
-                // Subscribe to ticker stream with correct MEXC format
-                const subscribeMessage = {
-                    method: 'sub.overview',
-                    param: {
-                        symbol: streamSymbol
-                    }
-                };
-
-                ws.send(JSON.stringify(subscribeMessage));
-            });
-
-            ws.on('message', (data: Buffer) => {
-                try {
-                    const message = JSON.parse(data.toString());
-
-                    // Handle different message types from MEXC
-                    if (message.channel && message.channel.includes('overview') && message.data) {
-                        const priceData = this.parseTickerData(message.data, symbol);
-                        callback(priceData);
-                    } else if (message.data && message.symbol) {
-                        // Alternative format
-                        const priceData = this.parseTickerData(message.data, symbol);
-                        callback(priceData);
-                    }
-                } catch (error) {
-                    this.logger.error(`❌ Error parsing MEXC ticker data: ${error.message}`);
-                }
-            });
-
-            ws.on('error', (error) => {
-                this.logger.error(`❌ MEXC WebSocket error for ${symbol}: ${error.message}`);
-            });
-
-            ws.on('close', (code, reason) => {
-                this.logger.warn(`⚠️ MEXC WebSocket closed for ${symbol}: ${code} - ${reason}`);
-                this.connections.delete(symbol);
+        super(configService, telegramService);
 
-                // Attempt to reconnect after a delay
-                setTimeout(() => {
-                    this.reconnectTicker(symbol, callback);
-                }, this.reconnectInterval);
-            });
+        this.wsTimeout = parseInt(this.configService.get<string>('WEBSOCKET_TIMEOUT', '10000'));
 
-        } catch (error) {
-            this.logger.error(`❌ Failed to subscribe to MEXC ticker ${symbol}: ${error.message}`);
-            throw error;
-        }
+        this.exchangeRegistry.register(this);
     }
 
     async getSymbols(): Promise<ExchangeSymbol[]> {
@@ -139,7 +57,7 @@ export class MexcService {
             const controller = new AbortController();
             const timeoutId = setTimeout(() => controller.abort(), this.wsTimeout);
 
-            const response = await fetch(endpoint, {
+            const response = await this.rest.fetch(endpoint, 1, {
                 method: 'GET',
                 headers: {
                     'Accept': 'application/json',
@@ -167,123 +85,187 @@ export class MexcService {
 
             return responseDataJson.data
                 .filter((symbol: any) => symbol.state === 0) // Active contracts
-                .map((symbol: any) => ({
-                    symbol: `${symbol.baseCoin}/${symbol.quoteCoin}`,
-                    baseAsset: symbol.baseCoin,
-                    quoteAsset: symbol.quoteCoin,
-                    status: symbol.state === 0 ? 'TRADING' : 'INACTIVE',
-                    exchange: SupportedExchanges.MEXC,
-                    minTradeAmount: parseFloat(symbol.minOrderSize || '0'),
-                    tickSize: parseFloat(symbol.priceScale || '0'),
-                    lastUpdated: Date.now(),
-                }));
-
-        } catch (error) {
-            this.logger.error(`❌ Failed to fetch MEXC symbols: ${error.message}`);
-
-            // Send failure notification if enabled
-            await this.notifyFailure('Symbol Fetch Failed', error.message);
+                .map((symbol: any) => {
+                    const contractSize = parseFloat(symbol.contractSize || '1');
+                    this.contractSizes.set(symbol.symbol, contractSize);
 
-            // Return fallback symbols only if enabled
-            if (this.enableFallbacks) {
-                this.logger.warn(`⚠️ Using fallback symbols for MEXC: ${this.fallbackSymbols.join(', ')}`);
-
-                return this.fallbackSymbols.map(symbol => {
-                    const [baseAsset, quoteAsset] = symbol.split('/');
                     return {
-                        symbol,
-                        baseAsset,
-                        quoteAsset,
-                        status: 'TRADING',
+                        symbol: `${symbol.baseCoin}/${symbol.quoteCoin}`,
+                        baseAsset: symbol.baseCoin,
+                        quoteAsset: symbol.quoteCoin,
+                        status: symbol.state === 0 ? 'TRADING' : 'INACTIVE',
                         exchange: SupportedExchanges.MEXC,
-                        minTradeAmount: 0,
-                        tickSize: 0,
+                        marketType: this.marketType,
+                        minTradeAmount: parseFloat(symbol.minVol || '0'),
+                        tickSize: parseFloat(symbol.priceUnit || '0'), // priceScale is a decimal count, not a tick
+                        contractSize,
+                        pricePrecision: symbol.priceScale,
+                        spec: {
+                            contractSize,
+                            tickSize: this.parseOptionalNumber(symbol.priceUnit),
+                            lotStep: (this.parseOptionalNumber(symbol.volUnit) ?? 1) * contractSize,
+                            minQty: (this.parseOptionalNumber(symbol.minVol) ?? 1) * contractSize,
+                            minNotional: null,
+                            maxLeverage: this.parseOptionalNumber(symbol.maxLeverage),
+                            marginAsset: symbol.settleCoin || null,
+                            launchTime: this.parseOptionalNumber(symbol.openingTime),
+                            expiryTime: null,
+                        },
                         lastUpdated: Date.now(),
                     };
                 });
+
+        } catch (error) {
+            return this.handleSymbolFetchFailure(error);
+        }
+    }
+
+    async getFundingRates(): Promise<FundingRate[]> {
+        try {
+            const response = await this.rest.fetch(`${this.apiUrl}/contract/funding_rate`);
+            const data = await response.json();
+
+            if (!data.success) {
+                throw new Error(`MEXC API error: ${data.msg || 'Unknown error'}`);
             }
 
-            // No fallbacks - return empty array to force notification
+            return data.data
+                .filter((item: any) => this.resolveSymbol(item.symbol))
+                .map((item: any) => ({
+                    symbol: this.resolveSymbol(item.symbol),
+                    exchange: SupportedExchanges.MEXC,
+                    fundingRate: parseFloat(item.fundingRate),
+                    nextFundingTime: item.nextSettleTime,
+                    fundingIntervalHours: item.collectCycle || 8,
+                    timestamp: Date.now(),
+                }));
+        } catch (error) {
+            this.logger.error(`❌ Failed to fetch MEXC funding rates: ${error.message}`);
             return [];
         }
     }
 
-    private async reconnectTicker(symbol: string, callback: (data: PriceData) => void): Promise<void> {
-        if (!this.isInitialized || this.connections.has(symbol)) {
-            return;
+    async getServerTime(): Promise<ServerTimeSample> {
+        const { response, sentAt, receivedAt } = await this.rest.timedFetch(`${this.apiUrl}/contract/ping`);
+        const data = await response.json();
+
+        if (!data.success) {
+            throw new Error(`MEXC API error: ${data.msg || 'Unknown error'}`);
         }
 
-        this.logger.log(`🔄 Reconnecting to MEXC ticker: ${symbol}`);
+        return { serverTime: data.data, sentAt, receivedAt };
+    }
 
-        try {
-            await this.subscribeToTicker(symbol, callback);
-        } catch (error) {
-            this.logger.error(`❌ Failed to reconnect to MEXC ticker ${symbol}: ${error.message}`);
+    protected async fetchRestTickers(): Promise<Map<string, Partial<PriceData>>> {
+        const response = await this.rest.fetch(`${this.apiUrl}/contract/ticker`);
+        const data = await response.json();
 
-            // Retry after a longer delay
-            setTimeout(() => {
-                this.reconnectTicker(symbol, callback);
-            }, this.reconnectInterval * 6); // 6x the normal interval for retries
+        if (!data.success) {
+            throw new Error(`MEXC API error: ${data.msg || 'Unknown error'}`);
         }
+
+        return new Map(data.data.map((ticker: any) => [ticker.symbol, {
+            ...this.parseTickerData(ticker, ticker.symbol),
+            bestBid: parseFloat(ticker.bid1),
+            bestAsk: parseFloat(ticker.ask1),
+        }]));
     }
 
-    private formatSymbolForStream(symbol: string): string {
+    protected formatSymbolForStream(symbol: string): string {
         // Convert BTC/USDT to BTC_USDT for MEXC
         return symbol.replace('/', '_');
     }
 
-    private parseTickerData(data: any, symbol: string): PriceData {
-        // Handle different data formats from MEXC
-        const price = parseFloat(data.lastPrice || data.fairPrice || data.indexPrice || data.price || '0');
-        const volume = parseFloat(data.volume24h || data.volume || data.vol || '0');
-        const high = parseFloat(data.high24h || data.high || '0');
-        const low = parseFloat(data.low24h || data.low || '0');
+    protected getTopics(streamSymbol: string): string[] {
+        // Topics are "<channel>:<symbol>"
+        const topics = [`ticker:${streamSymbol}`];
 
-        return {
-            symbol,
-            price,
-            exchange: SupportedExchanges.MEXC,
-            timestamp: Date.now(),
-            volume,
-            high,
-            low,
-        };
-    }
+        if (this.orderBookEnabled) {
+            topics.push(`depth.full:${streamSymbol}`);
+        }
 
-    isConnected(): boolean {
-        return this.isInitialized && this.connections.size > 0;
+        if (this.tradeStreamsEnabled) {
+            topics.push(`deal:${streamSymbol}`);
+        }
+
+        return topics;
     }
 
-    getConnectionCount(): number {
-        return this.connections.size;
+    protected buildSubscribeMessages(topics: string[]): object[] {
+        // MEXC accepts a single symbol per subscribe request
+        return topics.map(topic => {
+            const [channel, symbol] = topic.split(':');
+            return channel === 'depth.full'
+                ? { method: 'sub.depth.full', param: { symbol, limit: 20 } }
+                : { method: `sub.${channel}`, param: { symbol } };
+        });
     }
 
-    getConnectedSymbols(): string[] {
-        return Array.from(this.connections.keys());
+    protected buildUnsubscribeMessages(topics: string[]): object[] {
+        return topics.map(topic => {
+            const [channel, symbol] = topic.split(':');
+            return { method: `unsub.${channel}`, param: { symbol } };
+        });
     }
 
-    private async notifyFailure(type: string, message: string): Promise<void> {
-        if (!this.notifyFailures) return;
+    protected handleMessage(message: any): void {
+        if (!message.data) {
+            return;
+        }
+
+        const symbol = this.resolveSymbol(message.symbol || message.data.symbol);
+
+        if (!symbol) {
+            return;
+        }
 
-        const notificationKey = `${type}-${message}`;
-        const now = Date.now();
-        const lastNotification = this.failureNotifications.get(notificationKey);
+        if (message.channel === 'push.ticker') {
+            this.publish(symbol, { ...this.parseTickerData(message.data, symbol), eventTime: message.ts });
 
-        // Check cooldown period
-        if (lastNotification && now - lastNotification < this.failureCooldownMs) {
-            return; // Still in cooldown
+            if (this.fundingStreamsEnabled) {
+                this.publishFunding(symbol, { fundingRate: parseFloat(message.data.fundingRate) });
+            }
+        } else if (message.channel === 'push.depth.full') {
+            this.updateOrderBook(symbol, this.parseContractLevels(message.data.bids, message.symbol), this.parseContractLevels(message.data.asks, message.symbol), true, message.ts);
+        } else if (message.channel === 'push.deal') {
+            const contractSize = this.contractSizes.get(message.symbol) || 1;
+
+            for (const deal of Array.isArray(message.data) ? message.data : [message.data]) {
+                // v is in contracts; T is 1 for a taker buy, 2 for a taker sell
+                this.publishTrade(symbol, {
+                    price: parseFloat(deal.p),
+                    size: parseFloat(deal.v) * contractSize,
+                    side: deal.T === 2 ? 'sell' : 'buy',
+                    eventTime: deal.t,
+                });
+            }
         }
+    }
 
-        this.failureNotifications.set(notificationKey, now);
+    private parseContractLevels(levels: any[], contract: string): OrderBookLevel[] {
+        const contractSize = this.contractSizes.get(contract) || 1;
+        return this.parseLevels(levels).map(([price, size]) => [price, size * contractSize] as OrderBookLevel);
+    }
 
-        // Log the failure
-        this.logger.error(`🚨 MEXC FAILURE NOTIFICATION: ${type} - ${message}`);
+    private parseTickerData(data: any, symbol: string): Partial<PriceData> {
+        // Keep price kinds apart: fairPrice is MEXC's mark price and never stands in for the last price
+        const price = parseFloat(data.lastPrice);
+        const volume = parseFloat(data.volume24 || '0');
+        const high = parseFloat(data.high24Price || '0');
+        const low = parseFloat(data.lower24Price || '0');
 
-        // Send Telegram notification
-        try {
-            await this.telegramService.sendSystemAlert(`🚨 **MEXC Exchange Failure**\n\n**Type:** ${type}\n**Details:** ${message}\n\n⚠️ Please check MEXC API status and fix if needed.`);
-        } catch (telegramError) {
-            this.logger.error(`❌ Failed to send Telegram notification: ${telegramError.message}`);
-        }
+        return {
+            symbol,
+            price,
+            exchange: SupportedExchanges.MEXC,
+            timestamp: Date.now(),
+            markPrice: parseFloat(data.fairPrice),
+            indexPrice: parseFloat(data.indexPrice),
+            volume,
+            quoteVolume: parseFloat(data.amount24), // 24h turnover
+            openInterest: parseFloat(data.holdVol) * (this.contractSizes.get(data.symbol) || 1), // Contracts to base units
+            high,
+            low,
+        };
     }
 } 
\ No newline at end of file
@@ -0,0 +1,264 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PriceData, SupportedExchanges, ExchangeSymbol, ExchangeCapabilities, ServerTimeSample } from '@/common/types';
+import { TelegramService } from '@/telegram/telegram.service';
+import { BaseExchangeService } from './base-exchange.service';
+import { ExchangeRegistry } from './exchange.registry';
+import { RestRateLimit } from './rest-rate-limiter';
+import { WsHeartbeat } from './ws-connection-pool';
+import { OrderBookLevel } from './order-book';
+
+@Injectable()
+export class OkxService extends BaseExchangeService {
+    readonly name = SupportedExchanges.OKX;
+    readonly displayName = 'OKX';
+    readonly capabilities: ExchangeCapabilities = {
+        tickerStream: true,
+        symbolDiscovery: true,
+        orderBook: true,
+        fundingRates: true, // Streamed only, OKX has no bulk funding endpoint
+        tradeStream: true,
+    };
+
+    protected readonly wsUrl = this.endpoint('WS', 'wss://ws.okx.com:8443/ws/v5/public');
+    protected readonly maxTopicsPerConnection = 240;
+    protected readonly maxTopicsPerMessage = 50; // Keeps subscribe requests under OKX's 64KB frame limit
+    private readonly apiUrl = this.endpoint('REST', 'https://www.okx.com/api/v5');
+    protected readonly restRateLimit: RestRateLimit = { weightLimit: 20, windowMs: 2000 }; // Public endpoints: 20 requests per 2s
+    protected readonly heartbeat: WsHeartbeat = {
+        buildPing: () => 'ping', // Answered with a bare "pong"; OKX drops sockets silent for 30s
+    };
+    private readonly contractValues = new Map<string, number>(); // BTC-USDT-SWAP -> base units per contract
+
+    // Configuration
+    private readonly wsTimeout: number;
+
+    constructor(
+        configService: ConfigService,
+        telegramService: TelegramService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+    ) {
+        super(configService, telegramService);
+
+        this.wsTimeout = parseInt(this.configService.get<string>('WEBSOCKET_TIMEOUT', '10000'));
+
+        this.exchangeRegistry.register(this);
+    }
+
+    async getSymbols(): Promise<ExchangeSymbol[]> {
+        try {
+            const endpoint = `${this.apiUrl}/public/instruments?instType=SWAP`;
+
+            this.logger.log(`🔄 Trying OKX symbols endpoint: ${endpoint}`);
+
+            // Set up timeout using AbortController
+            const controller = new AbortController();
+            const timeoutId = setTimeout(() => controller.abort(), this.wsTimeout);
+
+            const response = await this.rest.fetch(endpoint, 1, {
+                method: 'GET',
+                headers: {
+                    'Accept': 'application/json',
+                    'User-Agent': 'Mozilla/5.0 (compatible; FuturesArbitrageBot/1.0)'
+                },
+                signal: controller.signal
+            });
+
+            clearTimeout(timeoutId);
+
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+
+            const responseDataJson = await response.json();
+
+            if (responseDataJson.code !== '0') {
+                throw new Error(`OKX API error: ${responseDataJson.msg || 'Unknown error'}`);
+            }
+
+            this.logger.log(`✅ OKX symbols fetched successfully from: ${endpoint}`);
+
+            // Only USDT-margined linear swaps; coin-margined swaps settle in the base coin
+            return responseDataJson.data
+                .filter((instrument: any) => instrument.state === 'live' && instrument.ctType === 'linear' && instrument.settleCcy === 'USDT')
+                .map((instrument: any) => {
+                    const [baseAsset, quoteAsset] = instrument.uly.split('-');
+                    const contractSize = parseFloat(instrument.ctVal);
+
+                    this.contractValues.set(instrument.instId, contractSize);
+
+                    return {
+                        symbol: `${baseAsset}/${quoteAsset}`,
+                        baseAsset,
+                        quoteAsset,
+                        status: 'TRADING',
+                        exchange: SupportedExchanges.OKX,
+                        marketType: this.marketType,
+                        minTradeAmount: parseFloat(instrument.minSz || '0') * contractSize, // Contracts to base units
+                        tickSize: parseFloat(instrument.tickSz || '0'),
+                        contractSize,
+                        spec: {
+                            contractSize,
+                            tickSize: this.parseOptionalNumber(instrument.tickSz),
+                            lotStep: (this.parseOptionalNumber(instrument.lotSz) ?? 1) * contractSize,
+                            minQty: (this.parseOptionalNumber(instrument.minSz) ?? 1) * contractSize,
+                            minNotional: null,
+                            maxLeverage: this.parseOptionalNumber(instrument.lever),
+                            marginAsset: instrument.settleCcy || null,
+                            launchTime: this.parseOptionalNumber(instrument.listTime),
+                            expiryTime: null,
+                        },
+                        lastUpdated: Date.now(),
+                    };
+                });
+
+        } catch (error) {
+            return this.handleSymbolFetchFailure(error);
+        }
+    }
+
+    async getServerTime(): Promise<ServerTimeSample> {
+        const { response, sentAt, receivedAt } = await this.rest.timedFetch(`${this.apiUrl}/public/time`);
+        const data = await response.json();
+
+        if (data.code !== '0') {
+            throw new Error(`OKX API error: ${data.msg || 'Unknown error'}`);
+        }
+
+        return { serverTime: parseInt(data.data[0].ts), sentAt, receivedAt };
+    }
+
+    protected async fetchRestTickers(): Promise<Map<string, Partial<PriceData>>> {
+        const response = await this.rest.fetch(`${this.apiUrl}/market/tickers?instType=SWAP`);
+        const data = await response.json();
+
+        if (data.code !== '0') {
+            throw new Error(`OKX API error: ${data.msg || 'Unknown error'}`);
+        }
+
+        return new Map(data.data.map((ticker: any) => {
+            const contractSize = this.contractValues.get(ticker.instId) || 1;
+
+            return [ticker.instId, {
+                ...this.parseTickerData(ticker, ticker.instId),
+                bestBid: parseFloat(ticker.bidPx),
+                bestBidSize: parseFloat(ticker.bidSz) * contractSize,
+                bestAsk: parseFloat(ticker.askPx),
+                bestAskSize: parseFloat(ticker.askSz) * contractSize,
+            }];
+        }));
+    }
+
+    protected formatSymbolForStream(symbol: string): string {
+        // Convert BTC/USDT to BTC-USDT-SWAP
+        return `${symbol.replace('/', '-')}-SWAP`;
+    }
+
+    protected getTopics(streamSymbol: string): string[] {
+        // Topics are "<channel>:<instId>"; the index ticker is keyed by the underlying, not the swap
+        const topics = [
+            `tickers:${streamSymbol}`,
+            `mark-price:${streamSymbol}`,
+            `index-tickers:${streamSymbol.replace(/-SWAP$/, '')}`,
+            `open-interest:${streamSymbol}`,
+        ];
+
+        if (this.orderBookEnabled) {
+            topics.push(`books5:${streamSymbol}`);
+        }
+
+        if (this.fundingStreamsEnabled) {
+            topics.push(`funding-rate:${streamSymbol}`);
+        }
+
+        if (this.tradeStreamsEnabled) {
+            topics.push(`trades:${streamSymbol}`);
+        }
+
+        return topics;
+    }
+
+    protected buildSubscribeMessages(topics: string[]): object[] {
+        return [{ op: 'subscribe', args: topics.map(topic => this.toChannelArg(topic)) }];
+    }
+
+    protected buildUnsubscribeMessages(topics: string[]): object[] {
+        return [{ op: 'unsubscribe', args: topics.map(topic => this.toChannelArg(topic)) }];
+    }
+
+    protected handleMessage(message: any): void {
+        if (message.event === 'error') {
+            this.logger.error(`❌ OKX subscription error: ${message.code} - ${message.msg}`);
+            return;
+        }
+
+        // Subscription acknowledgements carry no data
+        if (!message.arg || !Array.isArray(message.data)) {
+            return;
+        }
+
+        const { channel, instId } = message.arg;
+        const symbol = this.topicSymbols.get(`${channel}:${instId}`);
+
+        if (!symbol) {
+            return;
+        }
+
+        for (const data of message.data) {
+            const eventTime = parseInt(data.ts);
+
+            if (channel === 'tickers') {
+                this.publish(symbol, { ...this.parseTickerData(data, symbol), eventTime });
+            } else if (channel === 'mark-price') {
+                this.publish(symbol, { markPrice: parseFloat(data.markPx), eventTime });
+            } else if (channel === 'index-tickers') {
+                this.publish(symbol, { indexPrice: parseFloat(data.idxPx), eventTime });
+            } else if (channel === 'open-interest') {
+                this.publishOpenInterest(symbol, parseFloat(data.oiCcy)); // oiCcy is in coins, oi in contracts
+            } else if (channel === 'books5') {
+                // books5 pushes a full five-level snapshot with sizes in contracts
+                this.updateOrderBook(symbol, this.parseContractLevels(data.bids, instId), this.parseContractLevels(data.asks, instId), true, eventTime);
+            } else if (channel === 'funding-rate') {
+                const fundingTime = parseInt(data.fundingTime);
+                const nextFundingTime = parseInt(data.nextFundingTime);
+
+                this.publishFunding(symbol, {
+                    fundingRate: parseFloat(data.fundingRate),
+                    predictedFundingRate: parseFloat(data.nextFundingRate),
+                    nextFundingTime: fundingTime,
+                    fundingIntervalHours: nextFundingTime > fundingTime ? (nextFundingTime - fundingTime) / 3600000 : undefined,
+                });
+            } else if (channel === 'trades') {
+                this.publishTrade(symbol, {
+                    price: parseFloat(data.px),
+                    size: parseFloat(data.sz) * (this.contractValues.get(instId) || 1), // Contracts to base units
+                    side: data.side === 'sell' ? 'sell' : 'buy',
+                    eventTime,
+                });
+            }
+        }
+    }
+
+    private toChannelArg(topic: string): { channel: string; instId: string } {
+        const [channel, instId] = topic.split(':');
+        return { channel, instId };
+    }
+
+    private parseContractLevels(levels: any[], instId: string): OrderBookLevel[] {
+        const contractSize = this.contractValues.get(instId) || 1;
+        return this.parseLevels(levels).map(([price, size]) => [price, size * contractSize] as OrderBookLevel);
+    }
+
+    private parseTickerData(data: any, symbol: string): Partial<PriceData> {
+        return {
+            symbol,
+            price: parseFloat(data.last), // Last price
+            exchange: SupportedExchanges.OKX,
+            timestamp: Date.now(),
+            volume: parseFloat(data.volCcy24h || '0'), // 24h volume in base currency
+            quoteVolume: parseFloat(data.volCcy24h) * parseFloat(data.last), // Swaps report no quote volume, so value it at the last price
+            high: parseFloat(data.high24h || '0'), // 24h high
+            low: parseFloat(data.low24h || '0'), // 24h low
+        };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { OrderBook } from './order-book';
+
+describe('OrderBook', () => {
+    let book: OrderBook;
+
+    beforeEach(() => {
+        book = new OrderBook();
+        book.applySnapshot([[99, 1], [98, 2], [100, 3]], [[102, 1], [101, 2], [103, 3]]);
+    });
+
+    it('tracks the best bid and ask of a snapshot', () => {
+        expect(book.getBestBid()).toEqual([100, 3]);
+        expect(book.getBestAsk()).toEqual([101, 2]);
+    });
+
+    it('updates and removes levels from deltas', () => {
+        book.applyDelta([[100, 0], [99, 5]], [[101, 0], [100.5, 4]]);
+
+        expect(book.getBestBid()).toEqual([99, 5]);
+        expect(book.getBestAsk()).toEqual([100.5, 4]);
+    });
+
+    it('replaces the whole book on a new snapshot', () => {
+        book.applySnapshot([[90, 1]], []);
+
+        expect(book.getBestBid()).toEqual([90, 1]);
+        expect(book.getBestAsk()).toBeNull();
+    });
+
+    it('ignores unparseable levels', () => {
+        book.applyDelta([[NaN, 1], [100, NaN]], []);
+
+        expect(book.getBestBid()).toEqual([100, 3]);
+    });
+});
\ No newline at end of file
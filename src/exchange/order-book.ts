@@ -0,0 +1,61 @@
+export type OrderBookLevel = [price: number, size: number];
+
+/**
+ * Local level-2 order book for one symbol, fed by snapshots and deltas
+ * from an exchange depth stream.
+ */
+export class OrderBook {
+    private readonly bids = new Map<number, number>();
+    private readonly asks = new Map<number, number>();
+
+    /**
+     * Replace the whole book
+     */
+    applySnapshot(bids: OrderBookLevel[], asks: OrderBookLevel[]): void {
+        this.bids.clear();
+        this.asks.clear();
+        this.applyDelta(bids, asks);
+    }
+
+    /**
+     * Apply level changes; a size of zero removes the level
+     */
+    applyDelta(bids: OrderBookLevel[], asks: OrderBookLevel[]): void {
+        this.applyLevels(this.bids, bids);
+        this.applyLevels(this.asks, asks);
+    }
+
+    getBestBid(): OrderBookLevel | null {
+        return this.findBest(this.bids, (a, b) => a > b);
+    }
+
+    getBestAsk(): OrderBookLevel | null {
+        return this.findBest(this.asks, (a, b) => a < b);
+    }
+
+    private applyLevels(side: Map<number, number>, levels: OrderBookLevel[]): void {
+        for (const [price, size] of levels) {
+            if (isNaN(price) || isNaN(size)) {
+                continue;
+            }
+
+            if (size <= 0) {
+                side.delete(price);
+            } else {
+                side.set(price, size);
+            }
+        }
+    }
+
+    private findBest(side: Map<number, number>, isBetter: (a: number, b: number) => boolean): OrderBookLevel | null {
+        let best: OrderBookLevel | null = null;
+
+        for (const [price, size] of side) {
+            if (!best || isBetter(price, best[0])) {
+                best = [price, size];
+            }
+        }
+
+        return best;
+    }
+}
\ No newline at end of file
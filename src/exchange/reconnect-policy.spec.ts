@@ -0,0 +1,30 @@
+import { ReconnectPolicy } from './reconnect-policy';
+
+describe('ReconnectPolicy', () => {
+    const policy = new ReconnectPolicy({ baseDelayMs: 1000, maxDelayMs: 30000 });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('keeps the delay between half and all of the backoff', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+        expect(policy.getDelay(0)).toBe(500);
+        expect(policy.getDelay(3)).toBe(4000);
+
+        jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+        expect(policy.getDelay(0)).toBe(1000);
+        expect(policy.getDelay(3)).toBe(8000);
+    });
+
+    it('caps the backoff at the maximum delay', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+        expect(policy.getDelay(10)).toBe(30000);
+        expect(policy.getDelay(100)).toBe(30000);
+    });
+
+    it('grows by the configured multiplier', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+        expect(new ReconnectPolicy({ baseDelayMs: 1000, maxDelayMs: 30000, multiplier: 3 }).getDelay(2)).toBe(4500);
+    });
+});
\ No newline at end of file
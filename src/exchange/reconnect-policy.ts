@@ -0,0 +1,30 @@
+export interface ReconnectPolicyOptions {
+    baseDelayMs: number;
+    maxDelayMs: number;
+    multiplier?: number;                                 // Growth per failed attempt (default 2)
+}
+
+/**
+ * Exponential backoff with jitter, shared by every reconnecting client so a
+ * venue outage doesn't turn into synchronized reconnect bursts.
+ */
+export class ReconnectPolicy {
+    private readonly multiplier: number;
+
+    constructor(private readonly options: ReconnectPolicyOptions) {
+        this.multiplier = options.multiplier || 2;
+    }
+
+    /**
+     * Delay before the given retry (0 = first retry after a healthy connection).
+     * Half of the backoff is fixed and half is random.
+     */
+    getDelay(attempt: number): number {
+        const backoff = Math.min(
+            this.options.maxDelayMs,
+            this.options.baseDelayMs * Math.pow(this.multiplier, attempt)
+        );
+
+        return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+    }
+}
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { ExchangeRegistry } from './exchange.registry';
+import { RecordedFrame } from './frame-recorder.service';
+
+/**
+ * Replays a recorded session: frames from FrameRecorderService files are fed
+ * through each adapter's own parsing path at real or accelerated speed, with
+ * no network. Enabled by setting REPLAY_PATH to a recording file or directory.
+ */
+@Injectable()
+export class ReplayExchangeService implements OnApplicationBootstrap {
+    private readonly logger = new Logger(ReplayExchangeService.name);
+    private readonly replayPath: string;
+    private readonly speed: number;
+    private isReplaying = false;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly exchangeRegistry: ExchangeRegistry,
+    ) {
+        this.replayPath = this.configService.get<string>('REPLAY_PATH', '');
+        // 1 = recorded pace, 10 = ten times faster, 0 = as fast as frames can be parsed
+        this.speed = parseFloat(this.configService.get<string>('REPLAY_SPEED', '1'));
+    }
+
+    isEnabled(): boolean {
+        return !!this.replayPath;
+    }
+
+    onApplicationBootstrap() {
+        // Runs after ExchangeService has subscribed the recorded symbols
+        if (this.isEnabled()) {
+            this.replay().catch(error => this.logger.error(`❌ Replay failed: ${error.message}`));
+        }
+    }
+
+    /**
+     * Exchange symbols subscribed anywhere in the recording, per exchange.
+     * Used instead of live symbol discovery while replaying.
+     */
+    async getRecordedSymbols(): Promise<Map<string, string[]>> {
+        const symbols = new Map<string, Set<string>>();
+
+        await this.readRecords(async (record) => {
+            if (record.subscribe) {
+                if (!symbols.has(record.exchange)) {
+                    symbols.set(record.exchange, new Set());
+                }
+                symbols.get(record.exchange)!.add(record.subscribe);
+            }
+        });
+
+        return new Map(Array.from(symbols.entries()).map(([exchange, set]) => [exchange, Array.from(set)]));
+    }
+
+    /**
+     * Feed every recorded frame to its adapter, keeping the recorded spacing
+     * between frames divided by the replay speed
+     */
+    async replay(): Promise<number> {
+        if (this.isReplaying) {
+            throw new Error('Replay already running');
+        }
+
+        this.isReplaying = true;
+        this.logger.log(`▶️ Replaying ${this.replayPath} at ${this.speed > 0 ? `${this.speed}x` : 'full'} speed`);
+
+        let frames = 0;
+        let firstReceivedAt: number | null = null;
+        const startedAt = Date.now();
+
+        try {
+            await this.readRecords(async (record) => {
+                if (!record.frame) {
+                    return;
+                }
+
+                const service = this.exchangeRegistry.get(record.exchange);
+                if (!service) {
+                    return; // Exchange no longer configured
+                }
+
+                firstReceivedAt ??= record.receivedAt;
+
+                if (this.speed > 0) {
+                    const dueAt = startedAt + (record.receivedAt - firstReceivedAt) / this.speed;
+                    const wait = dueAt - Date.now();
+                    if (wait > 0) {
+                        await new Promise(resolve => setTimeout(resolve, wait));
+                    }
+                }
+
+                service.ingestFrame(record.frame, record.receivedAt);
+                frames++;
+            });
+        } finally {
+            this.isReplaying = false;
+        }
+
+        this.logger.log(`⏹️ Replay finished: ${frames} frames in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+        return frames;
+    }
+
+    /**
+     * Read the recording line by line, files in name (and so time) order
+     */
+    private async readRecords(handler: (record: RecordedFrame) => Promise<void>): Promise<void> {
+        for (const file of this.getFiles()) {
+            const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+
+            for await (const line of lines) {
+                if (!line.trim()) {
+                    continue;
+                }
+
+                try {
+                    await handler(JSON.parse(line));
+                } catch (error) {
+                    this.logger.warn(`⚠️ Skipping unreadable line in ${file}: ${error.message}`);
+                }
+            }
+        }
+    }
+
+    private getFiles(): string[] {
+        if (!fs.statSync(this.replayPath).isDirectory()) {
+            return [this.replayPath];
+        }
+
+        return fs.readdirSync(this.replayPath)
+            .filter(file => file.endsWith('.ndjson'))
+            .sort()
+            .map(file => path.join(this.replayPath, file));
+    }
+}
\ No newline at end of file
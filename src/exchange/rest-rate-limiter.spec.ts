@@ -0,0 +1,84 @@
+import { RestRateLimiter } from './rest-rate-limiter';
+
+describe('RestRateLimiter', () => {
+    let fetchMock: jest.SpyInstance;
+
+    const createLimiter = (maxWaitMs = 5000) => new RestRateLimiter({
+        name: 'Test',
+        weightLimit: 2,
+        windowMs: 1000,
+        usedWeightHeader: 'x-used-weight',
+        maxWaitMs,
+    });
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: 1_000_000 });
+        fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async () => new Response('{}'));
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    it('reports when the request left and when its response arrived', async () => {
+        const limiter = createLimiter();
+        fetchMock.mockImplementation(async () => {
+            jest.advanceTimersByTime(250);
+            return new Response('{}');
+        });
+
+        const { response, sentAt, receivedAt } = await limiter.timedFetch('http://venue/time');
+
+        expect(response.ok).toBe(true);
+        expect(sentAt).toBe(1_000_000);
+        expect(receivedAt).toBe(1_000_250);
+    });
+
+    it('holds calls until their weight fits in the window', async () => {
+        const limiter = createLimiter();
+        await limiter.fetch('http://venue/a');
+        await limiter.fetch('http://venue/b');
+
+        const third = limiter.fetch('http://venue/c');
+        await jest.advanceTimersByTimeAsync(0);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(limiter.getStatus()).toMatchObject({ usedWeight: 2, waiting: 1 });
+
+        await jest.advanceTimersByTimeAsync(1000);
+        await third;
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+        expect(limiter.getStatus()).toMatchObject({ usedWeight: 1, waiting: 0 });
+    });
+
+    it('rejects calls that would wait longer than the maximum', async () => {
+        const limiter = createLimiter(500);
+        await limiter.fetch('http://venue/a', 2);
+
+        await expect(limiter.fetch('http://venue/b')).rejects.toThrow('Test REST budget exhausted (2/2 weight)');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(limiter.getStatus().rejected).toBe(1);
+    });
+
+    it('counts the weight the venue reports when it is higher', async () => {
+        const limiter = createLimiter(500);
+        fetchMock.mockResolvedValue(new Response('{}', { headers: { 'x-used-weight': '2' } }));
+
+        await limiter.fetch('http://venue/a');
+
+        expect(limiter.getStatus().usedWeight).toBe(2);
+        await expect(limiter.fetch('http://venue/b')).rejects.toThrow('budget exhausted');
+    });
+
+    it('pauses every call after a 429 for the venue\'s retry-after', async () => {
+        const limiter = createLimiter(500);
+        fetchMock.mockResolvedValueOnce(new Response('', { status: 429, headers: { 'retry-after': '5' } }));
+
+        await expect(limiter.fetch('http://venue/a')).rejects.toThrow('Test rate limited (HTTP 429), REST paused for 5s');
+        expect(limiter.getStatus()).toMatchObject({ throttled: 1, backoffMs: 5000 });
+        await expect(limiter.fetch('http://venue/b')).rejects.toThrow('budget exhausted');
+
+        await jest.advanceTimersByTimeAsync(5000);
+        await expect(limiter.fetch('http://venue/c')).resolves.toBeInstanceOf(Response);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,190 @@
+import { Logger } from '@nestjs/common';
+import { RateLimitStatus } from '@/common/types';
+import { ReconnectPolicy } from './reconnect-policy';
+
+/**
+ * A venue's published REST limit for our IP
+ */
+export interface RestRateLimit {
+    weightLimit: number;                                 // Request weight allowed per window
+    windowMs: number;
+    usedWeightHeader?: string;                           // Response header with the venue's own count of weight used
+}
+
+export interface RestRateLimiterOptions extends RestRateLimit {
+    name: string;                                        // Exchange display name for logs
+    maxWaitMs: number;                                   // Reject calls that would wait longer than this for budget
+}
+
+interface WeightedRequest {
+    sentAt: number;
+    weight: number;
+}
+
+/**
+ * Client-side request weight accounting for one exchange. Calls wait in line
+ * until they fit in the venue's budget (or are rejected when that would take
+ * too long), the venue's reported usage overrides our own count when higher,
+ * and 429/418 responses pause every call until the ban is over.
+ */
+export class RestRateLimiter {
+    private readonly logger: Logger;
+    private readonly requests: WeightedRequest[] = [];
+    private readonly backoffPolicy = new ReconnectPolicy({ baseDelayMs: 1000, maxDelayMs: 120000 });
+    private queue: Promise<void> = Promise.resolve();
+    private reportedWeight = 0;
+    private reportedAt = 0;
+    private backoffUntil = 0;
+    private consecutiveThrottles = 0;
+    private waiting = 0;
+    private rejectedCount = 0;
+    private throttledCount = 0;
+
+    constructor(private readonly options: RestRateLimiterOptions) {
+        this.logger = new Logger(`${options.name}RateLimiter`);
+    }
+
+    /**
+     * fetch() once the call's weight fits in the budget. Throws when the budget
+     * can't be had within maxWaitMs or the venue answers 429/418.
+     */
+    async fetch(url: string, weight = 1, init?: RequestInit): Promise<Response> {
+        return (await this.timedFetch(url, weight, init)).response;
+    }
+
+    /**
+     * fetch() that also reports when the request left and when its response
+     * arrived, so time spent waiting in line for budget can be told apart
+     */
+    async timedFetch(url: string, weight = 1, init?: RequestInit): Promise<{ response: Response; sentAt: number; receivedAt: number }> {
+        await this.acquire(weight);
+
+        const sentAt = Date.now();
+        const response = await fetch(url, init);
+        const receivedAt = Date.now();
+        this.recordResponse(response);
+
+        if (response.status === 429 || response.status === 418) {
+            throw new Error(`${this.options.name} rate limited (HTTP ${response.status}), REST paused for ${Math.ceil(this.getBackoffMs() / 1000)}s`);
+        }
+
+        return { response, sentAt, receivedAt };
+    }
+
+    getStatus(): RateLimitStatus {
+        return {
+            usedWeight: this.getUsedWeight(Date.now()),
+            weightLimit: this.options.weightLimit,
+            windowMs: this.options.windowMs,
+            waiting: this.waiting,
+            rejected: this.rejectedCount,
+            throttled: this.throttledCount,
+            backoffMs: this.getBackoffMs(),
+        };
+    }
+
+    /**
+     * Take a place in line; a rejected call doesn't hold up the ones behind it
+     */
+    private acquire(weight: number): Promise<void> {
+        const turn = this.queue.then(() => this.reserve(weight));
+        this.queue = turn.catch(() => undefined);
+        return turn;
+    }
+
+    private async reserve(weight: number): Promise<void> {
+        // A call heavier than the whole budget goes out alone in an empty window
+        weight = Math.min(weight, this.options.weightLimit);
+
+        const waitMs = this.getWaitMs(weight);
+        if (waitMs > this.options.maxWaitMs) {
+            this.rejectedCount++;
+            throw new Error(`${this.options.name} REST budget exhausted (${this.getUsedWeight(Date.now())}/${this.options.weightLimit} weight), next slot in ${Math.ceil(waitMs / 1000)}s`);
+        }
+
+        if (waitMs > 0) {
+            this.waiting++;
+            try {
+                await new Promise(resolve => setTimeout(resolve, waitMs));
+            } finally {
+                this.waiting--;
+            }
+        }
+
+        this.requests.push({ sentAt: Date.now(), weight });
+    }
+
+    /**
+     * Milliseconds until a call of this weight fits, counting any ban in force
+     */
+    private getWaitMs(weight: number): number {
+        const now = Date.now();
+        const { weightLimit, windowMs } = this.options;
+        this.prune(now);
+
+        let localWaitMs = 0;
+        let localWeight = this.requests.reduce((sum, request) => sum + request.weight, 0);
+        for (const request of this.requests) {
+            if (localWeight + weight <= weightLimit) {
+                break;
+            }
+            // Budget frees up as the oldest requests leave the window
+            localWeight -= request.weight;
+            localWaitMs = request.sentAt + windowMs - now;
+        }
+
+        const reportedWaitMs = this.hasFreshReport(now) && this.reportedWeight + weight > weightLimit
+            ? this.reportedAt + windowMs - now
+            : 0;
+
+        return Math.max(0, this.getBackoffMs(), localWaitMs, reportedWaitMs);
+    }
+
+    /**
+     * Weight used in the current window: our own count, or the venue's when it reports more
+     */
+    private getUsedWeight(now: number): number {
+        this.prune(now);
+        const localWeight = this.requests.reduce((sum, request) => sum + request.weight, 0);
+        return Math.max(localWeight, this.hasFreshReport(now) ? this.reportedWeight : 0);
+    }
+
+    private recordResponse(response: Response): void {
+        if (this.options.usedWeightHeader) {
+            const usedWeight = parseInt(response.headers.get(this.options.usedWeightHeader));
+            if (!isNaN(usedWeight)) {
+                this.reportedWeight = usedWeight;
+                this.reportedAt = Date.now();
+            }
+        }
+
+        if (response.status === 429 || response.status === 418) {
+            // 418 means the IP is already banned for ignoring 429s, so never retry early
+            const retryAfterSeconds = parseInt(response.headers.get('retry-after'));
+            const delayMs = retryAfterSeconds > 0
+                ? retryAfterSeconds * 1000
+                : response.status === 418 ? 120000 : this.backoffPolicy.getDelay(this.consecutiveThrottles);
+
+            this.throttledCount++;
+            this.consecutiveThrottles++;
+            this.backoffUntil = Math.max(this.backoffUntil, Date.now() + delayMs);
+            this.logger.warn(`⚠️ HTTP ${response.status} from ${this.options.name}, pausing REST calls for ${Math.ceil(delayMs / 1000)}s`);
+        } else if (response.ok) {
+            this.consecutiveThrottles = 0;
+        }
+    }
+
+    private getBackoffMs(): number {
+        return Math.max(0, this.backoffUntil - Date.now());
+    }
+
+    private hasFreshReport(now: number): boolean {
+        return now - this.reportedAt < this.options.windowMs;
+    }
+
+    private prune(now: number): void {
+        while (this.requests.length > 0 && now - this.requests[0].sentAt >= this.options.windowMs) {
+            this.requests.shift();
+        }
+    }
+}
\ No newline at end of file
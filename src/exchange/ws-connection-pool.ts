@@ -0,0 +1,465 @@
+import { Logger } from '@nestjs/common';
+import * as WebSocket from 'ws';
+import { ReconnectPolicy } from './reconnect-policy';
+import { CircuitBreaker } from './circuit-breaker';
+
+/**
+ * Venue keep-alive protocol. Without buildPing the pool sends WebSocket
+ * protocol ping frames and waits for protocol pongs.
+ */
+export interface WsHeartbeat {
+    buildPing?: () => string | object;                   // App-level ping sent every ping interval
+    isPong?: (message: any) => boolean;                  // Recognises the venue's JSON pong
+    buildPingReply?: (message: any) => object | null;    // Reply to server-initiated app-level pings
+}
+
+export interface WsConnectionPoolOptions {
+    name: string;                                        // Exchange display name for logs
+    url: string;
+    maxTopicsPerConnection: number;                      // Venue limit on topics per socket
+    maxTopicsPerMessage: number;                         // Venue limit on topics per subscribe request
+    reconnectPolicy: ReconnectPolicy;
+    circuitBreaker: CircuitBreaker;                      // Shared by every socket of the exchange
+    pingInterval: number;
+    pongTimeout: number;                                 // Recycle a socket whose ping goes unanswered this long
+    idleTimeout: number;                                 // Recycle a socket without data messages this long (0 = off)
+    heartbeat: WsHeartbeat;
+    buildSubscribeMessages: (topics: string[]) => object[];
+    buildUnsubscribeMessages: (topics: string[]) => object[];
+    onMessage: (message: any) => void;
+    onFrame?: (text: string) => void;                    // Raw text of every data frame, for recording
+    onRecycle?: (reason: string) => void;                // The adapter keeps the count, as it outlives pool rebuilds
+}
+
+interface PooledConnection {
+    id: number;
+    ws: WebSocket | null;
+    topics: Set<string>;
+    open: boolean;
+    lastMessageAt: number;                               // Last data message, pongs excluded
+    receivedData: boolean;                               // Current socket has delivered data
+    failedAttempts: number;                              // Connects since the last healthy socket
+    pingTimer: NodeJS.Timeout | null;
+    pongTimer: NodeJS.Timeout | null;
+    reconnectTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Shares a small number of WebSocket connections between many topic
+ * subscriptions, opening a new socket only when the existing ones are full.
+ */
+export class WsConnectionPool {
+    private readonly logger: Logger;
+    private readonly connections: PooledConnection[] = [];
+    private readonly topicConnections = new Map<string, PooledConnection>();
+    private nextConnectionId = 1;
+    private isClosed = false;
+    private watchdogTimer: NodeJS.Timeout | null = null;
+
+    constructor(private readonly options: WsConnectionPoolOptions) {
+        this.logger = new Logger(`${options.name}WsPool`);
+
+        if (options.idleTimeout > 0) {
+            this.watchdogTimer = setInterval(() => this.checkIdleConnections(), Math.max(1000, options.idleTimeout / 4));
+        }
+    }
+
+    /**
+     * Add topics to the pool, filling existing connections before opening new ones
+     */
+    subscribe(topics: string[]): void {
+        const pending = new Map<PooledConnection, string[]>();
+
+        for (const topic of topics) {
+            if (this.topicConnections.has(topic)) {
+                continue;
+            }
+
+            const connection = this.findConnectionWithCapacity() || this.createConnection();
+            connection.topics.add(topic);
+            this.topicConnections.set(topic, connection);
+
+            if (!pending.has(connection)) {
+                pending.set(connection, []);
+            }
+            pending.get(connection)!.push(topic);
+        }
+
+        for (const [connection, connectionTopics] of pending) {
+            if (!connection.ws) {
+                this.connectWhenAllowed(connection);
+            } else if (connection.open) {
+                // Topics for sockets still connecting are sent from the open handler
+                this.send(connection, this.options.buildSubscribeMessages, connectionTopics);
+            }
+        }
+    }
+
+    /**
+     * Remove topics from the pool, closing connections left without topics
+     */
+    unsubscribe(topics: string[]): void {
+        const pending = new Map<PooledConnection, string[]>();
+
+        for (const topic of topics) {
+            const connection = this.topicConnections.get(topic);
+            if (!connection) {
+                continue;
+            }
+
+            connection.topics.delete(topic);
+            this.topicConnections.delete(topic);
+
+            if (!pending.has(connection)) {
+                pending.set(connection, []);
+            }
+            pending.get(connection)!.push(topic);
+        }
+
+        for (const [connection, connectionTopics] of pending) {
+            if (connection.topics.size === 0) {
+                this.closeConnection(connection);
+            } else if (connection.open) {
+                this.send(connection, this.options.buildUnsubscribeMessages, connectionTopics);
+            }
+        }
+    }
+
+    /**
+     * Close every connection and forget all topics
+     */
+    close(): void {
+        this.isClosed = true;
+
+        if (this.watchdogTimer) {
+            clearInterval(this.watchdogTimer);
+            this.watchdogTimer = null;
+        }
+
+        for (const connection of [...this.connections]) {
+            this.closeConnection(connection);
+        }
+
+        this.topicConnections.clear();
+    }
+
+    /**
+     * Number of open sockets
+     */
+    getConnectionCount(): number {
+        return this.connections.filter(connection => connection.open).length;
+    }
+
+    /**
+     * Number of topics assigned to the pool, connected or not
+     */
+    getTopicCount(): number {
+        return this.topicConnections.size;
+    }
+
+    /**
+     * Topics currently flowing over an open socket
+     */
+    getActiveTopics(): string[] {
+        return Array.from(this.topicConnections.entries())
+            .filter(([, connection]) => connection.open)
+            .map(([topic]) => topic);
+    }
+
+    private findConnectionWithCapacity(): PooledConnection | undefined {
+        return this.connections.find(connection => connection.topics.size < this.options.maxTopicsPerConnection);
+    }
+
+    private createConnection(): PooledConnection {
+        const connection: PooledConnection = {
+            id: this.nextConnectionId++,
+            ws: null,
+            topics: new Set(),
+            open: false,
+            lastMessageAt: 0,
+            receivedData: false,
+            failedAttempts: 0,
+            pingTimer: null,
+            pongTimer: null,
+            reconnectTimer: null,
+        };
+
+        this.connections.push(connection);
+        return connection;
+    }
+
+    /**
+     * Connect now, or once the exchange's circuit breaker lets connections through again.
+     * While it is half-open, the other connections wait for the one trial's outcome.
+     */
+    private connectWhenAllowed(connection: PooledConnection): void {
+        if (!this.options.circuitBreaker.tryAcquireTrial()) {
+            this.scheduleReconnect(connection);
+        } else {
+            this.connect(connection);
+        }
+    }
+
+    private connect(connection: PooledConnection): void {
+        const ws = new WebSocket(this.options.url);
+        connection.ws = ws;
+        connection.receivedData = false;
+
+        ws.on('open', () => {
+            connection.open = true;
+            connection.lastMessageAt = Date.now();
+            this.logger.log(`✅ Connection #${connection.id} open with ${connection.topics.size} topics`);
+            this.send(connection, this.options.buildSubscribeMessages, Array.from(connection.topics));
+            this.startHeartbeat(connection);
+        });
+
+        ws.on('message', (data: Buffer) => {
+            this.handleRawMessage(connection, data.toString());
+        });
+
+        ws.on('pong', () => {
+            this.clearPongTimer(connection);
+        });
+
+        ws.on('error', (error) => {
+            this.logger.error(`❌ WebSocket error on connection #${connection.id}: ${error.message}`);
+        });
+
+        ws.on('close', (code, reason) => {
+            // Ignore sockets that were replaced or deliberately closed
+            if (connection.ws !== ws) {
+                return;
+            }
+
+            connection.open = false;
+            connection.ws = null;
+            this.stopHeartbeat(connection);
+            this.logger.warn(`⚠️ Connection #${connection.id} closed: ${code} - ${reason}`);
+
+            // A socket that closes before delivering anything counts as a failed connect
+            if (!connection.receivedData) {
+                this.recordFailure(connection);
+            }
+
+            if (this.isClosed || connection.topics.size === 0) {
+                return;
+            }
+
+            this.scheduleReconnect(connection);
+        });
+    }
+
+    private scheduleReconnect(connection: PooledConnection): void {
+        if (connection.reconnectTimer) {
+            return;
+        }
+
+        const delay = Math.max(
+            this.options.reconnectPolicy.getDelay(connection.failedAttempts),
+            this.options.circuitBreaker.getRemainingOpenMs()
+        );
+
+        this.logger.log(`🔄 Reconnecting connection #${connection.id} (${connection.topics.size} topics) in ${Math.round(delay / 1000)}s`);
+
+        connection.reconnectTimer = setTimeout(() => {
+            connection.reconnectTimer = null;
+
+            if (!this.isClosed && !connection.ws && connection.topics.size > 0) {
+                this.connectWhenAllowed(connection);
+            }
+        }, delay);
+    }
+
+    /**
+     * Connect every connection still waiting to reconnect, once a half-open trial has closed the breaker
+     */
+    private reconnectWaiting(): void {
+        for (const connection of this.connections) {
+            if (connection.reconnectTimer && !connection.ws && connection.topics.size > 0) {
+                clearTimeout(connection.reconnectTimer);
+                connection.reconnectTimer = null;
+                this.connectWhenAllowed(connection);
+            }
+        }
+    }
+
+    private recordFailure(connection: PooledConnection): void {
+        connection.failedAttempts++;
+        this.options.circuitBreaker.recordFailure();
+    }
+
+    private handleRawMessage(connection: PooledConnection, text: string): void {
+        const { heartbeat } = this.options;
+
+        // OKX and Bitget answer text pings with a bare "pong"
+        if (text === 'pong') {
+            this.clearPongTimer(connection);
+            return;
+        }
+
+        try {
+            const message = JSON.parse(text);
+
+            if (heartbeat.isPong?.(message)) {
+                this.clearPongTimer(connection);
+                return;
+            }
+
+            const reply = heartbeat.buildPingReply?.(message);
+            if (reply) {
+                connection.ws?.send(JSON.stringify(reply));
+                return;
+            }
+
+            connection.lastMessageAt = Date.now();
+
+            if (!connection.receivedData) {
+                const wasTrial = this.options.circuitBreaker.getState() === 'HALF_OPEN';
+
+                connection.receivedData = true;
+                connection.failedAttempts = 0;
+                this.options.circuitBreaker.recordSuccess();
+
+                if (wasTrial) {
+                    this.reconnectWaiting();
+                }
+            }
+
+            this.options.onFrame?.(text);
+            this.options.onMessage(message);
+        } catch (error) {
+            this.logger.error(`❌ Error handling message on connection #${connection.id}: ${error.message}`);
+        }
+    }
+
+    private startHeartbeat(connection: PooledConnection): void {
+        this.stopHeartbeat(connection);
+
+        connection.pingTimer = setInterval(() => this.sendPing(connection), this.options.pingInterval);
+    }
+
+    private stopHeartbeat(connection: PooledConnection): void {
+        if (connection.pingTimer) {
+            clearInterval(connection.pingTimer);
+            connection.pingTimer = null;
+        }
+
+        this.clearPongTimer(connection);
+    }
+
+    private sendPing(connection: PooledConnection): void {
+        if (!connection.ws || !connection.open) {
+            return;
+        }
+
+        try {
+            const ping = this.options.heartbeat.buildPing?.();
+
+            if (ping === undefined) {
+                connection.ws.ping();
+            } else {
+                connection.ws.send(typeof ping === 'string' ? ping : JSON.stringify(ping));
+            }
+        } catch (error) {
+            this.logger.error(`❌ Failed to ping connection #${connection.id}: ${error.message}`);
+            return;
+        }
+
+        // Keep the first deadline if an earlier ping is still unanswered
+        if (!connection.pongTimer) {
+            connection.pongTimer = setTimeout(() => {
+                connection.pongTimer = null;
+                this.recycle(connection, `no pong within ${this.options.pongTimeout}ms`);
+            }, this.options.pongTimeout);
+        }
+    }
+
+    private clearPongTimer(connection: PooledConnection): void {
+        if (connection.pongTimer) {
+            clearTimeout(connection.pongTimer);
+            connection.pongTimer = null;
+        }
+    }
+
+    private checkIdleConnections(): void {
+        const now = Date.now();
+
+        for (const connection of this.connections) {
+            if (connection.open && now - connection.lastMessageAt > this.options.idleTimeout) {
+                this.recycle(connection, `no messages for ${Math.round((now - connection.lastMessageAt) / 1000)}s`);
+            }
+        }
+    }
+
+    /**
+     * Replace a socket that is open but no longer healthy, resubscribing its topics on a fresh one
+     */
+    private recycle(connection: PooledConnection, reason: string): void {
+        const ws = connection.ws;
+        if (!ws || this.isClosed) {
+            return;
+        }
+
+        this.logger.warn(`♻️ Recycling connection #${connection.id} (${connection.topics.size} topics): ${reason}`);
+        this.options.onRecycle?.(reason);
+
+        this.stopHeartbeat(connection);
+        this.recordFailure(connection);
+        connection.ws = null;
+        connection.open = false;
+
+        try {
+            ws.terminate();
+        } catch (error) {
+            this.logger.error(`❌ Error terminating connection #${connection.id}: ${error.message}`);
+        }
+
+        if (connection.topics.size > 0) {
+            this.scheduleReconnect(connection);
+        }
+    }
+
+    private closeConnection(connection: PooledConnection): void {
+        const ws = connection.ws;
+        connection.ws = null;
+        connection.open = false;
+        this.stopHeartbeat(connection);
+
+        if (connection.reconnectTimer) {
+            clearTimeout(connection.reconnectTimer);
+            connection.reconnectTimer = null;
+        }
+
+        for (const topic of connection.topics) {
+            this.topicConnections.delete(topic);
+        }
+        connection.topics.clear();
+
+        const index = this.connections.indexOf(connection);
+        if (index !== -1) {
+            this.connections.splice(index, 1);
+        }
+
+        if (ws) {
+            try {
+                ws.close();
+            } catch (error) {
+                this.logger.error(`❌ Error closing connection #${connection.id}: ${error.message}`);
+            }
+        }
+    }
+
+    private send(connection: PooledConnection, build: (topics: string[]) => object[], topics: string[]): void {
+        if (!connection.ws || !connection.open || topics.length === 0) {
+            return;
+        }
+
+        for (let i = 0; i < topics.length; i += this.options.maxTopicsPerMessage) {
+            const chunk = topics.slice(i, i + this.options.maxTopicsPerMessage);
+
+            for (const message of build(chunk)) {
+                connection.ws.send(JSON.stringify(message));
+            }
+        }
+    }
+}
\ No newline at end of file
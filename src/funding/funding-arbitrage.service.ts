@@ -0,0 +1,148 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { FundingService } from './funding.service';
+import { ExchangeService } from '@/exchange/exchange.service';
+import { FundingArbitrageOpportunity, FundingRate } from '@/common/types';
+
+@Injectable()
+export class FundingArbitrageService {
+    private readonly logger = new Logger(FundingArbitrageService.name);
+    private readonly thresholdApr: number;
+    private readonly cooldownMinutes: number;
+    private readonly maxRateAgeMs: number;
+    private readonly recentAlerts = new Map<string, number>();
+    private readonly opportunityHistory: FundingArbitrageOpportunity[] = [];
+    private readonly maxHistorySize = 1000;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly fundingService: FundingService,
+        private readonly exchangeService: ExchangeService,
+        @InjectQueue('funding') private readonly fundingQueue: Queue,
+    ) {
+        this.thresholdApr = parseFloat(this.configService.get<string>('FUNDING_ARBITRAGE_THRESHOLD_APR', '20'));
+        this.cooldownMinutes = parseInt(this.configService.get<string>('FUNDING_ALERT_COOLDOWN_MINUTES', '60'));
+        // Rates are refreshed by REST polling at the latest, so allow two poll intervals
+        this.maxRateAgeMs = parseInt(this.configService.get<string>('FUNDING_POLL_INTERVAL_MINUTES', '5')) * 2 * 60 * 1000;
+
+        this.logger.log(`📊 Funding arbitrage detector initialized:`);
+        this.logger.log(`   - Threshold: ${this.thresholdApr}% APR`);
+        this.logger.log(`   - Cooldown: ${this.cooldownMinutes} minutes`);
+    }
+
+    @Cron(CronExpression.EVERY_MINUTE)
+    async detectFundingOpportunities(): Promise<void> {
+        try {
+            const opportunities = this.findFundingOpportunities();
+
+            if (opportunities.length > 0) {
+                this.logger.log(`🔍 Found ${opportunities.length} funding arbitrage opportunities`);
+            }
+
+            for (const opportunity of opportunities) {
+                await this.processFundingOpportunity(opportunity);
+            }
+        } catch (error) {
+            this.logger.error(`❌ Error detecting funding arbitrage opportunities: ${error.message}`);
+        }
+    }
+
+    private findFundingOpportunities(): FundingArbitrageOpportunity[] {
+        const opportunities: FundingArbitrageOpportunity[] = [];
+        const now = Date.now();
+
+        for (const symbol of this.fundingService.getAvailableSymbols()) {
+            // Rates of disabled exchanges and of ones whose circuit breaker is open are left out
+            const fundingRates = this.fundingService.getFundingRatesForSymbol(symbol)
+                .filter(fundingRate =>
+                    now - fundingRate.timestamp <= this.maxRateAgeMs &&
+                    this.exchangeService.isExchangeAvailable(fundingRate.exchange)
+                );
+
+            // Compare all pairs of exchanges
+            for (let i = 0; i < fundingRates.length; i++) {
+                for (let j = i + 1; j < fundingRates.length; j++) {
+                    const opportunity = this.calculateFundingOpportunity(fundingRates[i], fundingRates[j]);
+
+                    if (opportunity.annualizedDifferencePercent >= this.thresholdApr) {
+                        opportunities.push(opportunity);
+                    }
+                }
+            }
+        }
+
+        return opportunities;
+    }
+
+    private calculateFundingOpportunity(rateA: FundingRate, rateB: FundingRate): FundingArbitrageOpportunity {
+        const annualizedA = this.fundingService.getAnnualizedRatePercent(rateA);
+        const annualizedB = this.fundingService.getAnnualizedRatePercent(rateB);
+
+        // Shorts receive funding when the rate is positive, so short the higher rate
+        const [longRate, shortRate] = annualizedA < annualizedB ? [rateA, rateB] : [rateB, rateA];
+        const nextFundingTimes = [longRate.nextFundingTime, shortRate.nextFundingTime].filter(Boolean);
+
+        return {
+            symbol: rateA.symbol,
+            longExchange: longRate.exchange,
+            shortExchange: shortRate.exchange,
+            longFundingRate: longRate.fundingRate,
+            shortFundingRate: shortRate.fundingRate,
+            longIntervalHours: longRate.fundingIntervalHours,
+            shortIntervalHours: shortRate.fundingIntervalHours,
+            annualizedDifferencePercent: Math.abs(annualizedA - annualizedB),
+            nextFundingTime: nextFundingTimes.length > 0 ? Math.min(...nextFundingTimes) : undefined,
+            timestamp: Date.now(),
+        };
+    }
+
+    private async processFundingOpportunity(opportunity: FundingArbitrageOpportunity): Promise<void> {
+        const alertKey = `${opportunity.symbol}-${opportunity.longExchange}-${opportunity.shortExchange}`;
+        const lastAlert = this.recentAlerts.get(alertKey);
+        const cooldownMs = this.cooldownMinutes * 60 * 1000;
+        const now = Date.now();
+
+        if (lastAlert && now - lastAlert < cooldownMs) {
+            return; // Still in cooldown period
+        }
+
+        try {
+            await this.fundingQueue.add('processFundingOpportunity', opportunity, {
+                priority: Math.floor(opportunity.annualizedDifferencePercent),
+                attempts: 3,
+            });
+
+            this.recentAlerts.set(alertKey, now);
+            this.addToHistory(opportunity);
+
+            this.logger.log(`📈 Funding arbitrage opportunity: ${opportunity.symbol} - ${opportunity.annualizedDifferencePercent.toFixed(2)}% APR (long ${opportunity.longExchange}, short ${opportunity.shortExchange})`);
+        } catch (error) {
+            this.logger.error(`❌ Error processing funding arbitrage opportunity: ${error.message}`);
+        }
+    }
+
+    private addToHistory(opportunity: FundingArbitrageOpportunity): void {
+        this.opportunityHistory.push(opportunity);
+
+        // Keep only the last N opportunities
+        if (this.opportunityHistory.length > this.maxHistorySize) {
+            this.opportunityHistory.shift();
+        }
+    }
+
+    /**
+     * Get recent funding arbitrage opportunities
+     */
+    getRecentOpportunities(limit: number = 50): FundingArbitrageOpportunity[] {
+        return [...this.opportunityHistory]
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, limit);
+    }
+
+    getThresholdApr(): number {
+        return this.thresholdApr;
+    }
+}
\ No newline at end of file
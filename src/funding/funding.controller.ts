@@ -0,0 +1,63 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { FundingService } from './funding.service';
+import { FundingArbitrageService } from './funding-arbitrage.service';
+
+@Controller('funding')
+export class FundingController {
+    constructor(
+        private readonly fundingService: FundingService,
+        private readonly fundingArbitrageService: FundingArbitrageService,
+    ) { }
+
+    @Get()
+    getAllFundingRates() {
+        return {
+            fundingRates: this.fundingService.getAllFundingRates(),
+            symbols: this.fundingService.getAvailableSymbols(),
+        };
+    }
+
+    @Get('symbol/:symbol')
+    getFundingRatesForSymbol(@Param('symbol') symbol: string) {
+        return {
+            symbol,
+            fundingRates: this.fundingService.getFundingRatesForSymbol(symbol).map(fundingRate => ({
+                ...fundingRate,
+                annualizedRatePercent: this.fundingService.getAnnualizedRatePercent(fundingRate),
+            })),
+        };
+    }
+
+    @Get('rate/:symbol/:exchange')
+    getFundingRate(
+        @Param('symbol') symbol: string,
+        @Param('exchange') exchange: string,
+    ) {
+        const fundingRate = this.fundingService.getFundingRate(symbol, exchange);
+
+        if (!fundingRate) {
+            return {
+                symbol,
+                exchange,
+                fundingRate: null,
+                message: 'Funding rate not found',
+            };
+        }
+
+        return {
+            symbol,
+            exchange,
+            fundingRate,
+            annualizedRatePercent: this.fundingService.getAnnualizedRatePercent(fundingRate),
+        };
+    }
+
+    @Get('opportunities')
+    getRecentOpportunities(@Query('limit') limit?: string) {
+        const limitNum = limit ? parseInt(limit) : 50;
+        return {
+            thresholdApr: this.fundingArbitrageService.getThresholdApr(),
+            opportunities: this.fundingArbitrageService.getRecentOpportunities(limitNum),
+        };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { FundingService } from './funding.service';
+import { FundingArbitrageService } from './funding-arbitrage.service';
+import { FundingController } from './funding.controller';
+import { FundingProcessor } from './funding.processor';
+import { TelegramModule } from '@/telegram/telegram.module';
+import { ExchangeModule } from '@/exchange/exchange.module';
+
+@Module({
+    imports: [
+        TelegramModule,
+        forwardRef(() => ExchangeModule), // Circular: exchanges feed their funding rates into FundingService
+        BullModule.registerQueue({
+            name: 'funding',
+        }),
+    ],
+    controllers: [FundingController],
+    providers: [FundingService, FundingArbitrageService, FundingProcessor],
+    exports: [FundingService],
+})
+export class FundingModule { }
\ No newline at end of file
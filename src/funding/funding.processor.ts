@@ -0,0 +1,29 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { TelegramService } from '@/telegram/telegram.service';
+import { FundingArbitrageOpportunity } from '@/common/types';
+
+@Processor('funding')
+export class FundingProcessor {
+    private readonly logger = new Logger(FundingProcessor.name);
+
+    constructor(private readonly telegramService: TelegramService) { }
+
+    @Process('processFundingOpportunity')
+    async processFundingOpportunity(job: Job<FundingArbitrageOpportunity>): Promise<void> {
+        const opportunity = job.data;
+
+        try {
+            this.logger.log(`🔄 Processing funding arbitrage opportunity: ${opportunity.symbol} - ${opportunity.annualizedDifferencePercent.toFixed(2)}% APR`);
+
+            // Send Telegram notification
+            await this.telegramService.sendFundingArbitrageAlert(opportunity);
+
+            this.logger.log(`✅ Funding arbitrage opportunity processed successfully: ${opportunity.symbol}`);
+        } catch (error) {
+            this.logger.error(`❌ Error processing funding arbitrage opportunity: ${error.message}`);
+            throw error; // Re-throw to trigger retry mechanism
+        }
+    }
+}
\ No newline at end of file
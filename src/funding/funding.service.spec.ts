@@ -0,0 +1,47 @@
+import { FundingRate } from '@/common/types';
+import { FundingService } from './funding.service';
+
+describe('FundingService', () => {
+    let fundingService: FundingService;
+
+    const fundingRate = (exchange: string, rate: number, fundingIntervalHours?: number): FundingRate => ({
+        symbol: 'BTC/USDT',
+        exchange,
+        fundingRate: rate,
+        fundingIntervalHours,
+        timestamp: Date.now(),
+    });
+
+    beforeEach(() => {
+        fundingService = new FundingService();
+    });
+
+    describe('getAnnualizedRatePercent', () => {
+        it('annualizes by the number of funding periods a year', () => {
+            expect(fundingService.getAnnualizedRatePercent(fundingRate('binance', 0.0001, 8))).toBeCloseTo(10.95);
+            expect(fundingService.getAnnualizedRatePercent(fundingRate('mexc', 0.0001, 4))).toBeCloseTo(21.9);
+            expect(fundingService.getAnnualizedRatePercent(fundingRate('okx', -0.0001, 1))).toBeCloseTo(-87.6);
+        });
+
+        it('assumes eight hour funding when the interval is unknown', () => {
+            expect(fundingService.getAnnualizedRatePercent(fundingRate('binance', 0.0001))).toBeCloseTo(10.95);
+        });
+    });
+
+    it('keeps fields a partial update leaves out', () => {
+        fundingService.updateFundingRate({ ...fundingRate('bybit', 0.0001, 4), nextFundingTime: 1000 });
+        fundingService.updateFundingRate(fundingRate('bybit', 0.0002));
+
+        expect(fundingService.getFundingRate('BTC/USDT', 'bybit')).toMatchObject({ fundingRate: 0.0002, fundingIntervalHours: 4, nextFundingTime: 1000 });
+    });
+
+    it('removes every funding rate of an exchange', () => {
+        fundingService.updateFundingRate(fundingRate('okx', 0.0001, 8));
+        fundingService.updateFundingRate({ ...fundingRate('okx', 0.0001, 8), symbol: 'ETH/USDT' });
+        fundingService.updateFundingRate(fundingRate('binance', 0.0001, 8));
+
+        fundingService.removeFundingRates('okx');
+
+        expect(fundingService.getAllFundingRates().map(rate => rate.exchange)).toEqual(['binance']);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FundingRate } from '@/common/types';
+
+@Injectable()
+export class FundingService {
+    private readonly logger = new Logger(FundingService.name);
+    private readonly fundingStore = new Map<string, FundingRate>();
+    private readonly defaultIntervalHours = 8;
+
+    /**
+     * Update the funding rate for a symbol and exchange. Streamed updates may be
+     * partial (e.g. no interval), so missing fields keep their previous values.
+     */
+    updateFundingRate(update: FundingRate): void {
+        if (typeof update.fundingRate !== 'number' || isNaN(update.fundingRate)) {
+            return;
+        }
+
+        const key = this.getFundingKey(update.symbol, update.exchange);
+        const fundingRate: FundingRate = {
+            fundingIntervalHours: this.defaultIntervalHours,
+            ...this.fundingStore.get(key),
+        } as FundingRate;
+
+        for (const [field, value] of Object.entries(update)) {
+            if (value !== undefined && !(typeof value === 'number' && isNaN(value))) {
+                fundingRate[field] = value;
+            }
+        }
+
+        this.fundingStore.set(key, fundingRate);
+
+        this.logger.debug(`Updated funding rate for ${fundingRate.symbol} on ${fundingRate.exchange}: ${fundingRate.fundingRate}`);
+    }
+
+    /**
+     * Forget every funding rate of an exchange, e.g. once it is disabled
+     */
+    removeFundingRates(exchange: string): void {
+        for (const [key, fundingRate] of this.fundingStore) {
+            if (fundingRate.exchange === exchange) {
+                this.fundingStore.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Get latest funding rate for a specific symbol and exchange
+     */
+    getFundingRate(symbol: string, exchange: string): FundingRate | undefined {
+        return this.fundingStore.get(this.getFundingKey(symbol, exchange));
+    }
+
+    /**
+     * Get funding rates for a specific symbol across all exchanges
+     */
+    getFundingRatesForSymbol(symbol: string): FundingRate[] {
+        return this.getAllFundingRates().filter(fundingRate => fundingRate.symbol === symbol);
+    }
+
+    /**
+     * Get all current funding rates
+     */
+    getAllFundingRates(): FundingRate[] {
+        return Array.from(this.fundingStore.values());
+    }
+
+    /**
+     * Get all symbols with a known funding rate
+     */
+    getAvailableSymbols(): string[] {
+        return Array.from(new Set(this.getAllFundingRates().map(fundingRate => fundingRate.symbol)));
+    }
+
+    /**
+     * Funding rate as an annualized percentage, so venues with different
+     * funding intervals can be compared
+     */
+    getAnnualizedRatePercent(fundingRate: FundingRate): number {
+        const intervalsPerDay = 24 / (fundingRate.fundingIntervalHours || this.defaultIntervalHours);
+        return fundingRate.fundingRate * intervalsPerDay * 365 * 100;
+    }
+
+    private getFundingKey(symbol: string, exchange: string): string {
+        return `${symbol}-${exchange}`;
+    }
+}
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectQueue } from '@nestjs/bull';
@@ -9,13 +9,14 @@ import { TelegramService } from '@/telegram/telegram.service';
 import { NewListing, NewListingAlert, ExchangeSymbol, SupportedExchanges } from '@/common/types';
 
 @Injectable()
-export class ListingsService implements OnModuleInit {
+export class ListingsService implements OnModuleInit, OnModuleDestroy {
     private readonly logger = new Logger(ListingsService.name);
     private readonly knownSymbols = new Map<string, Set<string>>(); // exchange -> symbols
     private readonly newListings: NewListing[] = [];
     private readonly maxListingsHistory = 500;
     private readonly newListingThresholdHours = 24; // Consider symbols new if listed within 24 hours
     private isInitialized = false;
+    private initTimer: NodeJS.Timeout | null = null;
 
     constructor(
         private readonly configService: ConfigService,
@@ -29,13 +30,21 @@ export class ListingsService implements OnModuleInit {
         this.logger.log('🔄 Initializing new listings service...');
 
         // Initialize known symbols for each exchange
-        setTimeout(async () => {
+        this.initTimer = setTimeout(async () => {
+            this.initTimer = null;
             await this.initializeKnownSymbols();
             this.isInitialized = true;
             this.logger.log('✅ New listings service initialized');
         }, 5000); // Wait for exchange services to initialize first
     }
 
+    onModuleDestroy() {
+        if (this.initTimer) {
+            clearTimeout(this.initTimer);
+            this.initTimer = null;
+        }
+    }
+
     @Cron(CronExpression.EVERY_5_MINUTES)
     async checkForNewListings(): Promise<void> {
         if (!this.isInitialized) {
@@ -75,7 +84,15 @@ export class ListingsService implements OnModuleInit {
     private async checkExchangeForNewListings(exchange: string): Promise<void> {
         try {
             const currentSymbols = await this.getExchangeSymbols(exchange);
-            const knownSymbolsSet = this.knownSymbols.get(exchange) || new Set();
+
+            // An exchange enabled at runtime gets a baseline first, not an alert for everything it lists
+            if (!this.knownSymbols.has(exchange)) {
+                this.knownSymbols.set(exchange, new Set(currentSymbols.map(s => s.symbol)));
+                this.logger.log(`📊 Initialized ${currentSymbols.length} symbols for ${exchange}`);
+                return;
+            }
+
+            const knownSymbolsSet = this.knownSymbols.get(exchange)!;
 
             const newSymbols = currentSymbols.filter(symbol =>
                 !knownSymbolsSet.has(symbol.symbol) && this.isRecentListing(symbol)
@@ -134,7 +151,7 @@ export class ListingsService implements OnModuleInit {
             firstPrice: priceData?.price,
             volume24h: priceData?.volume,
             description: `New listing: ${symbol.baseAsset}/${symbol.quoteAsset} on ${symbol.exchange}`,
-            tags: ['new-listing', 'futures'],
+            tags: ['new-listing', symbol.marketType === 'spot' ? 'spot' : 'futures'],
         };
     }
 
@@ -1,5 +1,8 @@
 import { Controller, Get, Param, Query } from '@nestjs/common';
 import { PriceService } from './price.service';
+import { PriceKind } from '@/common/types';
+
+const PRICE_KINDS: PriceKind[] = ['last', 'mark', 'index'];
 
 @Controller('prices')
 export class PriceController {
@@ -36,6 +39,82 @@ export class PriceController {
         };
     }
 
+    @Get('kind/:kind')
+    getPricesOfKind(@Param('kind') kind: PriceKind) {
+        if (!PRICE_KINDS.includes(kind)) {
+            return {
+                kind,
+                prices: [],
+                message: `Unknown price kind, expected one of: ${PRICE_KINDS.join(', ')}`,
+            };
+        }
+
+        return {
+            kind,
+            prices: this.priceService.getAllPrices().map(priceData => ({
+                symbol: priceData.symbol,
+                exchange: priceData.exchange,
+                price: this.priceService.getPriceOfKind(priceData, kind) ?? null,
+                timestamp: priceData.timestamp,
+            })),
+        };
+    }
+
+    @Get('kinds/:symbol')
+    getPriceKindsForSymbol(@Param('symbol') symbol: string) {
+        const prices = this.priceService.getAllPricesForSymbol(symbol);
+        const marketTypes = Array.from(new Set(prices.map(priceData => priceData.marketType)));
+
+        return {
+            symbol,
+            prices: prices.map(priceData => ({
+                exchange: priceData.exchange,
+                marketType: priceData.marketType,
+                last: priceData.price ?? null,
+                mark: priceData.markPrice ?? null,
+                index: priceData.indexPrice ?? null,
+                timestamp: priceData.timestamp,
+            })),
+            // A spread on last price alone, without one on mark, usually means a thin or stale last trade
+            spreads: marketTypes.flatMap(marketType => PRICE_KINDS.map(kind => this.priceService.getSpreadForKind(symbol, kind, marketType))),
+        };
+    }
+
+    @Get('trades/:symbol')
+    getTradeWindowsForSymbol(@Param('symbol') symbol: string) {
+        return {
+            symbol,
+            exchanges: this.priceService.getAllPricesForSymbol(symbol).map(priceData => ({
+                exchange: priceData.exchange,
+                last: priceData.price,
+                windows: this.priceService.getTradeWindows(symbol, priceData.exchange),
+            })),
+        };
+    }
+
+    @Get('trades/:symbol/:exchange')
+    getTradeWindows(
+        @Param('symbol') symbol: string,
+        @Param('exchange') exchange: string,
+    ) {
+        return {
+            symbol,
+            exchange,
+            windows: this.priceService.getTradeWindows(symbol, exchange),
+        };
+    }
+
+    @Get('liquidity/:symbol')
+    getLiquidityForSymbol(@Param('symbol') symbol: string) {
+        return {
+            symbol,
+            exchanges: this.priceService.getAllPricesForSymbol(symbol).map(priceData => ({
+                marketType: priceData.marketType,
+                ...this.priceService.getLiquidity(priceData),
+            })),
+        };
+    }
+
     @Get('price/:symbol/:exchange')
     getPrice(
         @Param('symbol') symbol: string,
@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { PriceService } from './price.service';
 import { PriceController } from './price.controller';
+import { SymbolNormalizerService } from './symbol-normalizer.service';
 
 @Module({
     controllers: [PriceController],
-    providers: [PriceService],
-    exports: [PriceService],
+    providers: [PriceService, SymbolNormalizerService],
+    exports: [PriceService, SymbolNormalizerService],
 })
 export class PriceModule { } 
\ No newline at end of file
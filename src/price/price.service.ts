@@ -1,5 +1,14 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { PriceData } from '@/common/types';
+import { ConfigService } from '@nestjs/config';
+import { LegLiquidity, MarketType, PriceData, PriceKind, PriceKindSpread, Trade, TradeWindow } from '@/common/types';
+import { SymbolNormalizerService } from './symbol-normalizer.service';
+
+interface TradeBucket {
+    second: number;                      // Unix second the trades were received in
+    tradeCount: number;
+    volume: number;
+    quoteVolume: number;
+}
 
 @Injectable()
 export class PriceService {
@@ -7,11 +16,36 @@ export class PriceService {
     private readonly priceStore = new Map<string, PriceData>();
     private readonly priceHistory = new Map<string, PriceData[]>();
     private readonly maxHistorySize = 100;
+    private readonly tradeBuckets = new Map<string, TradeBucket[]>(); // One bucket per second with trades, oldest first
+    private readonly tradeWindowsSeconds: number[];
+    private readonly staleThresholdSeconds: number;
+    private readonly restStaleThresholdSeconds: number;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly symbolNormalizer: SymbolNormalizerService,
+    ) {
+        this.staleThresholdSeconds = parseInt(this.configService.get('STALE_PRICE_THRESHOLD', '60'));
+        // REST fallback prices only refresh every poll, so they go stale sooner than streamed ones
+        this.restStaleThresholdSeconds = parseInt(this.configService.get('REST_STALE_PRICE_THRESHOLD', '15'));
+        this.tradeWindowsSeconds = this.configService.get<string>('TRADE_WINDOWS_SECONDS', '5,30,60')
+            .split(',')
+            .map(seconds => parseInt(seconds))
+            .filter(seconds => seconds > 0)
+            .sort((a, b) => a - b);
+    }
 
     /**
-     * Update price data for a specific symbol and exchange
+     * Update price data for a specific symbol and exchange. Exchange symbols are
+     * stored under their canonical symbol, with prices and sizes scaled to one
+     * canonical unit (1000PEPE/USDT prices are divided by 1000).
      */
-    updatePrice(priceData: PriceData): void {
+    updatePrice(update: PriceData): void {
+        const priceData = this.normalizePriceData(update);
+        if (!priceData) {
+            return; // Denylisted ticker collision
+        }
+
         const key = this.getPriceKey(priceData.symbol, priceData.exchange);
 
         // Store latest price
@@ -23,6 +57,71 @@ export class PriceService {
         this.logger.debug(`Updated price for ${priceData.symbol} on ${priceData.exchange}: $${priceData.price}`);
     }
 
+    /**
+     * Add a trade print to its symbol's rolling windows, normalized like prices.
+     * Trades are kept as per-second volume buckets for the longest window only.
+     */
+    recordTrade(trade: Trade): void {
+        const normalized = this.symbolNormalizer.normalize(trade.exchange, trade.symbol);
+        if (!normalized) {
+            return;
+        }
+
+        const key = this.getPriceKey(normalized.symbol, trade.exchange);
+        const price = trade.price / normalized.multiplier;
+        const size = trade.size * normalized.multiplier;
+        const second = Math.floor(trade.timestamp / 1000);
+
+        if (!this.tradeBuckets.has(key)) {
+            this.tradeBuckets.set(key, []);
+        }
+
+        const buckets = this.tradeBuckets.get(key)!;
+        let bucket = buckets[buckets.length - 1];
+
+        if (!bucket || bucket.second !== second) {
+            bucket = { second, tradeCount: 0, volume: 0, quoteVolume: 0 };
+            buckets.push(bucket);
+        }
+
+        bucket.tradeCount++;
+        bucket.volume += size;
+        bucket.quoteVolume += price * size;
+
+        this.pruneTradeBuckets(buckets, trade.timestamp);
+    }
+
+    /**
+     * Trade count, volume and VWAP of a symbol on an exchange over each
+     * configured window (TRADE_WINDOWS_SECONDS)
+     */
+    getTradeWindows(symbol: string, exchange: string): TradeWindow[] {
+        return this.tradeWindowsSeconds.map(windowSeconds => this.getTradeWindow(symbol, exchange, windowSeconds));
+    }
+
+    /**
+     * Trade count, volume and VWAP over the last windowSeconds, up to the longest configured window
+     */
+    getTradeWindow(symbol: string, exchange: string, windowSeconds: number): TradeWindow {
+        const buckets = this.tradeBuckets.get(this.getPriceKey(symbol, exchange)) || [];
+        const fromSecond = Math.floor(Date.now() / 1000) - windowSeconds;
+        const window: TradeWindow = { windowSeconds, tradeCount: 0, volume: 0, quoteVolume: 0, vwap: null };
+
+        for (const bucket of buckets) {
+            if (bucket.second > fromSecond) {
+                window.tradeCount += bucket.tradeCount;
+                window.volume += bucket.volume;
+                window.quoteVolume += bucket.quoteVolume;
+            }
+        }
+
+        if (window.volume > 0) {
+            window.vwap = window.quoteVolume / window.volume;
+        }
+
+        return window;
+    }
+
     /**
      * Get latest price for a specific symbol and exchange
      */
@@ -46,6 +145,16 @@ export class PriceService {
         return prices;
     }
 
+    /**
+     * Forget the price and history for a symbol no longer monitored on an exchange
+     */
+    removePrice(symbol: string, exchange: string): void {
+        const key = this.getPriceKey(symbol, exchange);
+        this.priceStore.delete(key);
+        this.priceHistory.delete(key);
+        this.tradeBuckets.delete(key);
+    }
+
     /**
      * Get all current prices
      */
@@ -53,6 +162,63 @@ export class PriceService {
         return Array.from(this.priceStore.values());
     }
 
+    /**
+     * Get the last, mark or index price from price data, if the exchange provides it
+     */
+    getPriceOfKind(priceData: PriceData, kind: PriceKind): number | undefined {
+        switch (kind) {
+            case 'mark':
+                return priceData.markPrice;
+            case 'index':
+                return priceData.indexPrice;
+            default:
+                return priceData.price;
+        }
+    }
+
+    /**
+     * Get the spread between the cheapest and most expensive exchange for a symbol,
+     * measured on one price kind across markets of one type. Exchanges without
+     * that kind are left out.
+     */
+    getSpreadForKind(symbol: string, kind: PriceKind, marketType: MarketType = 'perp'): PriceKindSpread {
+        const quotes = this.getAllPricesForSymbol(symbol)
+            .filter(priceData => priceData.marketType === marketType)
+            .map(priceData => ({ exchange: priceData.exchange, price: this.getPriceOfKind(priceData, kind) }))
+            .filter(quote => typeof quote.price === 'number' && quote.price > 0)
+            .sort((a, b) => a.price - b.price);
+
+        if (quotes.length < 2) {
+            return { kind, marketType, exchanges: quotes.length, spreadPercent: null, lowest: null, highest: null };
+        }
+
+        const lowest = quotes[0];
+        const highest = quotes[quotes.length - 1];
+
+        return {
+            kind,
+            marketType,
+            exchanges: quotes.length,
+            spreadPercent: ((highest.price - lowest.price) / lowest.price) * 100,
+            lowest,
+            highest,
+        };
+    }
+
+    /**
+     * Open interest and 24h volume of a price's market in quote terms (USDT
+     * pairs, so roughly USD). Null where the venue doesn't report the figure.
+     */
+    getLiquidity(priceData: PriceData): LegLiquidity {
+        const valuationPrice = priceData.markPrice || priceData.price;
+
+        return {
+            exchange: priceData.exchange,
+            openInterestUsd: priceData.openInterest >= 0 && valuationPrice > 0 ? priceData.openInterest * valuationPrice : null,
+            volume24hUsd: priceData.quoteVolume >= 0 ? priceData.quoteVolume : null,
+        };
+    }
+
     /**
      * Get price history for a specific symbol and exchange
      */
@@ -88,16 +254,20 @@ export class PriceService {
     }
 
     /**
-     * Check if price data is stale (older than 60 seconds)
+     * Check if price data is stale. Prices polled over REST use a stricter threshold
+     * than streamed ones. The age runs from the price's own event time where the
+     * venue sends one, since mark or book updates keep refreshing the timestamp.
      */
     isPriceStale(symbol: string, exchange: string): boolean {
         const priceData = this.getPrice(symbol, exchange);
         if (!priceData) return true;
 
         const now = Date.now();
-        const ageInSeconds = (now - priceData.timestamp) / 1000;
+        const ageInSeconds = (now - (priceData.priceEventTime ?? priceData.timestamp)) / 1000;
 
-        return ageInSeconds > 60;
+        const threshold = priceData.source === 'rest' ? this.restStaleThresholdSeconds : this.staleThresholdSeconds;
+
+        return ageInSeconds > threshold;
     }
 
     /**
@@ -111,11 +281,51 @@ export class PriceService {
             if (now - priceData.timestamp > staleThreshold) {
                 this.priceStore.delete(key);
                 this.priceHistory.delete(key);
+                this.tradeBuckets.delete(key);
                 this.logger.warn(`Removed stale price data for ${priceData.symbol} on ${priceData.exchange}`);
             }
         }
     }
 
+    private normalizePriceData(priceData: PriceData): PriceData | null {
+        const normalized = this.symbolNormalizer.normalize(priceData.exchange, priceData.symbol);
+        if (!normalized) {
+            return null;
+        }
+
+        if (normalized.multiplier === 1) {
+            return { ...priceData, symbol: normalized.symbol };
+        }
+
+        const scalePrice = (value?: number) => value === undefined ? undefined : value / normalized.multiplier;
+        const scaleSize = (value?: number) => value === undefined ? undefined : value * normalized.multiplier;
+
+        return {
+            ...priceData,
+            symbol: normalized.symbol,
+            price: priceData.price / normalized.multiplier,
+            markPrice: scalePrice(priceData.markPrice),
+            indexPrice: scalePrice(priceData.indexPrice),
+            high: scalePrice(priceData.high),
+            low: scalePrice(priceData.low),
+            bestBid: scalePrice(priceData.bestBid),
+            bestAsk: scalePrice(priceData.bestAsk),
+            volume: scaleSize(priceData.volume),
+            openInterest: scaleSize(priceData.openInterest),
+            bestBidSize: scaleSize(priceData.bestBidSize),
+            bestAskSize: scaleSize(priceData.bestAskSize),
+        };
+    }
+
+    private pruneTradeBuckets(buckets: TradeBucket[], now: number): void {
+        const maxWindowSeconds = this.tradeWindowsSeconds[this.tradeWindowsSeconds.length - 1] || 60;
+        const oldestSecond = Math.floor(now / 1000) - maxWindowSeconds;
+
+        while (buckets.length > 0 && buckets[0].second <= oldestSecond) {
+            buckets.shift();
+        }
+    }
+
     private getPriceKey(symbol: string, exchange: string): string {
         return `${symbol}-${exchange}`;
     }
@@ -0,0 +1,68 @@
+import { ConfigService } from '@nestjs/config';
+import { InstrumentSpec } from '@/common/types';
+import { SymbolNormalizerService } from './symbol-normalizer.service';
+
+describe('SymbolNormalizerService', () => {
+    const normalizer = new SymbolNormalizerService(new ConfigService({}));
+
+    it('strips numeric multiplier prefixes', () => {
+        expect(normalizer.normalize('binance', '1000PEPE/USDT')).toEqual({ symbol: 'PEPE/USDT', exchangeSymbol: '1000PEPE/USDT', exchange: 'binance', multiplier: 1000 });
+        expect(normalizer.normalize('mexc', '1MBABYDOGE/USDT')).toMatchObject({ symbol: 'BABYDOGE/USDT', multiplier: 1000000 });
+        expect(normalizer.normalize('gateio', 'PEPE/USDT')).toMatchObject({ symbol: 'PEPE/USDT', multiplier: 1 });
+    });
+
+    it('leaves bases that only start with digits alone', () => {
+        expect(normalizer.normalize('binance', '1INCH/USDT')).toMatchObject({ symbol: '1INCH/USDT', multiplier: 1 });
+    });
+
+    it('applies the built-in aliases on their exchange only', () => {
+        expect(normalizer.normalize('bybit', 'SHIB1000/USDT')).toMatchObject({ symbol: 'SHIB/USDT', multiplier: 1000 });
+        expect(normalizer.normalize('gateio', 'SHIB1000/USDT')).toMatchObject({ symbol: 'SHIB1000/USDT', multiplier: 1 });
+    });
+
+    it('drops denylisted assets, including prefixed listings of them', () => {
+        expect(normalizer.normalize('binance', 'LUNA/USDT')).toBeNull();
+        expect(normalizer.normalize('binance', '1000LUNA/USDT')).toBeNull();
+    });
+
+    it('reads aliases and denylist entries from config', () => {
+        const configured = new SymbolNormalizerService(new ConfigService({
+            SYMBOL_ALIASES: 'okx:RNDR=RENDER, *:XBT=btc*0.5, not-an-alias',
+            SYMBOL_DENYLIST: 'gateio:neiro',
+        }));
+
+        expect(configured.normalize('okx', 'RNDR/USDT')).toMatchObject({ symbol: 'RENDER/USDT', multiplier: 1 });
+        expect(configured.normalize('bybit', 'RNDR/USDT')).toMatchObject({ symbol: 'RNDR/USDT' });
+        expect(configured.normalize('bitget', 'XBT/USDT')).toMatchObject({ symbol: 'BTC/USDT', multiplier: 0.5 });
+        expect(configured.normalize('gateio', 'NEIRO/USDT')).toBeNull();
+        expect(configured.normalize('binance', 'NEIRO/USDT')).toMatchObject({ symbol: 'NEIRO/USDT' });
+        // Defaults still apply alongside the configured entries
+        expect(configured.normalize('bybit', 'SHIB1000/USDT')).toMatchObject({ symbol: 'SHIB/USDT' });
+    });
+
+    it('maps dated contracts onto their underlying', () => {
+        expect(normalizer.getUnderlying('BTC/USDT-250926')).toBe('BTC/USDT');
+        expect(normalizer.getUnderlying('BTC/USDT')).toBe('BTC/USDT');
+    });
+
+    it('expresses specs in canonical units', () => {
+        const spec: InstrumentSpec = {
+            contractSize: 1,
+            tickSize: 0.0000001,
+            lotStep: 1,
+            minQty: 100,
+            minNotional: 5,
+            maxLeverage: 50,
+            marginAsset: 'USDT',
+            launchTime: null,
+            expiryTime: null,
+        };
+
+        expect(normalizer.normalizeSpec(spec, 1)).toBe(spec);
+
+        const normalized = normalizer.normalizeSpec(spec, 1000);
+        expect(normalized).toMatchObject({ contractSize: 1000, lotStep: 1000, minQty: 100000, minNotional: 5, maxLeverage: 50 });
+        expect(normalized.tickSize).toBeCloseTo(0.0000000001, 15);
+        expect(normalizer.normalizeSpec({ ...spec, tickSize: null, lotStep: null }, 1000)).toMatchObject({ tickSize: null, lotStep: null });
+    });
+});
\ No newline at end of file
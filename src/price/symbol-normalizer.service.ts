@@ -0,0 +1,132 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InstrumentSpec, NormalizedSymbol, SymbolAlias } from '@/common/types';
+import { DEFAULT_SYMBOL_ALIASES, DEFAULT_SYMBOL_DENYLIST, SYMBOL_MULTIPLIER_PREFIXES } from '@/common/constants';
+
+/**
+ * Maps exchange symbols onto canonical BASE/QUOTE symbols so the same asset
+ * matches across venues, e.g. Binance 1000PEPE/USDT and Gate.io PEPE/USDT
+ * both become PEPE/USDT with multipliers of 1000 and 1.
+ */
+@Injectable()
+export class SymbolNormalizerService {
+    private readonly logger = new Logger(SymbolNormalizerService.name);
+    private readonly aliases: SymbolAlias[];
+    private readonly denylist: Set<string>;
+    private readonly cache = new Map<string, NormalizedSymbol | null>();
+
+    constructor(private readonly configService: ConfigService) {
+        this.aliases = [
+            ...DEFAULT_SYMBOL_ALIASES,
+            ...this.parseAliases(this.configService.get<string>('SYMBOL_ALIASES', '')),
+        ];
+        this.denylist = new Set([
+            ...DEFAULT_SYMBOL_DENYLIST,
+            ...this.parseList(this.configService.get<string>('SYMBOL_DENYLIST', '')),
+        ].map(entry => entry.toUpperCase()));
+    }
+
+    /**
+     * Canonical form of an exchange symbol, or null when it is denylisted
+     */
+    normalize(exchange: string, exchangeSymbol: string): NormalizedSymbol | null {
+        const cacheKey = `${exchange}:${exchangeSymbol}`;
+        if (this.cache.has(cacheKey)) {
+            return this.cache.get(cacheKey)!;
+        }
+
+        const [base, quote] = exchangeSymbol.split('/');
+        const { asset, multiplier } = this.resolveBase(exchange, base);
+
+        const normalized = this.isDenylisted(exchange, asset)
+            ? null
+            : { symbol: `${asset}/${quote}`, exchangeSymbol, exchange, multiplier };
+
+        this.cache.set(cacheKey, normalized);
+        return normalized;
+    }
+
+    /**
+     * Perpetual a dated contract is priced against, e.g. BTC/USDT for
+     * BTC/USDT-250926; any other symbol is returned unchanged
+     */
+    getUnderlying(symbol: string): string {
+        return symbol.replace(/-\d{6}$/, '');
+    }
+
+    /**
+     * Express an instrument spec in canonical units, e.g. a 1000PEPE tick of
+     * 0.0000001 becomes a PEPE tick of 0.0000000001
+     */
+    normalizeSpec(spec: InstrumentSpec, multiplier: number): InstrumentSpec {
+        if (multiplier === 1) {
+            return spec;
+        }
+
+        const scaleSize = (value: number | null) => value === null ? null : value * multiplier;
+
+        return {
+            ...spec,
+            contractSize: spec.contractSize * multiplier,
+            tickSize: spec.tickSize === null ? null : spec.tickSize / multiplier,
+            lotStep: scaleSize(spec.lotStep),
+            minQty: scaleSize(spec.minQty),
+        };
+    }
+
+    /**
+     * Canonical base asset and multiplier: an explicit alias wins over the
+     * numeric prefix convention
+     */
+    private resolveBase(exchange: string, base: string): { asset: string; multiplier: number } {
+        const alias = this.aliases.find(rule =>
+            (rule.exchange === exchange || rule.exchange === '*') && rule.from === base
+        );
+        if (alias) {
+            return { asset: alias.to, multiplier: alias.multiplier };
+        }
+
+        for (const [prefix, multiplier] of Object.entries(SYMBOL_MULTIPLIER_PREFIXES)) {
+            // Require letters after the prefix so bases like 1INCH are left alone
+            if (base.startsWith(prefix) && /^[A-Z]/.test(base.slice(prefix.length))) {
+                return { asset: base.slice(prefix.length), multiplier };
+            }
+        }
+
+        return { asset: base, multiplier: 1 };
+    }
+
+    private isDenylisted(exchange: string, asset: string): boolean {
+        return this.denylist.has(asset) || this.denylist.has(`${exchange.toUpperCase()}:${asset}`);
+    }
+
+    /**
+     * Parse 'exchange:FROM=TO' entries with an optional '*multiplier', e.g.
+     * 'bybit:SHIB1000=SHIB*1000,*:RNDR=RENDER'
+     */
+    private parseAliases(value: string): SymbolAlias[] {
+        const aliases: SymbolAlias[] = [];
+
+        for (const entry of this.parseList(value)) {
+            const match = entry.match(/^([\w*]+):(\w+)=(\w+)(?:\*(\d+(?:\.\d+)?))?$/);
+            if (!match) {
+                this.logger.warn(`⚠️ Ignoring invalid symbol alias: ${entry}`);
+                continue;
+            }
+
+            const [, exchange, from, to, multiplier] = match;
+            aliases.push({
+                exchange: exchange.toLowerCase(),
+                from: from.toUpperCase(),
+                to: to.toUpperCase(),
+                multiplier: multiplier ? parseFloat(multiplier) : 1,
+            });
+        }
+
+        return aliases;
+    }
+
+    private parseList(value: string): string[] {
+        return value.split(',').map(entry => entry.trim()).filter(entry => entry.length > 0);
+    }
+}
\ No newline at end of file
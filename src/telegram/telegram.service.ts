@@ -1,7 +1,7 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as TelegramBot from 'node-telegram-bot-api';
-import { ArbitrageOpportunity, TelegramMessage, NewListingAlert, ArbitrageOpportunityClosed } from '@/common/types';
+import { ArbitrageOpportunity, TelegramMessage, NewListingAlert, ArbitrageOpportunityClosed, FundingArbitrageOpportunity, BasisOpportunity, CalendarSpreadOpportunity, PairRefreshResult, LegLiquidity } from '@/common/types';
 
 @Injectable()
 export class TelegramService implements OnModuleInit {
@@ -16,7 +16,10 @@ export class TelegramService implements OnModuleInit {
         this.isEnabled = !!(botToken && this.chatId);
 
         if (this.isEnabled) {
-            this.bot = new TelegramBot(botToken, { polling: false });
+            this.bot = new TelegramBot(botToken, {
+                polling: false,
+                baseApiUrl: this.configService.get<string>('TELEGRAM_API_URL', 'https://api.telegram.org'),
+            });
         } else {
             this.logger.warn('⚠️ Telegram bot not configured - notifications will be logged only');
         }
@@ -76,6 +79,50 @@ export class TelegramService implements OnModuleInit {
         }
     }
 
+    async sendFundingArbitrageAlert(opportunity: FundingArbitrageOpportunity): Promise<void> {
+        const message = this.formatFundingArbitrageMessage(opportunity);
+
+        try {
+            await this.sendMessage(message);
+            this.logger.log(`📱 Funding arbitrage alert sent: ${opportunity.symbol} - ${opportunity.annualizedDifferencePercent.toFixed(2)}% APR`);
+        } catch (error) {
+            this.logger.error(`❌ Failed to send funding arbitrage alert: ${error.message}`);
+        }
+    }
+
+    async sendBasisAlert(opportunity: BasisOpportunity): Promise<void> {
+        const message = this.formatBasisMessage(opportunity);
+
+        try {
+            await this.sendMessage(message);
+            this.logger.log(`📱 Basis alert sent: ${opportunity.symbol} - ${opportunity.basisPercent.toFixed(3)}%`);
+        } catch (error) {
+            this.logger.error(`❌ Failed to send basis alert: ${error.message}`);
+        }
+    }
+
+    async sendCalendarSpreadAlert(opportunity: CalendarSpreadOpportunity): Promise<void> {
+        const message = this.formatCalendarSpreadMessage(opportunity);
+
+        try {
+            await this.sendMessage(message);
+            this.logger.log(`📱 Calendar spread alert sent: ${opportunity.symbol} - ${opportunity.annualizedBasisPercent.toFixed(2)}% APR`);
+        } catch (error) {
+            this.logger.error(`❌ Failed to send calendar spread alert: ${error.message}`);
+        }
+    }
+
+    async sendPairRefreshSummary(result: PairRefreshResult, closedOpportunities: number): Promise<void> {
+        const message = this.formatPairRefreshMessage(result, closedOpportunities);
+
+        try {
+            await this.sendMessage(message);
+            this.logger.log(`📱 Pair refresh summary sent: +${result.added.length} / -${result.removed.length}`);
+        } catch (error) {
+            this.logger.error(`❌ Failed to send pair refresh summary: ${error.message}`);
+        }
+    }
+
     async sendSystemAlert(message: string): Promise<void> {
         const formattedMessage = `🔔 System Alert\n\n${message}`;
 
@@ -128,6 +175,12 @@ export class TelegramService implements OnModuleInit {
         const sellExchange = opportunity.action === 'BUY_A_SELL_B' ? opportunity.exchangeB : opportunity.exchangeA;
         const buyPrice = opportunity.action === 'BUY_A_SELL_B' ? opportunity.priceA : opportunity.priceB;
         const sellPrice = opportunity.action === 'BUY_A_SELL_B' ? opportunity.priceB : opportunity.priceA;
+        const priceSourceText = opportunity.priceSource === 'book'
+            ? 'Order book (buy at ask, sell at bid)'
+            : opportunity.priceSource === 'vwap' ? 'Trade VWAP' : 'Last trade';
+        const liquidityText = opportunity.lowLiquidityLegs?.length
+            ? `\n⚠️ <b>Low Liquidity:</b>\n${this.formatLegLiquidity(opportunity.lowLiquidityLegs)}\n`
+            : '';
 
         return `
 🚨 <b>ARBITRAGE OPPORTUNITY</b> 🚨
@@ -141,7 +194,8 @@ export class TelegramService implements OnModuleInit {
    🔴 SELL on ${sellExchange.toUpperCase()}: $${sellPrice.toFixed(4)}
 
 💸 <b>Price Difference:</b> $${opportunity.priceDifference.toFixed(4)}
-
+📒 <b>Prices:</b> ${priceSourceText}
+${liquidityText}
 ⏰ <b>Time:</b> ${new Date(opportunity.timestamp).toLocaleString()}
 
 <i>Act quickly! Arbitrage opportunities are time-sensitive.</i>
@@ -199,11 +253,114 @@ export class TelegramService implements OnModuleInit {
                 return 'Maximum duration exceeded';
             case 'MANUAL':
                 return 'Manually closed';
+            case 'DELISTED':
+                return 'Pair delisted from an exchange';
+            case 'EXCHANGE_DISABLED':
+                return 'Exchange disabled';
+            case 'LOW_LIQUIDITY':
+                return 'Leg liquidity fell below the minimums';
             default:
                 return 'Unknown reason';
         }
     }
 
+    private formatLegLiquidity(legs: LegLiquidity[]): string {
+        const usd = (value: number | null) => value === null ? 'n/a' : `$${Math.round(value).toLocaleString('en-US')}`;
+
+        return legs
+            .map(leg => `   ${leg.exchange.toUpperCase()}: OI ${usd(leg.openInterestUsd)}, 24h volume ${usd(leg.volume24hUsd)}`)
+            .join('\n');
+    }
+
+    private formatFundingArbitrageMessage(opportunity: FundingArbitrageOpportunity): string {
+        const nextFundingText = opportunity.nextFundingTime
+            ? new Date(opportunity.nextFundingTime).toLocaleString()
+            : 'Unknown';
+
+        return `
+💸 <b>FUNDING RATE ARBITRAGE</b> 💸
+
+📊 <b>Pair:</b> ${opportunity.symbol}
+📈 <b>Annualized Difference:</b> ${opportunity.annualizedDifferencePercent.toFixed(2)}% APR
+
+🔄 <b>Action:</b>
+   🟢 LONG on ${opportunity.longExchange.toUpperCase()}: ${(opportunity.longFundingRate * 100).toFixed(4)}% / ${opportunity.longIntervalHours}h
+   🔴 SHORT on ${opportunity.shortExchange.toUpperCase()}: ${(opportunity.shortFundingRate * 100).toFixed(4)}% / ${opportunity.shortIntervalHours}h
+
+⏳ <b>Next Funding:</b> ${nextFundingText}
+⏰ <b>Time:</b> ${new Date(opportunity.timestamp).toLocaleString()}
+
+<i>Delta-neutral position collects the funding difference.</i>
+    `.trim();
+    }
+
+    private formatBasisMessage(opportunity: BasisOpportunity): string {
+        const longSpot = opportunity.action === 'LONG_SPOT_SHORT_PERP';
+        const carryText = opportunity.annualizedCarryPercent !== null
+            ? `${opportunity.annualizedCarryPercent.toFixed(2)}% APR${opportunity.fundingIntervalHours ? ` (funding every ${opportunity.fundingIntervalHours}h)` : ''}`
+            : 'Unknown';
+
+        return `
+📐 <b>SPOT-PERP BASIS</b> 📐
+
+📊 <b>Pair:</b> ${opportunity.symbol}
+📈 <b>Basis:</b> ${opportunity.basisPercent.toFixed(3)}% (perp ${opportunity.basisPercent >= 0 ? 'premium' : 'discount'})
+
+🔄 <b>Action:</b>
+   ${longSpot ? '🟢 BUY' : '🔴 SELL'} SPOT on ${opportunity.spotExchange.toUpperCase()}: $${opportunity.spotPrice.toFixed(4)}
+   ${longSpot ? '🔴 SHORT' : '🟢 LONG'} PERP on ${opportunity.perpExchange.toUpperCase()}: $${opportunity.perpPrice.toFixed(4)}
+
+💸 <b>Annualized Carry:</b> ${carryText}
+⏰ <b>Time:</b> ${new Date(opportunity.timestamp).toLocaleString()}
+
+<i>Carry is the funding the perp leg collects (negative: pays) while the basis converges.</i>
+    `.trim();
+    }
+
+    private formatCalendarSpreadMessage(opportunity: CalendarSpreadOpportunity): string {
+        const sellDated = opportunity.action === 'SELL_DATED_BUY_PERP';
+
+        return `
+📅 <b>CALENDAR SPREAD</b> 📅
+
+📊 <b>Contract:</b> ${opportunity.symbol} (expires ${new Date(opportunity.expiryTime).toISOString().slice(0, 10)}, ${opportunity.daysToExpiry.toFixed(1)} days)
+📈 <b>Basis:</b> ${opportunity.basisPercent.toFixed(3)}% (${opportunity.annualizedBasisPercent.toFixed(2)}% APR)
+📏 <b>Norm:</b> ${opportunity.normAnnualizedBasisPercent.toFixed(2)}% APR ± ${opportunity.normStdDev.toFixed(2)} (deviation ${opportunity.deviation >= 0 ? '+' : ''}${opportunity.deviation.toFixed(2)} points)
+
+🔄 <b>Action${opportunity.sameExchange ? ' (same exchange)' : ''}:</b>
+   ${sellDated ? '🔴 SELL' : '🟢 BUY'} DATED on ${opportunity.datedExchange.toUpperCase()}: $${opportunity.datedPrice.toFixed(4)}
+   ${sellDated ? '🟢 BUY' : '🔴 SELL'} PERP on ${opportunity.perpExchange.toUpperCase()}: $${opportunity.perpPrice.toFixed(4)}
+
+⏰ <b>Time:</b> ${new Date(opportunity.timestamp).toLocaleString()}
+
+<i>The spread is expected to revert to its norm; it converges to zero at delivery.</i>
+    `.trim();
+    }
+
+    private formatPairRefreshMessage(result: PairRefreshResult, closedOpportunities: number): string {
+        const listPairs = (pairs: string[]) => pairs.length > 0 ? pairs.join(', ') : 'None';
+
+        // Per-exchange subscription changes, including pairs one venue delisted while others still list them
+        const exchangeChanges = Object.entries(result.exchanges)
+            .filter(([, diff]) => diff.added.length > 0 || diff.removed.length > 0)
+            .map(([exchange, diff]) => `   ${exchange.toUpperCase()}: +${diff.added.length} / -${diff.removed.length}` +
+                (diff.removed.length > 0 ? ` (removed ${diff.removed.join(', ')})` : ''))
+            .join('\n');
+
+        return `
+🔄 <b>TRADING PAIRS REFRESHED</b> 🔄
+
+🟢 <b>Added (${result.added.length}):</b> ${listPairs(result.added)}
+🔴 <b>Removed (${result.removed.length}):</b> ${listPairs(result.removed)}
+
+📡 <b>Subscriptions:</b>
+${exchangeChanges || '   No changes'}
+
+🔒 <b>Opportunities closed:</b> ${closedOpportunities}
+⏰ <b>Time:</b> ${new Date().toLocaleString()}
+    `.trim();
+    }
+
     private formatNewListingMessage(alert: NewListingAlert): string {
         const listing = alert.listing;
         const arbitrageText = alert.potentialArbitrage ?
@@ -0,0 +1,331 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getQueueToken } from '@nestjs/bull';
+import * as request from 'supertest';
+import { AppModule } from '@/app.module';
+import { PriceService } from '@/price/price.service';
+import { ArbitrageService } from '@/arbitrage/arbitrage.service';
+import { BasisService } from '@/basis/basis.service';
+import { CalendarSpreadService } from '@/calendar/calendar-spread.service';
+import { FundingService } from '@/funding/funding.service';
+import { ArbitrageConfig } from '@/common/types';
+import { MockExchangeServer } from './support/mock-exchange.server';
+import { InMemoryQueue } from './support/in-memory-queue';
+import { DELIVERY_TIME, dated } from './support/mock-venues';
+
+const PERPS = ['binance', 'bybit', 'gateio', 'mexc', 'okx', 'bitget'];
+const SPOTS = ['lbank', 'binance_spot', 'bybit_spot', 'gateio_spot'];
+const EXCHANGES = [...PERPS, ...SPOTS];
+const DELIVERIES = ['binance_delivery', 'bybit_delivery', 'gateio_delivery'];
+const OPENING_PRICES: Record<string, number> = { 'BTC/USDT': 50000, 'ETH/USDT': 3000 };
+
+async function waitFor(condition: () => boolean, timeoutMs = 20000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error(`Condition not met within ${timeoutMs}ms`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+}
+
+describe('Arbitrage alerts (e2e)', () => {
+    const server = new MockExchangeServer(OPENING_PRICES);
+    const arbitrageQueue = new InMemoryQueue('arbitrage');
+    const basisQueue = new InMemoryQueue('basis');
+    const calendarQueue = new InMemoryQueue('calendar');
+    const queues = [arbitrageQueue, basisQueue, calendarQueue, new InMemoryQueue('funding'), new InMemoryQueue('listings')];
+    let app: INestApplication;
+    let startupConfig: ArbitrageConfig;
+    let startupMessages: string[];
+
+    // Every listed market back at its opening price and streaming again
+    const atOpeningPrices = () => {
+        const priceService = app.get(PriceService);
+
+        return Object.entries(OPENING_PRICES).every(([symbol, price]) => {
+            const prices = [...priceService.getAllPricesForSymbol(symbol), ...priceService.getAllPricesForSymbol(dated(symbol))];
+            return prices.length === EXCHANGES.length + DELIVERIES.length &&
+                prices.every(priceData => priceData.price === price && priceData.source === 'ws');
+        });
+    };
+
+    beforeAll(async () => {
+        await server.start();
+
+        Object.assign(process.env, server.getEnv(), {
+            TELEGRAM_BOT_TOKEN: 'test-token',
+            TELEGRAM_CHAT_ID: '42',
+            ENABLED_EXCHANGES: '',
+            CCXT_EXCHANGES: '',
+            ORDER_BOOK_STREAMS: 'false',
+            PAIR_REFRESH_CRON: '',
+            FRAME_RECORDING_ENABLED: 'false',
+            REPLAY_PATH: '',
+            MIN_OPPORTUNITY_DURATION_FOR_CLOSE_ALERT: '0',
+            CALENDAR_MIN_SAMPLES: '3',
+            REST_FALLBACK_INTERVAL_MS: '1000',
+            WEBSOCKET_RECONNECT_INTERVAL: '500',
+            WEBSOCKET_RECONNECT_MAX_DELAY: '2000',
+            CIRCUIT_BREAKER_FAILURE_THRESHOLD: '100',
+            OPEN_INTEREST_POLL_INTERVAL_MS: '1000',
+        });
+
+        // Queues run in memory so no Redis is needed; processors still receive every job
+        let testingModule = Test.createTestingModule({ imports: [AppModule] });
+        for (const queue of queues) {
+            testingModule = testingModule.overrideProvider(getQueueToken(queue.name)).useValue(queue);
+        }
+
+        app = (await testingModule.compile()).createNestApplication();
+        await app.init();
+
+        await waitFor(() => server.getTelegramMessages().some(text => text.includes('Futures Arbitrage Bot Started')));
+        startupMessages = server.getTelegramMessages();
+        startupConfig = { ...app.get(ArbitrageService).getArbitrageStats().config };
+    });
+
+    beforeEach(async () => {
+        const arbitrageService = app.get(ArbitrageService);
+
+        // Each test starts from the opening prices and config with nothing queued, sent or in cooldown
+        server.reset();
+        arbitrageService.updateConfig(startupConfig);
+        await waitFor(atOpeningPrices);
+
+        // Opportunities left open by an earlier test close before their alerts are dropped
+        await arbitrageService.detectArbitrageOpportunities();
+        arbitrageService.clearRecentAlerts();
+        app.get(BasisService).clearRecentAlerts();
+        app.get(CalendarSpreadService).clearRecentAlerts();
+
+        for (const queue of queues) {
+            queue.clear();
+        }
+        server.clearTelegramRequests();
+    });
+
+    afterAll(async () => {
+        await app?.close();
+        await server.stop();
+    });
+
+    it('discovers pairs and streams prices from every mock venue', async () => {
+        const priceService = app.get(PriceService);
+
+        await waitFor(() => priceService.getAllPricesForSymbol('BTC/USDT').length === EXCHANGES.length);
+
+        const prices = priceService.getAllPricesForSymbol('BTC/USDT');
+        expect(prices.map(price => price.exchange).sort()).toEqual([...EXCHANGES].sort());
+        expect(prices.every(price => price.price === 50000 && price.source === 'ws')).toBe(true);
+        expect(startupMessages).toContainEqual(expect.stringContaining('Futures Arbitrage Bot Started'));
+    });
+
+    it('queues and sends an alert for every leg of a scripted spread and closes them once prices converge', async () => {
+        await server.playPath([{ afterMs: 0, exchange: 'binance', symbol: 'BTC/USDT', price: 49000 }]);
+
+        // Detection runs on a 10 second cron; only perp legs are compared
+        await waitFor(() => arbitrageQueue.getJobs('processOpportunity').length >= PERPS.length - 1);
+
+        const jobs = arbitrageQueue.getJobs('processOpportunity');
+        expect(jobs).toHaveLength(PERPS.length - 1);
+
+        for (const { data } of jobs) {
+            const buyExchange = data.action === 'BUY_A_SELL_B' ? data.exchangeA : data.exchangeB;
+            expect(data.symbol).toBe('BTC/USDT');
+            expect(buyExchange).toBe('binance');
+            expect(data.priceDifference).toBe(1000);
+        }
+
+        const counterparties = jobs.map(({ data }) => data.exchangeA === 'binance' ? data.exchangeB : data.exchangeA);
+        expect(counterparties.sort()).toEqual(PERPS.filter(exchange => exchange !== 'binance').sort());
+
+        // Jobs are queued before their Telegram messages are sent
+        const opportunityAlerts = () => server.telegramRequests.filter(request =>
+            request.method === 'sendMessage' && request.payload.text.includes('ARBITRAGE OPPORTUNITY')
+        );
+        await waitFor(() => opportunityAlerts().length >= PERPS.length - 1);
+
+        const alerts = opportunityAlerts();
+        expect(alerts).toHaveLength(PERPS.length - 1);
+        expect(alerts[0].payload).toMatchObject({ chat_id: '42', parse_mode: 'HTML' });
+        expect(alerts[0].payload.text).toContain('BUY on BINANCE: $49000.0000');
+        expect(alerts[0].payload.text).toContain('Pair:</b> BTC/USDT');
+
+        server.setPrice('binance', 'BTC/USDT', 50000);
+
+        await waitFor(() => arbitrageQueue.getJobs('processClosedOpportunity').length >= PERPS.length - 1);
+
+        const closedJobs = arbitrageQueue.getJobs('processClosedOpportunity');
+        expect(closedJobs).toHaveLength(PERPS.length - 1);
+        expect(closedJobs.every(({ data }) => data.symbol === 'BTC/USDT' && data.closeReason === 'BELOW_THRESHOLD')).toBe(true);
+
+        const closedAlerts = () => server.getTelegramMessages().filter(text => text.includes('ARBITRAGE OPPORTUNITY CLOSED'));
+        await waitFor(() => closedAlerts().length >= PERPS.length - 1);
+        expect(closedAlerts()).toHaveLength(PERPS.length - 1);
+        expect(arbitrageQueue.jobs.every(job => !job.failedReason)).toBe(true);
+    });
+
+    it('queues and sends a basis alert for every spot leg against a moved perp', async () => {
+        server.setPrice('binance', 'BTC/USDT', 49000);
+
+        await waitFor(() => basisQueue.getJobs('processBasisOpportunity').length >= SPOTS.length);
+
+        const jobs = basisQueue.getJobs('processBasisOpportunity');
+        expect(jobs).toHaveLength(SPOTS.length);
+        expect(jobs.map(({ data }) => data.spotExchange).sort()).toEqual([...SPOTS].sort());
+
+        for (const { data } of jobs) {
+            expect(data).toMatchObject({ symbol: 'BTC/USDT', perpExchange: 'binance', action: 'SHORT_SPOT_LONG_PERP', basisPercent: -2 });
+            // The long perp pays the mock's 0.01% per 8h funding
+            expect(data.annualizedCarryPercent).toBeCloseTo(-10.95);
+        }
+
+        const basisAlerts = () => server.getTelegramMessages().filter(text => text.includes('SPOT-PERP BASIS'));
+        await waitFor(() => basisAlerts().length >= SPOTS.length);
+
+        const alerts = basisAlerts();
+        expect(alerts).toHaveLength(SPOTS.length);
+        expect(alerts[0]).toContain('LONG PERP on BINANCE: $49000.0000');
+        expect(alerts[0]).toContain('Annualized Carry:</b> -10.95% APR');
+    });
+
+    it('stops and restarts an exchange at runtime', async () => {
+        const priceService = app.get(PriceService);
+        const fundingService = app.get(FundingService);
+        const okxFunding = () => fundingService.getAllFundingRates().filter(fundingRate => fundingRate.exchange === 'okx');
+
+        await waitFor(() => okxFunding().length === 2);
+
+        const disabled = await request(app.getHttpServer()).post('/exchanges/okx/disable').expect(201);
+        expect(disabled.body.error).toBeUndefined();
+        expect(disabled.body.activeExchanges).not.toContain('okx');
+        expect(priceService.getAllPricesForSymbol('BTC/USDT').map(price => price.exchange)).not.toContain('okx');
+        expect(okxFunding()).toHaveLength(0);
+
+        const exchanges = await request(app.getHttpServer()).get('/exchanges').expect(200);
+        expect(exchanges.body.exchanges.okx).toMatchObject({ enabled: false, connected: false, hasCredentials: false });
+        expect(exchanges.body.exchanges.okx.apiKey).toBeUndefined();
+
+        await request(app.getHttpServer()).post('/exchanges/okx/enable').expect(201);
+        await waitFor(() => priceService.getAllPricesForSymbol('BTC/USDT').some(price => price.exchange === 'okx'));
+
+        expect(priceService.getAllPricesForSymbol('BTC/USDT')).toHaveLength(EXCHANGES.length);
+    });
+
+    it('queues and sends a calendar spread alert when a dated contract leaves its norm', async () => {
+        const priceService = app.get(PriceService);
+        const calendarSpreadService = app.get(CalendarSpreadService);
+        const symbol = dated('BTC/USDT');
+
+        await waitFor(() => priceService.getAllPricesForSymbol(symbol).length === DELIVERIES.length);
+
+        // Build each pair's norm at zero basis on top of what the cron has already sampled
+        for (let i = 0; i < 3; i++) {
+            await calendarSpreadService.detectCalendarSpreads();
+        }
+
+        server.setPrice('gateio_delivery', 'BTC/USDT', 51000);
+        await waitFor(() => priceService.getPrice(symbol, 'gateio_delivery')?.price === 51000);
+        await calendarSpreadService.detectCalendarSpreads();
+
+        // Norms against the binance perp hold samples from other tests' moves, so only the other pairs are checked
+        const jobs = calendarQueue.getJobs('processCalendarSpread')
+            .filter(({ data }) => data.datedExchange === 'gateio_delivery' && data.perpExchange !== 'binance');
+        expect(jobs.map(({ data }) => data.perpExchange).sort()).toEqual(PERPS.filter(exchange => exchange !== 'binance').sort());
+
+        for (const { data } of jobs) {
+            expect(data).toMatchObject({ symbol, underlying: 'BTC/USDT', expiryTime: DELIVERY_TIME, basisPercent: 2, action: 'SELL_DATED_BUY_PERP' });
+            expect(data.sameExchange).toBe(data.perpExchange === 'gateio');
+            expect(data.annualizedBasisPercent).toBeCloseTo(2 * 365 / data.daysToExpiry);
+        }
+
+        await waitFor(() => server.getTelegramMessages().some(text => text.includes('CALENDAR SPREAD') && text.includes('SELL DATED on GATEIO_DELIVERY')));
+    });
+
+    it('suppresses or tags spreads with a leg below the liquidity minimums', async () => {
+        const priceService = app.get(PriceService);
+        const arbitrageService = app.get(ArbitrageService);
+        const ethJobs = () => arbitrageQueue.getJobs('processOpportunity').filter(({ data }) => data.symbol === 'ETH/USDT');
+        const legsOf = (job: { data: any }) => job.data.lowLiquidityLegs.map((leg: any) => leg.exchange).sort();
+
+        // Open interest in base units: ByBit 10 and Binance 20 from tickers and polling, OKX 5 from its channel;
+        // the Gate.io, MEXC and Bitget mocks report none
+        server.setPrice('okx', 'ETH/USDT', 2900);
+        await waitFor(() => priceService.getPrice('ETH/USDT', 'okx')?.price === 2900);
+        await waitFor(() => priceService.getPrice('ETH/USDT', 'okx')?.openInterest === 5);
+        await waitFor(() => priceService.getPrice('ETH/USDT', 'binance')?.openInterest === 20);
+
+        const liquidity = await request(app.getHttpServer()).get(`/prices/liquidity/${encodeURIComponent('ETH/USDT')}`).expect(200);
+        expect(liquidity.body.exchanges).toContainEqual({ exchange: 'okx', marketType: 'perp', openInterestUsd: 14500, volume24hUsd: 2900000 });
+        expect(liquidity.body.exchanges).toContainEqual(expect.objectContaining({ exchange: 'binance', openInterestUsd: 60000 }));
+
+        await request(app.getHttpServer())
+            .post('/arbitrage/config')
+            .send({ minOpenInterestUsd: 20000, lowLiquidityAction: 'suppress' })
+            .expect(201);
+        await arbitrageService.detectArbitrageOpportunities();
+        expect(ethJobs()).toHaveLength(0);
+
+        await request(app.getHttpServer()).post('/arbitrage/config').send({ lowLiquidityAction: 'tag' }).expect(201);
+        await arbitrageService.detectArbitrageOpportunities();
+
+        const jobs = ethJobs();
+        expect(jobs).toHaveLength(PERPS.length - 1);
+        expect(jobs.map(legsOf)).toEqual(jobs.map(() => ['okx']));
+        await waitFor(() => server.getTelegramMessages().some(text => text.includes('Low Liquidity') && text.includes('OKX: OI $14,500')));
+
+        // Unknown open interest fails the minimum once required
+        await request(app.getHttpServer()).post('/arbitrage/config').send({ rejectUnknownOpenInterest: true }).expect(201);
+        await request(app.getHttpServer()).post('/arbitrage/clear-alerts').expect(201);
+        await arbitrageService.detectArbitrageOpportunities();
+
+        const requiredJobs = ethJobs().slice(jobs.length);
+        expect(requiredJobs).toHaveLength(PERPS.length - 1);
+        expect(requiredJobs.map(legsOf).sort()).toEqual([['bitget', 'okx'], ['gateio', 'okx'], ['mexc', 'okx'], ['okx'], ['okx']]);
+    });
+
+    it('keeps a venue priced over REST while its stream is down', async () => {
+        const priceService = app.get(PriceService);
+        // Each adapter's REST tickers carry its own venue symbols
+        const legs: [string, string][] = [
+            ['bybit', 'BTC/USDT'],
+            ['bybit_spot', 'BTC/USDT'],
+            ['gateio_spot', 'BTC/USDT'],
+            ['bybit_delivery', dated('BTC/USDT')],
+            ['gateio_delivery', dated('BTC/USDT')],
+        ];
+
+        for (const [exchange] of legs) {
+            server.setStreamDown(exchange, true);
+            server.setPrice(exchange, 'BTC/USDT', 50100);
+        }
+
+        for (const [exchange, symbol] of legs) {
+            await waitFor(() => priceService.getPrice(symbol, exchange)?.source === 'rest');
+            expect(priceService.getPrice(symbol, exchange)).toMatchObject({ symbol, exchange, price: 50100 });
+        }
+        expect(priceService.getAvailableSymbols().every(symbol => symbol.includes('/'))).toBe(true);
+
+        for (const [exchange, symbol] of legs) {
+            server.setStreamDown(exchange, false);
+            await waitFor(() => priceService.getPrice(symbol, exchange)?.source === 'ws');
+        }
+    });
+
+    it('measures price kind spreads within each market type', async () => {
+        const priceService = app.get(PriceService);
+
+        server.setPrice('binance_spot', 'ETH/USDT', 2900);
+        await waitFor(() => priceService.getAllPricesForSymbol('ETH/USDT').every(price => price.price === (price.exchange === 'binance_spot' ? 2900 : 3000)));
+
+        const kinds = await request(app.getHttpServer()).get(`/prices/kinds/${encodeURIComponent('ETH/USDT')}`).expect(200);
+        const lastSpread = (marketType: string) => kinds.body.spreads.find((spread: any) => spread.kind === 'last' && spread.marketType === marketType);
+
+        // The cheap spot leg widens the spot spread only; perps still agree
+        expect(lastSpread('perp')).toMatchObject({ exchanges: PERPS.length, spreadPercent: 0 });
+        expect(lastSpread('spot')).toMatchObject({ exchanges: SPOTS.length, lowest: { exchange: 'binance_spot', price: 2900 } });
+        expect(lastSpread('spot').spreadPercent).toBeCloseTo(100 / 29);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getQueueToken } from '@nestjs/bull';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AppModule } from '@/app.module';
+import { PriceService } from '@/price/price.service';
+import { ArbitrageService } from '@/arbitrage/arbitrage.service';
+import { ExchangeRegistry } from '@/exchange/exchange.registry';
+import { RecordedFrame } from '@/exchange/frame-recorder.service';
+import { MockExchangeServer } from './support/mock-exchange.server';
+import { InMemoryQueue } from './support/in-memory-queue';
+import { MOCK_VENUES, MockTicker } from './support/mock-venues';
+
+const RECORDED_AGO_MS = 60 * 60 * 1000;
+const FEED_LATENCY_MS = 40;
+
+async function waitFor(condition: () => boolean, timeoutMs = 20000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error(`Condition not met within ${timeoutMs}ms`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+}
+
+/**
+ * A recorded ticker frame, stamped by the venue at the time it was recorded
+ */
+function recordFrame(exchange: string, ticker: MockTicker, recordedAt: number): RecordedFrame {
+    const venue = MOCK_VENUES.find(venue => venue.name === exchange)!;
+    const now = jest.spyOn(Date, 'now').mockReturnValue(recordedAt - FEED_LATENCY_MS);
+
+    try {
+        return { receivedAt: recordedAt, exchange, frame: JSON.stringify(venue.tickerFrame(ticker)) };
+    } finally {
+        now.mockRestore();
+    }
+}
+
+describe('Replayed sessions (e2e)', () => {
+    // Only Telegram is served; replayed adapters open no sockets
+    const server = new MockExchangeServer({ 'BTC/USDT': 50000 });
+    const arbitrageQueue = new InMemoryQueue('arbitrage');
+    const recordingDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-e2e-'));
+    let app: INestApplication;
+
+    beforeAll(async () => {
+        await server.start();
+
+        const recordedAt = Date.now() - RECORDED_AGO_MS;
+        const records: RecordedFrame[] = [
+            { receivedAt: recordedAt, exchange: 'binance', subscribe: 'BTC/USDT' },
+            { receivedAt: recordedAt, exchange: 'bybit', subscribe: 'BTC/USDT' },
+            recordFrame('binance', { symbol: 'BTC/USDT', price: 49000 }, recordedAt + 100),
+            recordFrame('bybit', { symbol: 'BTC/USDT', price: 50000 }, recordedAt + 200),
+        ];
+        fs.writeFileSync(path.join(recordingDir, 'frames.ndjson'), records.map(record => JSON.stringify(record)).join('\n'));
+
+        Object.assign(process.env, server.getEnv(), {
+            TELEGRAM_BOT_TOKEN: 'test-token',
+            TELEGRAM_CHAT_ID: '42',
+            ENABLED_EXCHANGES: 'binance,bybit',
+            CCXT_EXCHANGES: '',
+            ORDER_BOOK_STREAMS: 'false',
+            PAIR_REFRESH_CRON: '',
+            FRAME_RECORDING_ENABLED: 'false',
+            REPLAY_PATH: recordingDir,
+            REPLAY_SPEED: '0',
+        });
+
+        const moduleRef = await Test.createTestingModule({ imports: [AppModule] })
+            .overrideProvider(getQueueToken('arbitrage')).useValue(arbitrageQueue)
+            .overrideProvider(getQueueToken('funding')).useValue(new InMemoryQueue('funding'))
+            .overrideProvider(getQueueToken('listings')).useValue(new InMemoryQueue('listings'))
+            .overrideProvider(getQueueToken('basis')).useValue(new InMemoryQueue('basis'))
+            .overrideProvider(getQueueToken('calendar')).useValue(new InMemoryQueue('calendar'))
+            .compile();
+
+        app = moduleRef.createNestApplication();
+        await app.init();
+    });
+
+    afterAll(async () => {
+        await app?.close();
+        await server.stop();
+        fs.rmSync(recordingDir, { recursive: true, force: true });
+    });
+
+    it('keeps replayed prices fresh and detects the recorded spread', async () => {
+        const priceService = app.get(PriceService);
+
+        await waitFor(() => priceService.getAllPricesForSymbol('BTC/USDT').length === 2);
+
+        // Event times are an hour old in the recording but as old as they were then once replayed
+        for (const exchange of ['binance', 'bybit']) {
+            const price = priceService.getPrice('BTC/USDT', exchange)!;
+            expect(Date.now() - price.priceEventTime!).toBeLessThan(5000);
+            expect(priceService.isPriceStale('BTC/USDT', exchange)).toBe(false);
+            const latency = app.get(ExchangeRegistry).get(exchange)!.getStatus().latency;
+            expect(latency.samples).toBe(1);
+            expect(latency.p50).toBeGreaterThanOrEqual(FEED_LATENCY_MS);
+            expect(latency.p50).toBeLessThan(FEED_LATENCY_MS + 1000);
+        }
+
+        await app.get(ArbitrageService).detectArbitrageOpportunities();
+
+        const jobs = arbitrageQueue.getJobs('processOpportunity');
+        expect(jobs).toHaveLength(1);
+        expect(jobs[0].data).toMatchObject({ symbol: 'BTC/USDT', priceDifference: 1000 });
+        await waitFor(() => server.getTelegramMessages().some(text => text.includes('ARBITRAGE OPPORTUNITY') && text.includes('BUY on BINANCE')));
+    });
+});
\ No newline at end of file
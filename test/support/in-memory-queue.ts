@@ -0,0 +1,56 @@
+export interface InMemoryJob {
+    id: number;
+    name: string;
+    data: any;
+    opts: any;
+    failedReason?: string;
+}
+
+type JobHandler = (job: InMemoryJob) => Promise<void>;
+
+/**
+ * Redis-free replacement for a Bull queue. Keeps every added job for
+ * assertions and runs the registered @Process handler straight away.
+ */
+export class InMemoryQueue {
+    readonly jobs: InMemoryJob[] = [];
+    private readonly handlers = new Map<string, JobHandler>();
+    private nextJobId = 1;
+
+    constructor(readonly name: string) { }
+
+    // Bull signatures used by the Nest explorer: process(name, handler) or process(name, concurrency, handler)
+    process(name: string, ...args: any[]): void {
+        this.handlers.set(name, args[args.length - 1]);
+    }
+
+    async add(name: string, data: any, opts: any = {}): Promise<InMemoryJob> {
+        const job: InMemoryJob = { id: this.nextJobId++, name, data, opts };
+        this.jobs.push(job);
+
+        try {
+            await this.handlers.get(name)?.(job);
+        } catch (error) {
+            job.failedReason = error.message;
+        }
+
+        return job;
+    }
+
+    getJobs(name: string): InMemoryJob[] {
+        return this.jobs.filter(job => job.name === name);
+    }
+
+    /**
+     * Forget every job added so far
+     */
+    clear(): void {
+        this.jobs.length = 0;
+    }
+
+    on(): this {
+        return this;
+    }
+
+    async close(): Promise<void> { }
+}
\ No newline at end of file
@@ -0,0 +1,308 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as WebSocket from 'ws';
+import { MOCK_VENUES, MockChannel, MockTicker, MockVenue } from './mock-venues';
+
+export interface PricePathStep {
+    afterMs: number;                     // Wait after the previous step
+    exchange: string;
+    symbol: string;
+    price: number;
+}
+
+export interface TelegramRequest {
+    method: string;                      // Bot API method, e.g. sendMessage
+    payload: Record<string, any>;
+}
+
+interface MockClient {
+    venue: MockVenue;
+    topics: Set<string>;
+}
+
+/**
+ * In-process stand-in for every exchange and the Telegram Bot API. Serves
+ * each venue's REST discovery and WebSocket ticker protocol on one local
+ * port, with prices set per exchange by the test. Point the bot at it with
+ * getEnv().
+ */
+export class MockExchangeServer {
+    readonly telegramRequests: TelegramRequest[] = [];
+    private readonly server = http.createServer((req, res) => this.handleRequest(req, res));
+    private readonly wss = new WebSocket.Server({ noServer: true });
+    private readonly prices = new Map<string, Map<string, number>>(); // exchange -> symbol -> price
+    private readonly clients = new Map<WebSocket, MockClient>();
+    private readonly downVenues = new Set<string>();
+    private tickTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * @param openingPrices starting price of every listed symbol, the same on every venue
+     * @param tickIntervalMs how often current tickers are re-sent, as venues stream them continuously
+     */
+    constructor(
+        private readonly openingPrices: Record<string, number>,
+        private readonly venues: MockVenue[] = MOCK_VENUES,
+        private readonly tickIntervalMs = 1000,
+    ) {
+        for (const venue of venues) {
+            this.prices.set(venue.name, new Map(Object.entries(openingPrices)));
+        }
+
+        this.server.on('upgrade', (req, socket, head) => {
+            const venue = this.venues.find(venue => this.getPath(req) === venue.wsPath);
+            if (!venue || this.downVenues.has(venue.name)) {
+                socket.destroy();
+                return;
+            }
+
+            this.wss.handleUpgrade(req, socket, head, (ws) => this.handleConnection(ws, venue));
+        });
+    }
+
+    async start(): Promise<void> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        this.tickTimer = setInterval(() => this.broadcastTickers(), this.tickIntervalMs);
+    }
+
+    async stop(): Promise<void> {
+        if (this.tickTimer) {
+            clearInterval(this.tickTimer);
+            this.tickTimer = null;
+        }
+
+        for (const ws of this.clients.keys()) {
+            ws.terminate();
+        }
+        this.clients.clear();
+
+        this.wss.close();
+        this.server.closeAllConnections();
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+    }
+
+    /**
+     * Environment that points every adapter and the Telegram client at this server
+     */
+    getEnv(): Record<string, string> {
+        const { port } = this.server.address() as AddressInfo;
+        const env: Record<string, string> = {
+            TELEGRAM_API_URL: `http://127.0.0.1:${port}`,
+        };
+
+        for (const venue of this.venues) {
+            env[`${venue.name.toUpperCase()}_REST_URL`] = `http://127.0.0.1:${port}${venue.restPath}`;
+            env[`${venue.name.toUpperCase()}_WS_URL`] = `ws://127.0.0.1:${port}${venue.wsPath}`;
+        }
+
+        return env;
+    }
+
+    /**
+     * Move a price on one exchange and push the ticker to its subscribers
+     */
+    setPrice(exchange: string, symbol: string, price: number): void {
+        const prices = this.prices.get(exchange);
+        if (!prices?.has(symbol)) {
+            throw new Error(`${symbol} is not listed on mock ${exchange}`);
+        }
+
+        prices.set(symbol, price);
+        this.broadcastTickers(exchange, symbol);
+    }
+
+    /**
+     * Drop a venue's sockets and refuse new ones until it is brought back up;
+     * its REST routes keep answering
+     */
+    setStreamDown(exchange: string, down: boolean): void {
+        if (!down) {
+            this.downVenues.delete(exchange);
+            return;
+        }
+
+        this.downVenues.add(exchange);
+        for (const [ws, client] of this.clients) {
+            if (client.venue.name === exchange) {
+                ws.terminate();
+            }
+        }
+    }
+
+    /**
+     * Put every venue back to its opening prices with its stream up
+     */
+    reset(): void {
+        for (const venue of this.venues) {
+            this.prices.set(venue.name, new Map(Object.entries(this.openingPrices)));
+        }
+
+        this.downVenues.clear();
+        this.broadcastTickers();
+    }
+
+    /**
+     * Forget every request sent to Telegram so far
+     */
+    clearTelegramRequests(): void {
+        this.telegramRequests.length = 0;
+    }
+
+    /**
+     * Apply a scripted sequence of price moves, waiting between steps
+     */
+    async playPath(steps: PricePathStep[]): Promise<void> {
+        for (const step of steps) {
+            if (step.afterMs > 0) {
+                await new Promise(resolve => setTimeout(resolve, step.afterMs));
+            }
+
+            this.setPrice(step.exchange, step.symbol, step.price);
+        }
+    }
+
+    /**
+     * Text of every message the bot sent to Telegram, oldest first
+     */
+    getTelegramMessages(): string[] {
+        return this.telegramRequests
+            .filter(request => request.method === 'sendMessage')
+            .map(request => request.payload.text);
+    }
+
+    /**
+     * Send current tickers to their subscribers, optionally for one exchange or symbol only
+     */
+    private broadcastTickers(exchange?: string, symbol?: string): void {
+        for (const [ws, client] of this.clients) {
+            if (exchange && client.venue.name !== exchange) {
+                continue;
+            }
+
+            for (const ticker of this.getTickers(client.venue.name)) {
+                if (symbol && ticker.symbol !== symbol) {
+                    continue;
+                }
+
+                for (const channel of this.getChannels(client.venue)) {
+                    if (client.topics.has(channel.topic(ticker.symbol))) {
+                        this.send(ws, channel.frame(ticker));
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * The venue's ticker channel followed by any others it pushes
+     */
+    private getChannels(venue: MockVenue): MockChannel[] {
+        return [{ topic: venue.tickerTopic, frame: venue.tickerFrame }, ...(venue.channels || [])];
+    }
+
+    private getTickers(exchange: string): MockTicker[] {
+        return Array.from(this.prices.get(exchange)!.entries()).map(([symbol, price]) => ({ symbol, price }));
+    }
+
+    private handleConnection(ws: WebSocket, venue: MockVenue): void {
+        const client: MockClient = { venue, topics: new Set() };
+        this.clients.set(ws, client);
+
+        ws.on('close', () => this.clients.delete(ws));
+        ws.on('message', (data: Buffer) => {
+            const text = data.toString();
+
+            // OKX and Bitget keep-alives are bare text
+            if (text === 'ping') {
+                ws.send('pong');
+                return;
+            }
+
+            const reply = venue.handleClientMessage(JSON.parse(text));
+            reply.replies?.forEach(message => this.send(ws, message));
+            reply.unsubscribe?.forEach(topic => client.topics.delete(topic));
+
+            for (const topic of reply.subscribe || []) {
+                client.topics.add(topic);
+
+                // Like most venues, send the current ticker right after subscribing
+                for (const channel of this.getChannels(venue)) {
+                    const ticker = this.getTickers(venue.name).find(({ symbol }) => channel.topic(symbol) === topic);
+                    if (ticker) {
+                        this.send(ws, channel.frame(ticker));
+                    }
+                }
+            }
+        });
+    }
+
+    private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const path = this.getPath(req);
+        const body = await this.readBody(req);
+
+        const telegramMatch = path.match(/^\/bot[^/]+\/(\w+)$/);
+        if (telegramMatch) {
+            this.respond(res, 200, this.handleTelegram(telegramMatch[1], this.parseBody(req, body)));
+            return;
+        }
+
+        for (const venue of this.venues) {
+            const route = venue.routes[path];
+            if (route) {
+                this.respond(res, 200, route(this.getTickers(venue.name), new URL(req.url || '/', 'http://localhost').searchParams));
+                return;
+            }
+        }
+
+        this.respond(res, 404, { error: `No mock route for ${path}` });
+    }
+
+    private handleTelegram(method: string, payload: Record<string, any>): object {
+        this.telegramRequests.push({ method, payload });
+
+        if (method === 'getMe') {
+            return { ok: true, result: { id: 1, is_bot: true, first_name: 'Mock', username: 'mock_arbitrage_bot' } };
+        }
+        if (method === 'sendMessage') {
+            return {
+                ok: true,
+                result: { message_id: this.telegramRequests.length, date: Math.floor(Date.now() / 1000), chat: { id: payload.chat_id }, text: payload.text },
+            };
+        }
+        return { ok: true, result: true };
+    }
+
+    private getPath(req: http.IncomingMessage): string {
+        return new URL(req.url || '/', 'http://localhost').pathname;
+    }
+
+    private readBody(req: http.IncomingMessage): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            req.on('data', (chunk: Buffer) => chunks.push(chunk));
+            req.on('end', () => resolve(Buffer.concat(chunks).toString()));
+            req.on('error', reject);
+        });
+    }
+
+    private parseBody(req: http.IncomingMessage, body: string): Record<string, any> {
+        if (!body) {
+            return {};
+        }
+
+        // The Telegram client posts forms; accept JSON as well
+        return req.headers['content-type']?.includes('application/json')
+            ? JSON.parse(body)
+            : Object.fromEntries(new URLSearchParams(body));
+    }
+
+    private respond(res: http.ServerResponse, status: number, body: object): void {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    }
+
+    private send(ws: WebSocket, message: string | object): void {
+        if (ws.readyState === WebSocket.OPEN) {
+            ws.send(typeof message === 'string' ? message : JSON.stringify(message));
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,795 @@
+/**
+ * Wire formats of each venue, as far as the adapters use them: REST discovery,
+ * server time, funding and bulk tickers, plus the WebSocket subscribe and
+ * ticker protocol. Payload shapes follow the real APIs.
+ */
+
+export interface MockTicker {
+    symbol: string;                      // BTC/USDT
+    price: number;
+}
+
+export interface MockClientReply {
+    subscribe?: string[];                // Topic keys the client now receives
+    unsubscribe?: string[];
+    replies?: (string | object)[];       // Acks and pongs sent straight back
+}
+
+export interface MockVenue {
+    name: string;                        // Adapter name, also the URL prefix
+    restPath: string;                    // Path the adapter's REST base URL points at
+    wsPath: string;
+    routes: Record<string, (tickers: MockTicker[], query: URLSearchParams) => object>; // Full path (no query) -> response body
+    handleClientMessage(message: any): MockClientReply;
+    tickerTopic(symbol: string): string; // Topic key whose subscribers receive the symbol's ticker
+    tickerFrame(ticker: MockTicker): object;
+    channels?: MockChannel[];            // Other channels pushed along with every ticker
+}
+
+export interface MockChannel {
+    topic(symbol: string): string;
+    frame(ticker: MockTicker): object;
+}
+
+const base = (symbol: string) => symbol.split('/')[0];
+const quote = (symbol: string) => symbol.split('/')[1];
+const compact = (symbol: string) => symbol.replace('/', '');
+const underscored = (symbol: string) => symbol.replace('/', '_');
+const nextFundingTime = () => Math.ceil(Date.now() / 28800000) * 28800000;
+
+// Dated contracts all deliver at 08:00 UTC about 90 days out; tickers keyed BTC/USDT price the venue's contract on it
+export const DELIVERY_TIME = Math.floor(Date.now() / 86400000 + 90) * 86400000 + 28800000;
+const expiry = new Date(DELIVERY_TIME).toISOString(); // 2025-09-26T08:00:00.000Z
+const yymmdd = `${expiry.slice(2, 4)}${expiry.slice(5, 7)}${expiry.slice(8, 10)}`;
+const ddmonyy = `${expiry.slice(8, 10)}${['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'][parseInt(expiry.slice(5, 7)) - 1]}${expiry.slice(2, 4)}`;
+export const dated = (symbol: string) => `${symbol}-${yymmdd}`; // BTC/USDT-250926
+
+const binance: MockVenue = {
+    name: 'binance',
+    restPath: '/binance/fapi/v1',
+    wsPath: '/binance/stream',
+    routes: {
+        '/binance/fapi/v1/exchangeInfo': (tickers) => ({
+            symbols: tickers.map(({ symbol }) => ({
+                symbol: compact(symbol),
+                baseAsset: base(symbol),
+                quoteAsset: quote(symbol),
+                marginAsset: quote(symbol),
+                status: 'TRADING',
+                contractType: 'PERPETUAL',
+                filters: [
+                    { filterType: 'PRICE_FILTER', tickSize: '0.10' },
+                    { filterType: 'LOT_SIZE', stepSize: '0.001', minQty: '0.001' },
+                ],
+            })),
+        }),
+        '/binance/fapi/v1/time': () => ({ serverTime: Date.now() }),
+        '/binance/fapi/v1/premiumIndex': (tickers) => tickers.map(({ symbol, price }) => ({
+            symbol: compact(symbol),
+            markPrice: String(price),
+            lastFundingRate: '0.0001',
+            nextFundingTime: nextFundingTime(),
+        })),
+        '/binance/fapi/v1/fundingInfo': () => [],
+        '/binance/fapi/v1/openInterest': (tickers, query) => ({ symbol: query.get('symbol'), openInterest: '20', time: Date.now() }),
+        '/binance/fapi/v1/ticker/24hr': (tickers) => tickers.map(({ symbol, price }) => ({
+            symbol: compact(symbol),
+            lastPrice: String(price),
+            volume: '1000',
+            highPrice: String(price),
+            lowPrice: String(price),
+        })),
+    },
+    handleClientMessage(message) {
+        if (message.method === 'SUBSCRIBE') {
+            return { subscribe: message.params, replies: [{ result: null, id: message.id }] };
+        }
+        if (message.method === 'UNSUBSCRIBE') {
+            return { unsubscribe: message.params, replies: [{ result: null, id: message.id }] };
+        }
+        return {};
+    },
+    tickerTopic: (symbol) => `${compact(symbol).toLowerCase()}@ticker`,
+    tickerFrame: ({ symbol, price }) => ({
+        stream: `${compact(symbol).toLowerCase()}@ticker`,
+        data: { e: '24hrTicker', E: Date.now(), s: compact(symbol), c: String(price), v: '1000', h: String(price), l: String(price) },
+    }),
+};
+
+const bybit: MockVenue = {
+    name: 'bybit',
+    restPath: '/bybit/v5',
+    wsPath: '/bybit/v5/public/linear',
+    routes: {
+        '/bybit/v5/market/instruments-info': (tickers) => ({
+            retCode: 0,
+            retMsg: 'OK',
+            result: {
+                category: 'linear',
+                list: tickers.map(({ symbol }) => ({
+                    symbol: compact(symbol),
+                    baseCoin: base(symbol),
+                    quoteCoin: quote(symbol),
+                    settleCoin: quote(symbol),
+                    status: 'Trading',
+                    contractType: 'LinearPerpetual',
+                    fundingInterval: 480,
+                    priceFilter: { tickSize: '0.10' },
+                    lotSizeFilter: { qtyStep: '0.001', minOrderQty: '0.001' },
+                    leverageFilter: { maxLeverage: '100.00' },
+                })),
+            },
+        }),
+        '/bybit/v5/market/tickers': (tickers) => ({
+            retCode: 0,
+            retMsg: 'OK',
+            result: {
+                category: 'linear',
+                list: tickers.map(({ symbol, price }) => ({
+                    symbol: compact(symbol),
+                    lastPrice: String(price),
+                    markPrice: String(price),
+                    indexPrice: String(price),
+                    bid1Price: String(price),
+                    bid1Size: '1',
+                    ask1Price: String(price),
+                    ask1Size: '1',
+                    turnover24h: String(price * 1000),
+                    openInterest: '10',
+                    fundingRate: '0.0001',
+                    nextFundingTime: String(nextFundingTime()),
+                })),
+            },
+        }),
+        '/bybit/v5/market/time': () => ({ retCode: 0, retMsg: 'OK', result: { timeNano: `${Date.now()}000000` } }),
+    },
+    handleClientMessage(message) {
+        if (message.op === 'ping') {
+            return { replies: [{ op: 'pong', success: true }] };
+        }
+        if (message.op === 'subscribe' || message.op === 'unsubscribe') {
+            return { [message.op]: message.args, replies: [{ op: message.op, success: true }] };
+        }
+        return {};
+    },
+    tickerTopic: (symbol) => `tickers.${compact(symbol)}`,
+    tickerFrame: ({ symbol, price }) => ({
+        topic: `tickers.${compact(symbol)}`,
+        type: 'snapshot',
+        ts: Date.now(),
+        data: {
+            symbol: compact(symbol),
+            lastPrice: String(price),
+            markPrice: String(price),
+            indexPrice: String(price),
+            volume24h: '1000',
+            turnover24h: String(price * 1000),
+            openInterest: '10',
+            highPrice24h: String(price),
+            lowPrice24h: String(price),
+            fundingRate: '0.0001',
+            nextFundingTime: String(nextFundingTime()),
+        },
+    }),
+};
+
+const gateio: MockVenue = {
+    name: 'gateio',
+    restPath: '/gateio/api/v4',
+    wsPath: '/gateio/v4/ws/usdt',
+    routes: {
+        '/gateio/api/v4/futures/usdt/contracts': (tickers) => tickers.map(({ symbol }) => ({
+            name: underscored(symbol),
+            in_delisting: false,
+            quanto_multiplier: '1',
+            order_price_round: '0.1',
+            order_size_min: 1,
+            leverage_max: '100',
+            funding_rate: '0.0001',
+            funding_rate_indicative: '0.0001',
+            funding_next_apply: nextFundingTime() / 1000,
+            funding_interval: 28800,
+        })),
+        '/gateio/api/v4/futures/usdt/tickers': (tickers) => tickers.map(({ symbol, price }) => ({
+            contract: underscored(symbol),
+            last: String(price),
+            mark_price: String(price),
+            index_price: String(price),
+            highest_bid: String(price),
+            lowest_ask: String(price),
+        })),
+        '/gateio/api/v4/spot/time': () => ({ server_time: Date.now() }),
+    },
+    handleClientMessage(message) {
+        if (message.channel === 'futures.ping') {
+            return { replies: [{ time: Math.floor(Date.now() / 1000), channel: 'futures.pong' }] };
+        }
+        if (message.event === 'subscribe' || message.event === 'unsubscribe') {
+            return {
+                [message.event]: message.payload.map((contract: string) => `${message.channel}:${contract}`),
+                replies: [{ time: Math.floor(Date.now() / 1000), channel: message.channel, event: message.event, result: { status: 'success' } }],
+            };
+        }
+        return {};
+    },
+    tickerTopic: (symbol) => `futures.tickers:${underscored(symbol)}`,
+    tickerFrame: ({ symbol, price }) => ({
+        time: Math.floor(Date.now() / 1000),
+        time_ms: Date.now(),
+        channel: 'futures.tickers',
+        event: 'update',
+        result: [{
+            contract: underscored(symbol),
+            last: String(price),
+            mark_price: String(price),
+            index_price: String(price),
+            volume_24h: '1000',
+            high_24h: String(price),
+            low_24h: String(price),
+            funding_rate: '0.0001',
+            funding_rate_indicative: '0.0001',
+        }],
+    }),
+};
+
+const mexc: MockVenue = {
+    name: 'mexc',
+    restPath: '/mexc/api/v1',
+    wsPath: '/mexc/edge',
+    routes: {
+        '/mexc/api/v1/contract/detail': (tickers) => ({
+            success: true,
+            code: 0,
+            data: tickers.map(({ symbol }) => ({
+                symbol: underscored(symbol),
+                baseCoin: base(symbol),
+                quoteCoin: quote(symbol),
+                settleCoin: quote(symbol),
+                state: 0,
+                contractSize: 1,
+                priceScale: 1,
+                priceUnit: 0.1,
+                volUnit: 1,
+                minVol: 1,
+                maxLeverage: 125,
+            })),
+        }),
+        '/mexc/api/v1/contract/funding_rate': (tickers) => ({
+            success: true,
+            code: 0,
+            data: tickers.map(({ symbol }) => ({
+                symbol: underscored(symbol),
+                fundingRate: 0.0001,
+                nextSettleTime: nextFundingTime(),
+                collectCycle: 8,
+            })),
+        }),
+        '/mexc/api/v1/contract/ping': () => ({ success: true, code: 0, data: Date.now() }),
+        '/mexc/api/v1/contract/ticker': (tickers) => ({
+            success: true,
+            code: 0,
+            data: tickers.map(({ symbol, price }) => ({
+                symbol: underscored(symbol),
+                lastPrice: price,
+                fairPrice: price,
+                indexPrice: price,
+                bid1: price,
+                ask1: price,
+            })),
+        }),
+    },
+    handleClientMessage(message) {
+        if (message.method === 'ping') {
+            return { replies: [{ channel: 'pong', data: Date.now() }] };
+        }
+
+        const [action, ...channel] = (message.method || '').split('.');
+        const topic = `${channel.join('.')}:${message.param?.symbol}`;
+        if (action === 'sub') {
+            return { subscribe: [topic], replies: [{ channel: `rs.${message.method}`, data: 'success', ts: Date.now() }] };
+        }
+        if (action === 'unsub') {
+            return { unsubscribe: [topic], replies: [{ channel: `rs.${message.method}`, data: 'success', ts: Date.now() }] };
+        }
+        return {};
+    },
+    tickerTopic: (symbol) => `ticker:${underscored(symbol)}`,
+    tickerFrame: ({ symbol, price }) => ({
+        channel: 'push.ticker',
+        symbol: underscored(symbol),
+        ts: Date.now(),
+        data: {
+            symbol: underscored(symbol),
+            lastPrice: price,
+            fairPrice: price,
+            indexPrice: price,
+            volume24: 1000,
+            high24Price: price,
+            lower24Price: price,
+            fundingRate: 0.0001,
+        },
+    }),
+};
+
+const lbank: MockVenue = {
+    name: 'lbank',
+    restPath: '/lbank/v2',
+    wsPath: '/lbank/ws/V2/',
+    routes: {
+        '/lbank/v2/currencyPairs.do': (tickers) => ({
+            result: 'true',
+            error_code: 0,
+            data: tickers.map(({ symbol }) => underscored(symbol).toLowerCase()),
+        }),
+        '/lbank/v2/timestamp.do': () => ({ result: 'true', error_code: 0, data: Date.now() }),
+        '/lbank/v2/ticker/24hr.do': (tickers) => ({
+            result: 'true',
+            error_code: 0,
+            data: tickers.map(({ symbol, price }) => ({
+                symbol: underscored(symbol).toLowerCase(),
+                ticker: { latest: String(price), vol: '1000', high: String(price), low: String(price) },
+            })),
+        }),
+    },
+    handleClientMessage(message) {
+        if (message.action === 'ping') {
+            return { replies: [{ action: 'pong', pong: message.ping }] };
+        }
+        if (message.action === 'subscribe' || message.action === 'unsubscribe') {
+            return { [message.action]: [`${message.subscribe}:${message.pair}`] };
+        }
+        return {};
+    },
+    tickerTopic: (symbol) => `tick:${underscored(symbol).toLowerCase()}`,
+    tickerFrame: ({ symbol, price }) => ({
+        type: 'tick',
+        pair: underscored(symbol).toLowerCase(),
+        SERVER: 'V2',
+        TS: new Date().toISOString().replace('Z', ''),
+        tick: { latest: price, vol: 1000, high: price, low: price, change: 0 },
+    }),
+};
+
+const okx: MockVenue = {
+    name: 'okx',
+    restPath: '/okx/api/v5',
+    wsPath: '/okx/ws/v5/public',
+    routes: {
+        '/okx/api/v5/public/instruments': (tickers) => ({
+            code: '0',
+            msg: '',
+            data: tickers.map(({ symbol }) => ({
+                instId: `${symbol.replace('/', '-')}-SWAP`,
+                uly: symbol.replace('/', '-'),
+                instType: 'SWAP',
+                state: 'live',
+                ctType: 'linear',
+                settleCcy: quote(symbol),
+                ctVal: '1',
+                tickSz: '0.1',
+                lotSz: '1',
+                minSz: '1',
+                lever: '100',
+            })),
+        }),
+        '/okx/api/v5/public/time': () => ({ code: '0', msg: '', data: [{ ts: String(Date.now()) }] }),
+        '/okx/api/v5/market/tickers': (tickers) => ({
+            code: '0',
+            msg: '',
+            data: tickers.map(({ symbol, price }) => ({
+                instId: `${symbol.replace('/', '-')}-SWAP`,
+                last: String(price),
+                bidPx: String(price),
+                bidSz: '1',
+                askPx: String(price),
+                askSz: '1',
+            })),
+        }),
+    },
+    handleClientMessage(message) {
+        if (message.op === 'subscribe' || message.op === 'unsubscribe') {
+            return {
+                [message.op]: message.args.map((arg: any) => `${arg.channel}:${arg.instId}`),
+                replies: message.args.map((arg: any) => ({ event: message.op, arg })),
+            };
+        }
+        return {};
+    },
+    tickerTopic: (symbol) => `tickers:${symbol.replace('/', '-')}-SWAP`,
+    tickerFrame: ({ symbol, price }) => ({
+        arg: { channel: 'tickers', instId: `${symbol.replace('/', '-')}-SWAP` },
+        data: [{
+            instId: `${symbol.replace('/', '-')}-SWAP`,
+            last: String(price),
+            volCcy24h: '1000',
+            high24h: String(price),
+            low24h: String(price),
+            ts: String(Date.now()),
+        }],
+    }),
+    channels: [{
+        topic: (symbol) => `open-interest:${symbol.replace('/', '-')}-SWAP`,
+        frame: ({ symbol }) => ({
+            arg: { channel: 'open-interest', instId: `${symbol.replace('/', '-')}-SWAP` },
+            data: [{
+                instType: 'SWAP',
+                instId: `${symbol.replace('/', '-')}-SWAP`,
+                oi: '5',
+                oiCcy: '5',
+                ts: String(Date.now()),
+            }],
+        }),
+    }, {
+        topic: (symbol) => `funding-rate:${symbol.replace('/', '-')}-SWAP`,
+        frame: ({ symbol }) => ({
+            arg: { channel: 'funding-rate', instId: `${symbol.replace('/', '-')}-SWAP` },
+            data: [{
+                instType: 'SWAP',
+                instId: `${symbol.replace('/', '-')}-SWAP`,
+                fundingRate: '0.0001',
+                nextFundingRate: '0.0001',
+                fundingTime: String(nextFundingTime()),
+                nextFundingTime: String(nextFundingTime() + 28800000),
+                ts: String(Date.now()),
+            }],
+        }),
+    }],
+};
+
+const bitget: MockVenue = {
+    name: 'bitget',
+    restPath: '/bitget/api/v2/mix',
+    wsPath: '/bitget/v2/ws/public',
+    routes: {
+        '/bitget/api/v2/mix/market/contracts': (tickers) => ({
+            code: '00000',
+            msg: 'success',
+            data: tickers.map(({ symbol }) => ({
+                symbol: compact(symbol),
+                baseCoin: base(symbol),
+                quoteCoin: quote(symbol),
+                symbolStatus: 'normal',
+                pricePlace: '1',
+                priceEndStep: '1',
+                volumePlace: '3',
+                minTradeNum: '0.001',
+                sizeMultiplier: '0.001',
+                maxLever: '125',
+                supportMarginCoins: [quote(symbol)],
+                fundInterval: '8',
+            })),
+        }),
+        '/bitget/api/v2/mix/market/tickers': (tickers) => ({
+            code: '00000',
+            msg: 'success',
+            data: tickers.map(({ symbol, price }) => ({
+                symbol: compact(symbol),
+                lastPr: String(price),
+                markPrice: String(price),
+                indexPrice: String(price),
+                bidPr: String(price),
+                bidSz: '1',
+                askPr: String(price),
+                askSz: '1',
+                fundingRate: '0.0001',
+            })),
+        }),
+        '/bitget/api/v2/public/time': () => ({ code: '00000', msg: 'success', data: { serverTime: String(Date.now()) } }),
+    },
+    handleClientMessage(message) {
+        if (message.op === 'subscribe' || message.op === 'unsubscribe') {
+            return {
+                [message.op]: message.args.map((arg: any) => `${arg.channel}:${arg.instId}`),
+                replies: message.args.map((arg: any) => ({ event: message.op, arg })),
+            };
+        }
+        return {};
+    },
+    tickerTopic: (symbol) => `ticker:${compact(symbol)}`,
+    tickerFrame: ({ symbol, price }) => ({
+        action: 'snapshot',
+        arg: { instType: 'USDT-FUTURES', channel: 'ticker', instId: compact(symbol) },
+        data: [{
+            instId: compact(symbol),
+            lastPr: String(price),
+            markPrice: String(price),
+            indexPrice: String(price),
+            baseVolume: '1000',
+            high24h: String(price),
+            low24h: String(price),
+            fundingRate: '0.0001',
+            nextFundingTime: String(nextFundingTime()),
+            ts: String(Date.now()),
+        }],
+        ts: Date.now(),
+    }),
+};
+
+const binanceSpot: MockVenue = {
+    name: 'binance_spot',
+    restPath: '/binance_spot/api/v3',
+    wsPath: '/binance_spot/stream',
+    routes: {
+        '/binance_spot/api/v3/exchangeInfo': (tickers) => ({
+            symbols: tickers.map(({ symbol }) => ({
+                symbol: compact(symbol),
+                baseAsset: base(symbol),
+                quoteAsset: quote(symbol),
+                status: 'TRADING',
+                filters: [
+                    { filterType: 'PRICE_FILTER', tickSize: '0.01' },
+                    { filterType: 'LOT_SIZE', stepSize: '0.00001', minQty: '0.00001' },
+                    { filterType: 'NOTIONAL', minNotional: '5' },
+                ],
+            })),
+        }),
+        '/binance_spot/api/v3/time': () => ({ serverTime: Date.now() }),
+        '/binance_spot/api/v3/ticker/24hr': (tickers) => tickers.map(({ symbol, price }) => ({
+            symbol: compact(symbol),
+            lastPrice: String(price),
+            volume: '1000',
+            highPrice: String(price),
+            lowPrice: String(price),
+            bidPrice: String(price),
+            bidQty: '1',
+            askPrice: String(price),
+            askQty: '1',
+        })),
+    },
+    handleClientMessage: binance.handleClientMessage,
+    tickerTopic: binance.tickerTopic,
+    tickerFrame: binance.tickerFrame,
+};
+
+const bybitSpot: MockVenue = {
+    name: 'bybit_spot',
+    restPath: '/bybit_spot/v5',
+    wsPath: '/bybit_spot/v5/public/spot',
+    routes: {
+        '/bybit_spot/v5/market/instruments-info': (tickers) => ({
+            retCode: 0,
+            retMsg: 'OK',
+            result: {
+                category: 'spot',
+                list: tickers.map(({ symbol }) => ({
+                    symbol: compact(symbol),
+                    baseCoin: base(symbol),
+                    quoteCoin: quote(symbol),
+                    status: 'Trading',
+                    priceFilter: { tickSize: '0.01' },
+                    lotSizeFilter: { basePrecision: '0.000001', minOrderQty: '0.000048', minOrderAmt: '1' },
+                })),
+            },
+        }),
+        '/bybit_spot/v5/market/tickers': (tickers) => ({
+            retCode: 0,
+            retMsg: 'OK',
+            result: {
+                category: 'spot',
+                list: tickers.map(({ symbol, price }) => ({
+                    symbol: compact(symbol),
+                    lastPrice: String(price),
+                    bid1Price: String(price),
+                    bid1Size: '1',
+                    ask1Price: String(price),
+                    ask1Size: '1',
+                    volume24h: '1000',
+                    highPrice24h: String(price),
+                    lowPrice24h: String(price),
+                })),
+            },
+        }),
+        '/bybit_spot/v5/market/time': () => ({ retCode: 0, retMsg: 'OK', result: { timeNano: `${Date.now()}000000` } }),
+    },
+    handleClientMessage: bybit.handleClientMessage,
+    tickerTopic: bybit.tickerTopic,
+    tickerFrame: ({ symbol, price }) => ({
+        topic: `tickers.${compact(symbol)}`,
+        type: 'snapshot',
+        ts: Date.now(),
+        data: {
+            symbol: compact(symbol),
+            lastPrice: String(price),
+            volume24h: '1000',
+            highPrice24h: String(price),
+            lowPrice24h: String(price),
+        },
+    }),
+};
+
+const gateioSpot: MockVenue = {
+    name: 'gateio_spot',
+    restPath: '/gateio_spot/api/v4',
+    wsPath: '/gateio_spot/ws/v4/',
+    routes: {
+        '/gateio_spot/api/v4/spot/currency_pairs': (tickers) => tickers.map(({ symbol }) => ({
+            id: underscored(symbol),
+            base: base(symbol),
+            quote: quote(symbol),
+            trade_status: 'tradable',
+            precision: 2,
+            amount_precision: 6,
+            min_base_amount: '0.000001',
+            min_quote_amount: '3',
+        })),
+        '/gateio_spot/api/v4/spot/tickers': (tickers) => tickers.map(({ symbol, price }) => ({
+            currency_pair: underscored(symbol),
+            last: String(price),
+            highest_bid: String(price),
+            lowest_ask: String(price),
+            base_volume: '1000',
+            high_24h: String(price),
+            low_24h: String(price),
+        })),
+        '/gateio_spot/api/v4/spot/time': () => ({ server_time: Date.now() }),
+    },
+    handleClientMessage(message) {
+        if (message.channel === 'spot.ping') {
+            return { replies: [{ time: Math.floor(Date.now() / 1000), channel: 'spot.pong' }] };
+        }
+        return gateio.handleClientMessage(message);
+    },
+    tickerTopic: (symbol) => `spot.tickers:${underscored(symbol)}`,
+    tickerFrame: ({ symbol, price }) => ({
+        time: Math.floor(Date.now() / 1000),
+        time_ms: Date.now(),
+        channel: 'spot.tickers',
+        event: 'update',
+        result: {
+            currency_pair: underscored(symbol),
+            last: String(price),
+            base_volume: '1000',
+            high_24h: String(price),
+            low_24h: String(price),
+        },
+    }),
+};
+
+const binanceDelivery: MockVenue = {
+    name: 'binance_delivery',
+    restPath: '/binance_delivery/fapi/v1',
+    wsPath: '/binance_delivery/stream',
+    routes: {
+        '/binance_delivery/fapi/v1/exchangeInfo': (tickers) => ({
+            symbols: tickers.map(({ symbol }) => ({
+                symbol: `${compact(symbol)}_${yymmdd}`,
+                baseAsset: base(symbol),
+                quoteAsset: quote(symbol),
+                marginAsset: quote(symbol),
+                status: 'TRADING',
+                contractType: 'CURRENT_QUARTER',
+                deliveryDate: DELIVERY_TIME,
+                filters: [
+                    { filterType: 'PRICE_FILTER', tickSize: '0.10' },
+                    { filterType: 'LOT_SIZE', stepSize: '0.001', minQty: '0.001' },
+                ],
+            })),
+        }),
+        '/binance_delivery/fapi/v1/time': () => ({ serverTime: Date.now() }),
+        '/binance_delivery/fapi/v1/openInterest': (tickers, query) => ({ symbol: query.get('symbol'), openInterest: '20', time: Date.now() }),
+        '/binance_delivery/fapi/v1/ticker/24hr': (tickers) => tickers.map(({ symbol, price }) => ({
+            symbol: `${compact(symbol)}_${yymmdd}`,
+            lastPrice: String(price),
+            volume: '1000',
+            highPrice: String(price),
+            lowPrice: String(price),
+        })),
+    },
+    handleClientMessage: binance.handleClientMessage,
+    tickerTopic: (symbol) => `${compact(symbol).toLowerCase()}_${yymmdd}@ticker`,
+    tickerFrame: ({ symbol, price }) => ({
+        stream: `${compact(symbol).toLowerCase()}_${yymmdd}@ticker`,
+        data: { e: '24hrTicker', E: Date.now(), s: `${compact(symbol)}_${yymmdd}`, c: String(price), v: '1000', h: String(price), l: String(price) },
+    }),
+};
+
+const bybitDelivery: MockVenue = {
+    name: 'bybit_delivery',
+    restPath: '/bybit_delivery/v5',
+    wsPath: '/bybit_delivery/v5/public/linear',
+    routes: {
+        '/bybit_delivery/v5/market/instruments-info': (tickers) => ({
+            retCode: 0,
+            retMsg: 'OK',
+            result: {
+                category: 'linear',
+                list: tickers.map(({ symbol }) => ({
+                    symbol: `${compact(symbol)}-${ddmonyy}`,
+                    baseCoin: base(symbol),
+                    quoteCoin: quote(symbol),
+                    settleCoin: quote(symbol),
+                    status: 'Trading',
+                    contractType: 'LinearFutures',
+                    deliveryTime: String(DELIVERY_TIME),
+                    priceFilter: { tickSize: '0.50' },
+                    lotSizeFilter: { qtyStep: '0.001', minOrderQty: '0.001' },
+                    leverageFilter: { maxLeverage: '50.00' },
+                })),
+            },
+        }),
+        '/bybit_delivery/v5/market/tickers': (tickers) => ({
+            retCode: 0,
+            retMsg: 'OK',
+            result: {
+                category: 'linear',
+                list: tickers.map(({ symbol, price }) => ({
+                    symbol: `${compact(symbol)}-${ddmonyy}`,
+                    lastPrice: String(price),
+                    markPrice: String(price),
+                    indexPrice: String(price),
+                    bid1Price: String(price),
+                    bid1Size: '1',
+                    ask1Price: String(price),
+                    ask1Size: '1',
+                })),
+            },
+        }),
+        '/bybit_delivery/v5/market/time': () => ({ retCode: 0, retMsg: 'OK', result: { timeNano: `${Date.now()}000000` } }),
+    },
+    handleClientMessage: bybit.handleClientMessage,
+    tickerTopic: (symbol) => `tickers.${compact(symbol)}-${ddmonyy}`,
+    tickerFrame: ({ symbol, price }) => ({
+        topic: `tickers.${compact(symbol)}-${ddmonyy}`,
+        type: 'snapshot',
+        ts: Date.now(),
+        data: {
+            symbol: `${compact(symbol)}-${ddmonyy}`,
+            lastPrice: String(price),
+            markPrice: String(price),
+            indexPrice: String(price),
+            volume24h: '1000',
+            highPrice24h: String(price),
+            lowPrice24h: String(price),
+        },
+    }),
+};
+
+const gateioDelivery: MockVenue = {
+    name: 'gateio_delivery',
+    restPath: '/gateio_delivery/api/v4',
+    wsPath: '/gateio_delivery/v4/ws/delivery/usdt',
+    routes: {
+        '/gateio_delivery/api/v4/delivery/usdt/contracts': (tickers) => tickers.map(({ symbol }) => ({
+            name: `${underscored(symbol)}_20${yymmdd}`,
+            underlying: underscored(symbol),
+            expire_time: DELIVERY_TIME / 1000,
+            in_delisting: false,
+            quanto_multiplier: '0.0001',
+            order_price_round: '0.1',
+            order_size_min: 1,
+            leverage_max: '20',
+        })),
+        '/gateio_delivery/api/v4/delivery/usdt/tickers': (tickers) => tickers.map(({ symbol, price }) => ({
+            contract: `${underscored(symbol)}_20${yymmdd}`,
+            last: String(price),
+            mark_price: String(price),
+            index_price: String(price),
+            highest_bid: String(price),
+            lowest_ask: String(price),
+        })),
+        '/gateio_delivery/api/v4/spot/time': () => ({ server_time: Date.now() }),
+    },
+    handleClientMessage: gateio.handleClientMessage,
+    tickerTopic: (symbol) => `futures.tickers:${underscored(symbol)}_20${yymmdd}`,
+    tickerFrame: ({ symbol, price }) => ({
+        time: Math.floor(Date.now() / 1000),
+        time_ms: Date.now(),
+        channel: 'futures.tickers',
+        event: 'update',
+        result: [{
+            contract: `${underscored(symbol)}_20${yymmdd}`,
+            last: String(price),
+            mark_price: String(price),
+            index_price: String(price),
+            volume_24h: '1000',
+            high_24h: String(price),
+            low_24h: String(price),
+        }],
+    }),
+};
+
+export const MOCK_VENUES: MockVenue[] = [
+    binance, bybit, gateio, mexc, lbank, okx, bitget,
+    binanceSpot, bybitSpot, gateioSpot,
+    binanceDelivery, bybitDelivery, gateioDelivery,
+];
\ No newline at end of file